@@ -0,0 +1,330 @@
+import { Client } from "pg";
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+
+/**
+ * migrate.ts
+ *
+ * Schema migration runner for Format Poker
+ *
+ * Migrations are numbered pairs of SQL files in migrations/,
+ * `NNNN_name.up.sql` and `NNNN_name.down.sql`, applied in order. Each one
+ * runs in its own transaction together with its row in `schema_migrations`,
+ * and the whole run holds a Postgres advisory lock, so two instances
+ * deploying at once never apply the same migration twice. Applied migrations
+ * must not be edited: their checksum is recorded and checked on every run.
+ *
+ * Commands:
+ *  - up             apply every pending migration (the default)
+ *  - down [steps]   revert the latest applied migrations (one by default)
+ *  - status         list migrations and whether they are applied
+ *  - create <name>  add an empty up/down pair with the next number
+ *  - seed           load the demo data in seed_db.sql into an up to date schema
+ *
+ * Expects environment variables:
+ *  - DATABASE_URL: Postgres connection string (not needed for create)
+ *
+ * Run from the repository root (after build):
+ *  - node dist/migrate.cjs [command]
+ */
+
+/* --- Config --- */
+const DATABASE_URL = process.env.DATABASE_URL;
+const NODE_ENV = process.env.NODE_ENV || "development";
+const MIGRATIONS_DIR = path.join(process.cwd(), "migrations");
+const SEED_FILE = path.join(process.cwd(), "seed_db.sql");
+// Advisory lock held while migrating or seeding; the same for every runner
+const LOCK_KEY = 864_251_307;
+
+const MIGRATION_FILE_RE = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+/* --- Types --- */
+type Migration = {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+};
+
+type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+};
+
+const label = (m: { version: number; name: string }) =>
+  `${String(m.version).padStart(4, "0")}_${m.name}`;
+
+const checksum = (sql: string) =>
+  crypto.createHash("sha256").update(sql).digest("hex");
+
+/* --- Migration files --- */
+/**
+ * Read migrations/ into migrations ordered by version. Every version needs an
+ * up file; a missing down file makes the migration irreversible.
+ */
+function loadMigrations(): Migration[] {
+  const byVersion = new Map<
+    number,
+    { version: number; name: string; up?: string; down?: string }
+  >();
+  for (const file of fs.readdirSync(MIGRATIONS_DIR).sort()) {
+    const match = MIGRATION_FILE_RE.exec(file);
+    if (!match) continue;
+    const version = Number(match[1]);
+    const entry = byVersion.get(version) ?? { version, name: match[2] };
+    if (entry.name !== match[2]) {
+      throw new Error(
+        `Migration ${match[1]} has files with different names (${entry.name}, ${match[2]})`,
+      );
+    }
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+    if (match[3] === "up") entry.up = sql;
+    else entry.down = sql;
+    byVersion.set(version, entry);
+  }
+  return [...byVersion.values()]
+    .map(({ up, down, ...m }) => {
+      if (up === undefined) {
+        throw new Error(`Migration ${label(m)} has no up file`);
+      }
+      return { ...m, up, down: down ?? null, checksum: checksum(up) };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+/* Empty up/down pair numbered after the latest migration */
+function createMigration(rawName: string | undefined) {
+  const name = (rawName || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  if (!name) throw new Error("Usage: migrate create <name>");
+  const migrations = loadMigrations();
+  const version = (migrations[migrations.length - 1]?.version ?? 0) + 1;
+  const base = label({ version, name });
+  for (const direction of ["up", "down"]) {
+    const file = path.join(MIGRATIONS_DIR, `${base}.${direction}.sql`);
+    fs.writeFileSync(
+      file,
+      `-- ${base}.${direction}.sql\n-- ${
+        direction === "up"
+          ? "What this migration changes"
+          : `Reverts ${base}.up.sql`
+      }\n\n`,
+      { flag: "wx" },
+    );
+    console.log(`Created ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+/* --- Database --- */
+async function inTransaction(client: Client, run: () => Promise<void>) {
+  await client.query("BEGIN");
+  try {
+    await run();
+    await client.query("COMMIT");
+  } catch (err) {
+    try {
+      await client.query("ROLLBACK");
+    } catch {
+      // ignore rollback errors
+    }
+    throw err;
+  }
+}
+
+/* Run `work` holding the migration lock, waiting for other runs to finish */
+async function withLock(client: Client, work: () => Promise<void>) {
+  const { rows } = await client.query<{ locked: boolean }>(
+    "SELECT pg_try_advisory_lock($1) AS locked",
+    [LOCK_KEY],
+  );
+  if (!rows[0].locked) {
+    console.log("Waiting for another migration run to finish...");
+    await client.query("SELECT pg_advisory_lock($1)", [LOCK_KEY]);
+  }
+  try {
+    await work();
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [LOCK_KEY]);
+  }
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`);
+}
+
+/* Applied migrations by version; none while the table does not exist yet */
+async function loadApplied(
+  client: Client,
+): Promise<Map<number, AppliedMigration>> {
+  const exists = await client.query<{ table: string | null }>(
+    "SELECT to_regclass('schema_migrations')::text AS table",
+  );
+  if (!exists.rows[0].table) return new Map();
+  const { rows } = await client.query<AppliedMigration>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version",
+  );
+  return new Map(rows.map((r) => [r.version, r]));
+}
+
+/* Applied migrations whose up file changed after it ran */
+function changedMigrations(
+  migrations: Migration[],
+  applied: Map<number, AppliedMigration>,
+): Migration[] {
+  return migrations.filter((m) => {
+    const row = applied.get(m.version);
+    return !!row && row.checksum !== m.checksum;
+  });
+}
+
+function pendingMigrations(
+  migrations: Migration[],
+  applied: Map<number, AppliedMigration>,
+): Migration[] {
+  const changed = changedMigrations(migrations, applied);
+  if (changed.length) {
+    throw new Error(
+      `Applied migrations were edited: ${changed.map(label).join(", ")}. ` +
+        "Add a new migration instead.",
+    );
+  }
+  return migrations.filter((m) => !applied.has(m.version));
+}
+
+/* --- Commands --- */
+async function migrateUp(client: Client) {
+  const migrations = loadMigrations();
+  await withLock(client, async () => {
+    await ensureMigrationsTable(client);
+    const pending = pendingMigrations(migrations, await loadApplied(client));
+    if (!pending.length) {
+      console.log("Schema is up to date.");
+      return;
+    }
+    for (const m of pending) {
+      await inTransaction(client, async () => {
+        await client.query(m.up);
+        await client.query(
+          "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+          [m.version, m.name, m.checksum],
+        );
+      });
+      console.log(`Applied ${label(m)}`);
+    }
+  });
+}
+
+async function migrateDown(client: Client, rawSteps: string | undefined) {
+  const steps = rawSteps === undefined ? 1 : Number(rawSteps);
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error("Usage: migrate down [steps]");
+  }
+  const migrations = new Map(loadMigrations().map((m) => [m.version, m]));
+  await withLock(client, async () => {
+    const applied = [...(await loadApplied(client)).values()].reverse();
+    if (!applied.length) {
+      console.log("No migrations are applied.");
+      return;
+    }
+    for (const row of applied.slice(0, steps)) {
+      const m = migrations.get(row.version);
+      if (!m?.down) {
+        throw new Error(`${label(row)} has no down migration`);
+      }
+      await inTransaction(client, async () => {
+        await client.query(m.down!);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [
+          m.version,
+        ]);
+      });
+      console.log(`Reverted ${label(m)}`);
+    }
+  });
+}
+
+async function migrationStatus(client: Client) {
+  const migrations = loadMigrations();
+  const applied = await loadApplied(client);
+  const changed = new Set(
+    changedMigrations(migrations, applied).map((m) => m.version),
+  );
+  const files = new Set(migrations.map((m) => m.version));
+  const versions = [...new Set([...files, ...applied.keys()])].sort(
+    (a, b) => a - b,
+  );
+  for (const version of versions) {
+    const row = applied.get(version);
+    const m = migrations.find((x) => x.version === version);
+    const state = row ? `applied ${row.applied_at.toISOString()}` : "pending";
+    const notes = [
+      changed.has(version) ? "edited since applied" : "",
+      files.has(version) ? "" : "file missing",
+      m && !m.down ? "irreversible" : "",
+    ].filter(Boolean);
+    console.log(
+      `${label(m ?? row!).padEnd(40)} ${state}${notes.length ? ` (${notes.join(", ")})` : ""}`,
+    );
+  }
+  const pending = migrations.filter((m) => !applied.has(m.version)).length;
+  console.log(
+    pending ? `${pending} pending migration(s).` : "Schema is up to date.",
+  );
+}
+
+/* Demo data; refused while migrations are pending so it never meets an old schema */
+async function seed(client: Client) {
+  const migrations = loadMigrations();
+  await withLock(client, async () => {
+    const pending = pendingMigrations(migrations, await loadApplied(client));
+    if (pending.length) {
+      throw new Error(
+        `${pending.length} pending migration(s); run npm run migrate first.`,
+      );
+    }
+    // seed_db.sql runs in a transaction of its own
+    await client.query(fs.readFileSync(SEED_FILE, "utf8"));
+    console.log("Loaded seed_db.sql");
+  });
+}
+
+async function main([command = "up", arg]: string[]) {
+  if (command === "create") return createMigration(arg);
+  if (!["up", "down", "status", "seed"].includes(command)) {
+    throw new Error(
+      "Usage: migrate [up | down [steps] | status | create <name> | seed]",
+    );
+  }
+  if (!DATABASE_URL) {
+    console.error("DATABASE_URL is not set. Exiting.");
+    process.exit(1);
+  }
+  const client = new Client({
+    connectionString: DATABASE_URL,
+    ssl: NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+  });
+  await client.connect();
+  try {
+    if (command === "up") await migrateUp(client);
+    else if (command === "down") await migrateDown(client, arg);
+    else if (command === "status") await migrationStatus(client);
+    else await seed(client);
+  } finally {
+    await client.end();
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error("Migration failed:", err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,32 @@
+-- 0001_initial.down.sql
+-- Drops everything 0001_initial.up.sql created, data included. The pgcrypto
+-- and pg_trgm extensions stay, as other schemas in the database may use them.
+
+DROP TABLE IF EXISTS live_events;
+DROP TABLE IF EXISTS notifications;
+DROP TABLE IF EXISTS notification_contacts;
+DROP TABLE IF EXISTS notification_subscriptions;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhooks;
+DROP TABLE IF EXISTS audit_log;
+DROP FUNCTION IF EXISTS audit_log_append_only();
+DROP TABLE IF EXISTS admin_sessions;
+DROP TABLE IF EXISTS board_admins;
+DROP TABLE IF EXISTS admin_users;
+DROP TABLE IF EXISTS estimation_cards;
+DROP TABLE IF EXISTS estimation_participants;
+DROP TABLE IF EXISTS estimation_session_formats;
+DROP TABLE IF EXISTS estimation_sessions;
+DROP TABLE IF EXISTS format_comments;
+DROP TABLE IF EXISTS format_submissions;
+DROP TABLE IF EXISTS format_status_history;
+DROP TABLE IF EXISTS format_redirects;
+DROP TABLE IF EXISTS format_relations;
+DROP TABLE IF EXISTS format_aliases;
+DROP TABLE IF EXISTS rate_limit_hits;
+DROP TABLE IF EXISTS devices;
+DROP TABLE IF EXISTS votes;
+DROP TABLE IF EXISTS formats;
+DROP TABLE IF EXISTS boards;
+DROP TABLE IF EXISTS statuses;
+DROP TABLE IF EXISTS kinds;
@@ -0,0 +1,490 @@
+-- 0001_initial.up.sql
+-- Baseline schema for Format Poker: the `kinds` and `statuses` taxonomy with its built-in entries,
+-- the default board, and the `boards`, `formats`, `votes`, device, rate limit, alias/redirect,
+-- container/codec relation, status history, submission, comment, estimation session, admin account,
+-- board admin, audit log, webhook, notification and live event tables with their indexes.
+-- Every statement is idempotent, so databases provisioned with the old init_db.sql (or older
+-- versions of it) are brought up to date and adopted by the migration runner. Demo formats live
+-- in seed_db.sql (`npm run seed`).
+
+-- Create pgcrypto extension (provides gen_random_uuid())
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- pg_trgm provides word_similarity(), used by the typo-tolerant format search
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- Taxonomy: the kinds formats can have. `key` is the value stored on
+-- formats; `label`, `color` and `position` decide how clients show it.
+-- Formats are only listed publicly while their kind and status are both
+-- `visible`, and only take votes while both have `voting_open`.
+CREATE TABLE IF NOT EXISTS kinds (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#555555' CHECK (color ~ '^#[0-9a-f]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  voting_open BOOLEAN NOT NULL DEFAULT true,
+  visible BOOLEAN NOT NULL DEFAULT true
+);
+
+-- Lifecycle statuses, with the same display and access flags as kinds.
+-- `transitions` are the statuses a format may move to next; the single
+-- `initial` status is where public submissions land.
+CREATE TABLE IF NOT EXISTS statuses (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#555555' CHECK (color ~ '^#[0-9a-f]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  voting_open BOOLEAN NOT NULL DEFAULT true,
+  visible BOOLEAN NOT NULL DEFAULT true,
+  transitions TEXT[] NOT NULL DEFAULT '{}',
+  initial BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_statuses_initial ON statuses (initial) WHERE initial;
+
+INSERT INTO kinds (key, label, color, position)
+VALUES
+  ('image', 'Image', '#2f6f9f', 1),
+  ('video', 'Video', '#7a3f9f', 2),
+  ('audio', 'Audio', '#3f7f4f', 3)
+ON CONFLICT (key) DO NOTHING;
+
+-- The lifecycle the app always had: submissions wait in review, only
+-- requested formats take votes, and reviewed or rejected ones are hidden
+INSERT INTO statuses (key, label, color, position, voting_open, visible, transitions, initial)
+VALUES
+  ('In Review', 'In Review', '#2f3c96', 1, false, false, '{Requested,Planned,Rejected}', true),
+  ('Requested', 'Requested', '#111111', 2, true, true, '{Planned,Rejected}', false),
+  ('Planned', 'Planned', '#775c1a', 3, false, true, '{Supported,Requested}', false),
+  ('Supported', 'Supported', '#1f5b3f', 4, false, true, '{Planned}', false),
+  ('Rejected', 'Rejected', '#6b1c1c', 5, false, false, '{In Review,Requested}', false)
+ON CONFLICT (key) DO NOTHING;
+
+-- Request boards, e.g. one per team. `kinds` are the kinds formats on the
+-- board may have; `statuses` the lifecycle statuses it uses, both taxonomy
+-- keys. The unscoped
+-- /api routes serve the "default" board.
+CREATE TABLE IF NOT EXISTS boards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]([a-z0-9-]{0,38}[a-z0-9])?$'),
+  title TEXT NOT NULL,
+  kinds TEXT[] NOT NULL DEFAULT '{}',
+  statuses TEXT[] NOT NULL DEFAULT '{In Review,Requested,Planned,Supported,Rejected}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO boards (slug, title, kinds)
+VALUES ('default', 'Squarespace Image Format Support', '{image,video,audio}')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Formats table: one row per format
+CREATE TABLE IF NOT EXISTS formats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL REFERENCES kinds(key),
+  status TEXT NOT NULL REFERENCES statuses(key),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  votes INTEGER NOT NULL DEFAULT 0,
+  estimate TEXT,
+  -- Technical metadata; extensions are lowercase without the leading dot
+  mime_types TEXT[] NOT NULL DEFAULT '{}',
+  extensions TEXT[] NOT NULL DEFAULT '{}',
+  spec_urls TEXT[] NOT NULL DEFAULT '{}',
+  -- RICE priority inputs set by admins; NULL falls back to a default (and
+  -- reach to the vote count)
+  reach INTEGER CHECK (reach >= 0),
+  impact DOUBLE PRECISION CHECK (impact > 0),
+  confidence INTEGER CHECK (confidence BETWEEN 0 AND 100),
+  effort DOUBLE PRECISION CHECK (effort > 0)
+);
+
+-- Databases created before estimation sessions existed lack the estimate column
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS estimate TEXT;
+
+-- Databases created before technical metadata existed lack these columns
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS mime_types TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS extensions TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS spec_urls TEXT[] NOT NULL DEFAULT '{}';
+
+-- Databases created before priority scoring existed lack the RICE inputs
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS reach INTEGER CHECK (reach >= 0);
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS impact DOUBLE PRECISION CHECK (impact > 0);
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS confidence INTEGER CHECK (confidence BETWEEN 0 AND 100);
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS effort DOUBLE PRECISION CHECK (effort > 0);
+
+-- Databases created before boards existed: every format joins the default
+-- board, which also takes on any kinds already in use
+ALTER TABLE formats ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES boards(id);
+UPDATE formats SET board_id = (SELECT id FROM boards WHERE slug = 'default') WHERE board_id IS NULL;
+ALTER TABLE formats ALTER COLUMN board_id SET NOT NULL;
+UPDATE boards b
+   SET kinds = b.kinds || ARRAY(SELECT DISTINCT f.kind FROM formats f WHERE f.board_id = b.id AND f.kind <> ALL(b.kinds))
+ WHERE b.slug = 'default';
+
+-- Databases created before the taxonomy existed: kinds in use join it with
+-- their key as label, then formats are tied to it like new databases are
+INSERT INTO kinds (key, label, position)
+SELECT k, k, 100 FROM (SELECT kind AS k FROM formats UNION SELECT unnest(kinds) FROM boards) used
+ON CONFLICT (key) DO NOTHING;
+INSERT INTO statuses (key, label, position)
+SELECT s, s, 100 FROM (SELECT status AS s FROM formats UNION SELECT unnest(statuses) FROM boards) used
+ON CONFLICT (key) DO NOTHING;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'formats_kind_fkey') THEN
+    ALTER TABLE formats ADD CONSTRAINT formats_kind_fkey FOREIGN KEY (kind) REFERENCES kinds(key);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'formats_status_fkey') THEN
+    ALTER TABLE formats ADD CONSTRAINT formats_status_fkey FOREIGN KEY (status) REFERENCES statuses(key);
+  END IF;
+END $$;
+
+-- Ensure we don't accidentally insert exact duplicate names on a board (case-insensitive)
+DROP INDEX IF EXISTS ux_formats_name_lower;
+CREATE UNIQUE INDEX IF NOT EXISTS ux_formats_board_name_lower ON formats (board_id, lower(name));
+
+-- Votes table: records that a device has voted for a format.
+-- Composite primary key prevents duplicate votes per (device, format).
+CREATE TABLE IF NOT EXISTS votes (
+  device_id UUID NOT NULL,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (device_id, format_id)
+);
+
+-- Index to quickly answer "who voted for this format?" or count votes (if needed)
+CREATE INDEX IF NOT EXISTS idx_votes_format_id ON votes (format_id);
+
+-- Address the vote came from, for spotting vote bursts (null on older votes)
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS ip TEXT;
+CREATE INDEX IF NOT EXISTS idx_votes_format_created_at ON votes (format_id, created_at);
+
+-- Devices the API issued a signed token to. Votes and submissions need one;
+-- a blocked device can no longer vote or submit.
+CREATE TABLE IF NOT EXISTS devices (
+  id UUID PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_ip TEXT,
+  blocked_at TIMESTAMPTZ
+);
+
+-- Fixed-window request counters behind the rate limits, shared by every
+-- server instance. Old windows are pruned by the server.
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+-- Index to speed up ordering by votes on formats
+CREATE INDEX IF NOT EXISTS idx_formats_votes_desc ON formats (votes DESC);
+
+-- Alternative names for a format (e.g. names of duplicates merged into it).
+-- Aliases are unique case-insensitively across all formats.
+CREATE TABLE IF NOT EXISTS format_aliases (
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (format_id, alias)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_format_aliases_alias_lower ON format_aliases (lower(alias));
+
+-- Container/codec relations between formats (e.g. MPEG-TS carries H.264)
+CREATE TABLE IF NOT EXISTS format_relations (
+  container_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  codec_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  PRIMARY KEY (container_id, codec_id),
+  CHECK (container_id <> codec_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_format_relations_codec_id ON format_relations (codec_id);
+
+-- IDs of formats merged away, pointing at the format that absorbed them
+CREATE TABLE IF NOT EXISTS format_redirects (
+  old_id UUID PRIMARY KEY,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_format_redirects_format_id ON format_redirects (format_id);
+
+-- Status history: one row per lifecycle move. `from_status` is NULL for the
+-- status a format was created with.
+CREATE TABLE IF NOT EXISTS format_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_format_status_history_format ON format_status_history (format_id, changed_at);
+
+-- Newest-first scans for the public changelog feeds
+CREATE INDEX IF NOT EXISTS idx_format_status_history_changed_at ON format_status_history (changed_at DESC, id DESC);
+
+-- Public submissions and what became of them. `device_id` is the submitting
+-- device, which can follow its submissions; name and kind are copied so the
+-- outcome stays readable after a merge or delete. `decision` stays pending
+-- until a moderator approves, merges, rejects (with a reason) or deletes the
+-- submitted format.
+CREATE TABLE IF NOT EXISTS format_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  format_id UUID REFERENCES formats(id) ON DELETE SET NULL,
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  device_id TEXT,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  decision TEXT NOT NULL DEFAULT 'pending' CHECK (decision IN ('pending', 'approved', 'merged', 'rejected', 'deleted')),
+  reason TEXT,
+  merged_into UUID REFERENCES formats(id) ON DELETE SET NULL,
+  decided_by TEXT,
+  decided_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_format_submissions_device ON format_submissions (device_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_format_submissions_format ON format_submissions (format_id);
+
+-- Discussion threads. Comments are tied to the posting device; `parent_id`
+-- makes a reply. Hidden comments stay in place (so replies keep their
+-- context) but their body is only shown to admins.
+CREATE TABLE IF NOT EXISTS format_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES format_comments(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL,
+  author_name TEXT,
+  body TEXT NOT NULL,
+  hidden BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  edited_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_format_comments_format ON format_comments (format_id, created_at);
+
+-- Estimation sessions: planning-poker rounds over a set of formats.
+-- `scale` is the card deck (fibonacci or tshirt); `current_format_id` is the
+-- format being estimated right now and `revealed` flips once cards are shown.
+CREATE TABLE IF NOT EXISTS estimation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  scale TEXT NOT NULL CHECK (scale IN ('fibonacci', 'tshirt')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  current_format_id UUID REFERENCES formats(id) ON DELETE SET NULL,
+  revealed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ
+);
+
+-- Formats included in a session, in the order they will be estimated
+CREATE TABLE IF NOT EXISTS estimation_session_formats (
+  session_id UUID NOT NULL REFERENCES estimation_sessions(id) ON DELETE CASCADE,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (session_id, format_id)
+);
+
+-- Devices that joined a session. `id` is the public handle shown to other
+-- participants so device ids never leave the server.
+CREATE TABLE IF NOT EXISTS estimation_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES estimation_sessions(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL,
+  display_name TEXT NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (session_id, device_id)
+);
+
+-- Hidden effort cards, one per participant per format in a session
+CREATE TABLE IF NOT EXISTS estimation_cards (
+  session_id UUID NOT NULL REFERENCES estimation_sessions(id) ON DELETE CASCADE,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES estimation_participants(id) ON DELETE CASCADE,
+  card TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, format_id, participant_id)
+);
+
+-- Admin accounts. Passwords are stored as scrypt hashes; `role` decides which
+-- admin routes the account may use (owner > moderator).
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username TEXT NOT NULL,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'moderator')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_admin_users_username_lower ON admin_users (lower(username));
+
+-- Accounts that moderate each board. Owners moderate every board and need
+-- no rows here.
+CREATE TABLE IF NOT EXISTS board_admins (
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  PRIMARY KEY (board_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_admins_user_id ON board_admins (user_id);
+
+-- When boards are introduced, existing moderators keep the default board
+INSERT INTO board_admins (board_id, user_id)
+SELECT b.id, u.id
+  FROM boards b, admin_users u
+ WHERE b.slug = 'default' AND u.role = 'moderator'
+   AND NOT EXISTS (SELECT 1 FROM board_admins);
+
+-- Cookie-backed admin sessions. Only a SHA-256 of the cookie token is stored;
+-- `csrf_token` must be echoed in the x-csrf-token header on mutating requests.
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  token_hash TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  csrf_token TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_user_id ON admin_sessions (user_id);
+
+-- Append-only audit log of admin mutations. `actor_id` deliberately has no
+-- foreign key so history survives the deletion of the admin account.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor_id UUID,
+  actor_username TEXT NOT NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log (created_at DESC);
+
+-- Reject UPDATE, DELETE and TRUNCATE so entries can only ever be appended
+CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_audit_log_append_only ON audit_log;
+CREATE TRIGGER trg_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+
+DROP TRIGGER IF EXISTS trg_audit_log_no_truncate ON audit_log;
+CREATE TRIGGER trg_audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+
+-- Outbound webhook subscriptions. An empty `events` array subscribes to every
+-- event; `vote_threshold` is the vote count that fires format.vote_threshold.
+-- The secret signs payloads (HMAC-SHA256) and is shown to the owner only once.
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  vote_threshold INTEGER NOT NULL DEFAULT 10 CHECK (vote_threshold > 0),
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Delivery queue and log: one row per (event, webhook). Rows are written in
+-- the same transaction as the change that caused them, then sent by the
+-- dispatcher with exponential backoff until they succeed or give up.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  dedupe_key TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id DESC);
+-- One-off events (e.g. a vote threshold being reached) are only queued once
+CREATE UNIQUE INDEX IF NOT EXISTS ux_webhook_deliveries_dedupe ON webhook_deliveries (webhook_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+-- "Notify me" subscriptions: a device that voted for a format asks to hear
+-- about its status changes. Removing the vote removes the subscription.
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  device_id TEXT NOT NULL,
+  format_id UUID NOT NULL REFERENCES formats(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (device_id, format_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_subscriptions_format ON notification_subscriptions (format_id);
+
+-- Optional email address a device wants its notifications mailed to
+CREATE TABLE IF NOT EXISTS notification_contacts (
+  device_id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- In-app notification inbox, one row per (status change, subscribed device).
+-- The format name is copied so entries stay readable after a delete. `email`
+-- is the address at the time of the change; `email_status` tracks its mail.
+CREATE TABLE IF NOT EXISTS notifications (
+  id BIGSERIAL PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  format_id UUID REFERENCES formats(id) ON DELETE SET NULL,
+  format_name TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ,
+  email TEXT,
+  email_status TEXT NOT NULL DEFAULT 'none' CHECK (email_status IN ('none', 'pending', 'sent', 'failed')),
+  email_attempts INTEGER NOT NULL DEFAULT 0,
+  email_next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  email_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_device ON notifications (device_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications (device_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_email_due ON notifications (email_next_attempt_at) WHERE email_status = 'pending';
+
+-- Live update log: every event pushed over /api/live. Rows are announced with
+-- NOTIFY so all server instances fan them out, double as the replay log for
+-- reconnecting clients (Last-Event-ID) and are pruned after a day. Events
+-- with a `board_id` only go to that board's stream; NULL goes to every board.
+CREATE TABLE IF NOT EXISTS live_events (
+  id BIGSERIAL PRIMARY KEY,
+  event TEXT NOT NULL,
+  data JSONB NOT NULL,
+  board_id UUID REFERENCES boards(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Databases created before boards existed lack the board column
+ALTER TABLE live_events ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES boards(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_live_events_created_at ON live_events (created_at);
+
+-- Databases created before status history existed: give every format its
+-- starting entry so the status timeline is never empty
+INSERT INTO format_status_history (format_id, from_status, to_status, changed_by, changed_at)
+SELECT f.id, NULL, f.status, 'system', f.created_at
+  FROM formats f
+ WHERE NOT EXISTS (SELECT 1 FROM format_status_history h WHERE h.format_id = f.id);
@@ -0,0 +1,5 @@
+-- 0002_imported_votes.down.sql
+-- Reverts 0002_imported_votes.up.sql. Vote counts keep the imported votes
+-- until the next recount.
+
+ALTER TABLE formats DROP COLUMN IF EXISTS imported_votes;
@@ -0,0 +1,10 @@
+-- 0002_imported_votes.up.sql
+-- Votes a format was imported (or seeded) with, which have no rows in `votes`.
+-- Recounts after a merge or a voided vote burst add them back, so
+-- formats.votes = imported_votes + the number of votes rows.
+
+ALTER TABLE formats ADD COLUMN imported_votes INTEGER NOT NULL DEFAULT 0 CHECK (imported_votes >= 0);
+
+-- Existing formats: whatever the vote count has beyond their votes rows
+UPDATE formats f
+   SET imported_votes = GREATEST(f.votes - (SELECT count(*) FROM votes v WHERE v.format_id = f.id), 0);
@@ -0,0 +1,8 @@
+-- 0003_board_scoped_aliases.down.sql
+-- Reverts 0003_board_scoped_aliases.up.sql. Fails while two boards share an
+-- alias, which the global index does not allow; rename one of them first.
+
+DROP INDEX IF EXISTS ux_format_aliases_board_alias_lower;
+CREATE UNIQUE INDEX ux_format_aliases_alias_lower ON format_aliases (lower(alias));
+
+ALTER TABLE format_aliases DROP COLUMN board_id;
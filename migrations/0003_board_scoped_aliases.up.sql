@@ -0,0 +1,16 @@
+-- 0003_board_scoped_aliases.up.sql
+-- Aliases become unique per board, like format names, rather than across all
+-- boards: a name that is free on one board no longer collides with an alias
+-- on another. format_aliases carries the board of its format for the index.
+
+ALTER TABLE format_aliases ADD COLUMN board_id UUID REFERENCES boards(id);
+
+UPDATE format_aliases a
+   SET board_id = f.board_id
+  FROM formats f
+ WHERE f.id = a.format_id;
+
+ALTER TABLE format_aliases ALTER COLUMN board_id SET NOT NULL;
+
+DROP INDEX IF EXISTS ux_format_aliases_alias_lower;
+CREATE UNIQUE INDEX ux_format_aliases_board_alias_lower ON format_aliases (board_id, lower(alias));
@@ -1,32 +1,95 @@
 -- seed_db.sql
 -- Optional seed data for Format Poker. Inserts a set of initial formats.
--- Safe to run multiple times: uses ON CONFLICT DO NOTHING against the
--- case-insensitive unique index on lower(name) created by init_db.sql.
+-- Formats go on the default board. Safe to run multiple times: uses ON
+-- CONFLICT DO NOTHING against the case-insensitive unique index on
+-- (board_id, lower(name)) created by the initial migration.
 --
--- Usage:
---   psql "$DATABASE_URL" -f seed_db.sql
+-- Usage (after npm run migrate):
+--   npm run seed
 --
 BEGIN;
 
-INSERT INTO formats (name, kind, status, created_at, votes) VALUES
-  ('AVIF', 'image', 'Supported', now(), (floor(random()*8))::int),
-  ('HEIF/HEIC', 'image', 'Requested', now(), (floor(random()*8))::int),
-  ('WebP', 'image', 'Supported', now(), (floor(random()*8))::int),
-  ('SVG', 'image', 'Supported', now(), (floor(random()*8))::int),
-  ('TIFF', 'image', 'Requested', now(), (floor(random()*8))::int),
-  ('JPEG XL (JXL)', 'image', 'Requested', now(), (floor(random()*8))::int),
-  ('MP4/H.264', 'video', 'Supported', now(), (floor(random()*8))::int),
-  ('H.265/HEVC', 'video', 'Requested', now(), (floor(random()*8))::int),
-  ('AV1', 'video', 'Requested', now(), (floor(random()*8))::int),
-  ('WebM/VP9', 'video', 'Requested', now(), (floor(random()*8))::int),
-  ('HLS (m3u8)', 'video', 'Planned', now(), (floor(random()*8))::int),
-  ('MPEG-TS', 'video', 'Requested', now(), (floor(random()*8))::int),
-  ('MP3', 'audio', 'Supported', now(), (floor(random()*8))::int),
-  ('AAC (m4a)', 'audio', 'Supported', now(), (floor(random()*8))::int),
-  ('FLAC', 'audio', 'Requested', now(), (floor(random()*8))::int),
-  ('WAV', 'audio', 'Planned', now(), (floor(random()*8))::int),
-  ('OGG Vorbis', 'audio', 'Requested', now(), (floor(random()*8))::int),
-  ('Opus', 'audio', 'Requested', now(), (floor(random()*8))::int)
-ON CONFLICT (lower(name)) DO NOTHING;
+-- The random vote counts have no votes rows, so they count as imported votes
+WITH seeded AS (
+SELECT b.id AS board_id, s.name, s.kind, s.status, (floor(random()*8))::int AS votes
+  FROM boards b, (VALUES
+    ('AVIF', 'image', 'Supported'),
+    ('HEIF/HEIC', 'image', 'Requested'),
+    ('WebP', 'image', 'Supported'),
+    ('SVG', 'image', 'Supported'),
+    ('TIFF', 'image', 'Requested'),
+    ('JPEG XL (JXL)', 'image', 'Requested'),
+    ('MP4/H.264', 'video', 'Supported'),
+    ('H.265/HEVC', 'video', 'Requested'),
+    ('AV1', 'video', 'Requested'),
+    ('WebM/VP9', 'video', 'Requested'),
+    ('HLS (m3u8)', 'video', 'Planned'),
+    ('MPEG-TS', 'video', 'Requested'),
+    ('MP3', 'audio', 'Supported'),
+    ('AAC (m4a)', 'audio', 'Supported'),
+    ('FLAC', 'audio', 'Requested'),
+    ('WAV', 'audio', 'Planned'),
+    ('OGG Vorbis', 'audio', 'Requested'),
+    ('Opus', 'audio', 'Requested')
+  ) AS s(name, kind, status)
+ WHERE b.slug = 'default'
+)
+INSERT INTO formats (board_id, name, kind, status, created_at, votes, imported_votes)
+SELECT board_id, name, kind, status, now(), votes, votes FROM seeded
+ON CONFLICT (board_id, lower(name)) DO NOTHING;
+
+-- Starting status history entry for the formats inserted above
+INSERT INTO format_status_history (format_id, from_status, to_status, changed_by, changed_at)
+SELECT f.id, NULL, f.status, 'system', f.created_at
+  FROM formats f
+ WHERE NOT EXISTS (SELECT 1 FROM format_status_history h WHERE h.format_id = f.id);
+
+-- Technical metadata for the seeded formats. Only fills formats that have none
+-- yet, so re-running never overwrites edits made through the admin API.
+UPDATE formats f
+   SET mime_types = m.mime_types, extensions = m.extensions, spec_urls = m.spec_urls
+  FROM (VALUES
+    ('avif', '{image/avif}'::text[], '{avif}'::text[], '{https://aomediacodec.github.io/av1-avif/}'::text[]),
+    ('heif/heic', '{image/heif,image/heic}', '{heif,heic}', '{https://www.iso.org/standard/83650.html}'),
+    ('webp', '{image/webp}', '{webp}', '{https://developers.google.com/speed/webp/docs/riff_container}'),
+    ('svg', '{image/svg+xml}', '{svg,svgz}', '{https://www.w3.org/TR/SVG2/}'),
+    ('tiff', '{image/tiff}', '{tif,tiff}', '{https://www.loc.gov/preservation/digital/formats/fdd/fdd000022.shtml}'),
+    ('jpeg xl (jxl)', '{image/jxl}', '{jxl}', '{https://jpeg.org/jpegxl/}'),
+    ('mp4/h.264', '{video/mp4}', '{mp4,m4v}', '{https://www.itu.int/rec/T-REC-H.264}'),
+    ('h.265/hevc', '{video/mp4}', '{mp4,hevc}', '{https://www.itu.int/rec/T-REC-H.265}'),
+    ('av1', '{video/av1}', '{ivf,obu}', '{https://aomediacodec.github.io/av1-spec/}'),
+    ('webm/vp9', '{video/webm}', '{webm}', '{https://www.webmproject.org/docs/container/}'),
+    ('hls (m3u8)', '{application/vnd.apple.mpegurl}', '{m3u8}', '{https://datatracker.ietf.org/doc/html/rfc8216}'),
+    ('mpeg-ts', '{video/mp2t}', '{ts,m2ts}', '{https://www.itu.int/rec/T-REC-H.222.0}'),
+    ('mp3', '{audio/mpeg}', '{mp3}', '{https://www.iso.org/standard/22412.html}'),
+    ('aac (m4a)', '{audio/aac,audio/mp4}', '{aac,m4a}', '{https://www.iso.org/standard/76383.html}'),
+    ('flac', '{audio/flac}', '{flac}', '{https://datatracker.ietf.org/doc/html/rfc9639}'),
+    ('wav', '{audio/wav}', '{wav}', '{https://www.loc.gov/preservation/digital/formats/fdd/fdd000001.shtml}'),
+    ('ogg vorbis', '{audio/ogg}', '{ogg,oga}', '{https://xiph.org/vorbis/doc/Vorbis_I_spec.html}'),
+    ('opus', '{audio/opus,audio/ogg}', '{opus}', '{https://datatracker.ietf.org/doc/html/rfc6716}')
+  ) AS m(name, mime_types, extensions, spec_urls)
+ WHERE lower(f.name) = m.name
+   AND f.board_id = (SELECT id FROM boards WHERE slug = 'default')
+   AND f.mime_types = '{}' AND f.extensions = '{}' AND f.spec_urls = '{}';
+
+-- Containers and the seeded codecs they carry
+INSERT INTO format_relations (container_id, codec_id)
+SELECT c.id, k.id
+  FROM (VALUES
+    ('hls (m3u8)', 'mp4/h.264'),
+    ('hls (m3u8)', 'h.265/hevc'),
+    ('hls (m3u8)', 'aac (m4a)'),
+    ('mpeg-ts', 'mp4/h.264'),
+    ('mpeg-ts', 'h.265/hevc'),
+    ('mpeg-ts', 'aac (m4a)'),
+    ('mpeg-ts', 'mp3'),
+    ('webm/vp9', 'av1'),
+    ('webm/vp9', 'opus'),
+    ('webm/vp9', 'ogg vorbis')
+  ) AS r(container, codec)
+  JOIN boards b ON b.slug = 'default'
+  JOIN formats c ON c.board_id = b.id AND lower(c.name) = r.container
+  JOIN formats k ON k.board_id = b.id AND lower(k.name) = r.codec
+ON CONFLICT DO NOTHING;
 
 COMMIT;
@@ -2,10 +2,16 @@ import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
-import { Pool, PoolClient } from "pg";
-import { Server } from "http";
+import { Client, Pool, PoolClient } from "pg";
+import http, { Server } from "http";
+import https from "https";
+import dns from "dns";
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
+import net from "net";
+import tls from "tls";
+import os from "os";
 
 /**
  * server.ts
@@ -14,16 +20,107 @@ import fs from "fs";
  *
  * Expects environment variables:
  *  - DATABASE_URL: Postgres connection string
- *  - ADMIN_KEY: simple admin auth key (optional; defaults to "change-me")
+ *  - ADMIN_USERNAME / ADMIN_PASSWORD: bootstrap owner account, created on
+ *    startup when no admin accounts exist yet (optional)
+ *  - CORS_ORIGIN: comma-separated allowed origins (optional; reflects the
+ *    request origin when unset)
+ *  - SMTP_URL / MAIL_FROM: transport and sender for notification emails
+ *    (optional; smtp://, smtps:// or log://)
+ *  - DEVICE_TOKEN_SECRET: signs device tokens and submission challenges
+ *    (optional, but tokens do not survive a restart without it)
+ *  - SUBMIT_POW_BITS: proof of work required to submit a format, in leading
+ *    zero bits of SHA-256 (optional; 0 = off, up to 24)
+ *  - TRUST_PROXY: Express "trust proxy" value, so rate limits see client
+ *    addresses behind a load balancer (optional)
+ *  - WEBHOOK_ALLOW_PRIVATE: "true" lets webhooks target loopback and private
+ *    network addresses, e.g. a receiver on localhost (optional)
+ *
+ * Routes on formats, /api/statuses, /api/taxonomy, /api/moderation,
+ * /api/trends/movers, /api/changelog.*, /api/live, /api/admin/vote-bursts and
+ * the catalog import/export are board-scoped:
+ * each also answers under /api/boards/:board (e.g. /api/boards/video/formats).
+ * The unprefixed paths serve the "default" board, except that /api/formats/:id
+ * routes reach a format on any board.
+ *
+ * Votes, submissions, comments, estimation cards and notification settings
+ * carry a signed device token from POST /api/devices (`deviceToken` in the
+ * body, or the X-Device-Token header on GETs). Votes and submissions are also
+ * rate limited per client address and per device.
+ *
+ * Kinds and statuses come from the `kinds` and `statuses` taxonomy tables
+ * (label, colour, order, whether voting is open, whether formats are public);
+ * owners manage them under /api/admin/taxonomy.
  *
  * Endpoints:
+ *  - GET    /api/boards
+ *  - GET    /api/boards/:board
+ *  - POST   /api/boards              (owner)
+ *  - PUT    /api/boards/:board       (owner)
  *  - GET    /api/formats
  *  - GET    /api/formats/:id
- *  - POST   /api/formats             (admin)
- *  - PUT    /api/formats/:id/status  (admin)
- *  - DELETE /api/formats/:id         (admin)
+ *  - GET    /api/formats/:id/history
+ *  - GET    /api/formats/:id/trend
+ *  - GET    /api/trends/movers
+ *  - GET    /api/statuses
+ *  - GET    /api/taxonomy
+ *  - GET    /api/changelog.atom|.rss|.json
+ *  - POST   /api/formats             (moderator)
+ *  - PUT    /api/formats/:id/status  (moderator)
+ *  - DELETE /api/formats/:id         (owner)
+ *  - POST   /api/formats/:id/merge   (moderator)
+ *  - GET    /api/moderation          (moderator)
+ *  - POST   /api/formats/:id/approve (moderator)
+ *  - POST   /api/formats/:id/reject  (moderator)
+ *  - GET    /api/submissions
+ *  - PUT    /api/formats/:id/metadata (moderator)
+ *  - PATCH  /api/formats/:id         (moderator)
+ *  - GET    /api/admin/formats/export (moderator)
+ *  - POST   /api/admin/formats/import (moderator)
+ *  - POST   /api/devices
+ *  - GET    /api/challenge
  *  - POST   /api/formats/:id/vote
+ *  - GET    /api/votes
+ *  - GET    /api/admin/vote-bursts   (moderator)
+ *  - POST   /api/formats/:id/votes/void (moderator)
+ *  - PUT    /api/formats/:id/subscription
+ *  - GET    /api/notifications
+ *  - POST   /api/notifications/read
+ *  - GET    /api/notifications/settings
+ *  - PUT    /api/notifications/email
+ *  - POST   /api/admin/login
+ *  - POST   /api/admin/logout        (admin)
+ *  - GET    /api/admin/me            (admin)
+ *  - GET    /api/admin/users         (owner)
+ *  - POST   /api/admin/users         (owner)
+ *  - PUT    /api/admin/users/:id     (owner)
+ *  - DELETE /api/admin/users/:id     (owner)
+ *  - GET    /api/audit               (admin)
+ *  - GET    /api/admin/taxonomy      (owner)
+ *  - POST   /api/admin/taxonomy/:type (owner)
+ *  - PUT    /api/admin/taxonomy/:type/:key (owner)
+ *  - GET    /api/admin/webhooks      (owner)
+ *  - POST   /api/admin/webhooks      (owner)
+ *  - PUT    /api/admin/webhooks/:id  (owner)
+ *  - DELETE /api/admin/webhooks/:id  (owner)
+ *  - POST   /api/admin/webhooks/:id/ping       (owner)
+ *  - GET    /api/admin/webhooks/:id/deliveries (owner)
+ *  - POST   /api/admin/webhook-deliveries/:id/retry (owner)
+ *  - GET    /api/formats/:id/comments
+ *  - POST   /api/formats/:id/comments
+ *  - PUT    /api/comments/:id
+ *  - PUT    /api/comments/:id/hidden (moderator)
+ *  - DELETE /api/comments/:id        (moderator)
+ *  - GET    /api/sessions
+ *  - GET    /api/sessions/:id
+ *  - POST   /api/sessions                (admin)
+ *  - POST   /api/sessions/:id/join
+ *  - POST   /api/sessions/:id/cards
+ *  - POST   /api/sessions/:id/current    (admin)
+ *  - POST   /api/sessions/:id/reveal     (admin)
+ *  - POST   /api/sessions/:id/estimate   (admin)
+ *  - POST   /api/sessions/:id/close      (admin)
  *  - GET    /health
+ *  - GET    /formats/:id             (SPA page with Open Graph tags)
  *
  * Build:
  *  - tsc -p tsconfig.server.json
@@ -35,27 +132,254 @@ import fs from "fs";
  */
 
 /* --- Types --- */
-const STATUS_IN_REVIEW = "In Review";
+
+/*
+ * A kind from the taxonomy. `key` is the value stored on formats; `label`,
+ * `color` and `position` are for display. Formats are only listed publicly
+ * while their kind and status are both `visible`, and only take votes while
+ * both have `voting_open`.
+ */
+type KindRow = {
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  voting_open: boolean;
+  visible: boolean;
+};
+
+/*
+ * A lifecycle status. `transitions` are the statuses a format may move to
+ * from it; the one `initial` status is where public submissions land.
+ */
+type StatusRow = KindRow & { transitions: string[]; initial: boolean };
+
+type Taxonomy = { kinds: KindRow[]; statuses: StatusRow[] };
+
+const KIND_COLUMNS = "key, label, color, position, voting_open, visible";
+const STATUS_COLUMNS = `${KIND_COLUMNS}, transitions, initial`;
+
+type StatusHistoryRow = {
+  id: string;
+  format_id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string;
+  changed_at: string;
+};
 
 type FormatRow = {
   id: string;
+  board_id: string;
   name: string;
   kind: string;
   status: string;
   created_at: string;
   votes: number;
+  estimate: string | null;
+  mime_types: string[];
+  extensions: string[];
+  spec_urls: string[];
+  reach: number | null;
+  impact: number | null;
+  confidence: number | null;
+  effort: number | null;
+  priority?: number;
+  comment_count?: number;
+  aliases?: string[];
+  codecs?: { id: string; name: string }[];
+  containers?: { id: string; name: string }[];
+  relevance?: number;
+};
+
+const FORMAT_COLUMNS =
+  "id, board_id, name, kind, status, created_at, votes, estimate, mime_types, extensions, spec_urls, reach, impact, confidence, effort";
+
+/* Visible comment count, appended to FORMAT_COLUMNS on read queries */
+const COMMENT_COUNT_SQL =
+  "(SELECT count(*) FROM format_comments c WHERE c.format_id = formats.id AND NOT c.hidden)::int AS comment_count";
+
+/* Alternative names, e.g. the names of formats merged into this one */
+const ALIASES_SQL =
+  "ARRAY(SELECT a.alias FROM format_aliases a WHERE a.format_id = formats.id ORDER BY lower(a.alias)) AS aliases";
+
+/* Codecs a container format carries, and containers a codec appears in */
+const CODECS_SQL = `COALESCE((SELECT json_agg(json_build_object('id', c.id, 'name', c.name) ORDER BY c.name)
+    FROM format_relations r JOIN formats c ON c.id = r.codec_id
+   WHERE r.container_id = formats.id), '[]') AS codecs`;
+const CONTAINERS_SQL = `COALESCE((SELECT json_agg(json_build_object('id', c.id, 'name', c.name) ORDER BY c.name)
+    FROM format_relations r JOIN formats c ON c.id = r.container_id
+   WHERE r.codec_id = formats.id), '[]') AS containers`;
+
+/* Daily votes over the last two weeks, oldest first, for card sparklines */
+const SPARKLINE_SQL = `ARRAY(SELECT count(v.device_id)::int
+    FROM generate_series(date_trunc('day', now()) - interval '13 days', date_trunc('day', now()), interval '1 day') AS d(day)
+    LEFT JOIN votes v ON v.format_id = formats.id AND v.created_at >= d.day AND v.created_at < d.day + interval '1 day'
+   GROUP BY d.day ORDER BY d.day) AS sparkline`;
+
+/* Values used for RICE inputs an admin has not set; reach uses the votes */
+const PRIORITY_DEFAULTS = { impact: 1, confidence: 50, effort: 1 };
+
+/* RICE score: reach × impact × confidence% ÷ effort, to two decimals */
+const PRIORITY_EXPR = `round((COALESCE(reach, votes) * COALESCE(impact, ${PRIORITY_DEFAULTS.impact})
+    * COALESCE(confidence, ${PRIORITY_DEFAULTS.confidence}) / 100.0
+    / COALESCE(effort, ${PRIORITY_DEFAULTS.effort}))::numeric, 2)::float8`;
+const PRIORITY_SQL = `${PRIORITY_EXPR} AS priority`;
+
+/* Columns for read queries: the row itself plus derived fields */
+const FORMAT_READ_COLUMNS = `${FORMAT_COLUMNS}, ${PRIORITY_SQL}, ${COMMENT_COUNT_SQL}, ${ALIASES_SQL}, ${CODECS_SQL}, ${CONTAINERS_SQL}`;
+
+type FormatPage = {
+  items: Partial<FormatRow>[];
+  total: number;
+  nextCursor: string | null;
+};
+
+const MAX_COMMENT_LENGTH = 2000;
+
+type CommentRow = {
+  id: string;
+  format_id: string;
+  parent_id: string | null;
+  device_id: string;
+  author_name: string | null;
+  body: string;
+  hidden: boolean;
+  created_at: string;
+  edited_at: string | null;
+};
+
+const COMMENT_COLUMNS =
+  "id, format_id, parent_id, device_id, author_name, body, hidden, created_at, edited_at";
+
+/*
+ * What became of a public submission: pending while its format sits in the
+ * initial status, then approved, merged (into `merged_into`), rejected (with
+ * a `reason`) or deleted.
+ */
+type SubmissionDecision =
+  "pending" | "approved" | "merged" | "rejected" | "deleted";
+
+type SubmissionRow = {
+  id: string;
+  format_id: string | null;
+  board: string;
+  name: string;
+  kind: string;
+  status: string | null;
+  submitted_at: string;
+  decision: SubmissionDecision;
+  reason: string | null;
+  merged_into: { id: string; name: string } | null;
+  decided_at: string | null;
+};
+
+/* Card decks available to estimation sessions */
+const ESTIMATION_SCALES: Record<string, string[]> = {
+  fibonacci: ["0", "1", "2", "3", "5", "8", "13", "21", "?"],
+  tshirt: ["XS", "S", "M", "L", "XL", "?"],
+};
+
+type EstimationSessionRow = {
+  id: string;
+  title: string;
+  scale: string;
+  status: "open" | "closed";
+  current_format_id: string | null;
+  revealed: boolean;
+  created_at: string;
+  closed_at: string | null;
+};
+
+const SESSION_COLUMNS =
+  "id, title, scale, status, current_format_id, revealed, created_at, closed_at";
+
+/*
+ * A request board. `kinds` are the kinds formats on it may have; `statuses`
+ * are the lifecycle statuses it uses. Both are keys from the taxonomy.
+ */
+type BoardRow = {
+  id: string;
+  slug: string;
+  title: string;
+  kinds: string[];
+  statuses: string[];
+  created_at: string;
 };
 
+const BOARD_COLUMNS = "id, slug, title, kinds, statuses, created_at";
+
+type AdminRole = "owner" | "moderator";
+
+/* Higher rank includes every permission of the lower ones */
+const ROLE_RANK: Record<AdminRole, number> = { moderator: 1, owner: 2 };
+
+type AdminUser = {
+  id: string;
+  username: string;
+  role: AdminRole;
+  created_at: string;
+};
+
+const ADMIN_USER_COLUMNS = "id, username, role, created_at";
+
+function isAdminRole(value: unknown): value is AdminRole {
+  return value === "owner" || value === "moderator";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /* Set by `attachAdmin` when the request carries a valid session cookie */
+      admin?: AdminUser & { csrfToken: string; tokenHash: string };
+      /* Set by `loadBoard` / `loadFormatBoard` on board-scoped routes */
+      board?: BoardRow;
+      /* Whether `admin` may moderate `board` */
+      boardAdmin?: boolean;
+      /* Kinds and statuses, loaded along with `board` */
+      taxonomy?: Taxonomy;
+      /* Set by `requireDevice` from the request's signed device token */
+      deviceId?: string;
+    }
+  }
+}
+
 /* --- Config --- */
 const PORT = Number(process.env.PORT || 3000);
 const DATABASE_URL = process.env.DATABASE_URL;
-const ADMIN_KEY = process.env.ADMIN_KEY || "change-me";
+const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "";
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "";
+const CORS_ORIGIN = process.env.CORS_ORIGIN || "";
+// Public origin of the app, used for links in the changelog feeds
+const PUBLIC_URL = (process.env.PUBLIC_URL || "").replace(/\/+$/, "");
+// Outgoing mail for notifications: smtp://, smtps:// or log:// (optional)
+const SMTP_URL = process.env.SMTP_URL || "";
+const MAIL_FROM = process.env.MAIL_FROM || "format-poker@localhost";
 const NODE_ENV = process.env.NODE_ENV || "development";
+// Signs device tokens and submission challenges. Without it tokens are only
+// valid until the process restarts, and only on this instance.
+const DEVICE_TOKEN_SECRET =
+  process.env.DEVICE_TOKEN_SECRET || crypto.randomBytes(32).toString("hex");
+// Leading zero bits of proof of work a submission must carry (0 turns it off)
+const SUBMIT_POW_BITS = Math.min(
+  Math.max(Math.floor(Number(process.env.SUBMIT_POW_BITS) || 0), 0),
+  24,
+);
+// Express "trust proxy" setting (e.g. 1 behind one load balancer), so that
+// rate limits see the client address rather than the proxy's
+const TRUST_PROXY = process.env.TRUST_PROXY || "";
+// Webhooks may only reach public addresses unless this is "true"
+const WEBHOOK_ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === "true";
 
 if (!DATABASE_URL) {
   console.error("DATABASE_URL is not set. Exiting.");
   process.exit(1);
 }
+if (!process.env.DEVICE_TOKEN_SECRET) {
+  console.warn(
+    "DEVICE_TOKEN_SECRET is not set; device tokens will not survive a restart.",
+  );
+}
 
 /* --- Postgres pool --- */
 const pool = new Pool({
@@ -65,6 +389,12 @@ const pool = new Pool({
 
 /* --- App setup --- */
 const app = express();
+if (TRUST_PROXY) {
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY,
+  );
+}
 const serverDir =
   typeof __dirname !== "undefined"
     ? __dirname
@@ -79,375 +409,6715 @@ try {
   indexHtml = "";
 }
 
-app.use(cors()); // Consider locking origin in production
+// Credentials are required for the admin session cookie, so the allowed
+// origin must be explicit (or reflected) rather than "*".
+app.use(
+  cors({
+    origin: CORS_ORIGIN ? CORS_ORIGIN.split(",").map((o) => o.trim()) : true,
+    credentials: true,
+  }),
+);
 app.use(helmet());
+// Catalog imports may be larger than ordinary request bodies, and can be CSV
+const IMPORT_MAX_BODY = "5mb";
+app.use(
+  ["/api/admin/formats/import", "/api/boards/:board/admin/formats/import"],
+  express.json({ limit: IMPORT_MAX_BODY }),
+  express.text({ type: ["text/csv", "text/plain"], limit: IMPORT_MAX_BODY }),
+);
 app.use(express.json());
 app.use(morgan(NODE_ENV === "production" ? "combined" : "dev"));
 
 /* --- Helpers --- */
-function sendError(res: Response, status = 500, error = "server_error") {
-  return res.status(status).json({ error });
-}
-
-function extractAdminKey(req: Request): string | undefined {
-  const headerKey = req.get("x-admin-key");
-  const bodyKey = (req.body && (req.body as any).adminKey) || undefined;
-  const queryKey = (req.query && (req.query as any).adminKey) || undefined;
-  return headerKey || bodyKey || queryKey;
-}
-
-function isAdminRequest(req: Request): boolean {
-  const key = extractAdminKey(req);
-  return !!key && String(key) === ADMIN_KEY;
+function sendError(
+  res: Response,
+  status = 500,
+  error = "server_error",
+  details: Record<string, unknown> = {},
+) {
+  return res.status(status).json({ ...details, error });
 }
 
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!isAdminRequest(req)) {
-    return res.status(401).json({ error: "unauthorized" });
-  }
-  return next();
+/* The fields of a parsed JSON body; anything but an object has none */
+function bodyFields(body: unknown): Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : {};
 }
 
-/* --- Routes --- */
-
-/* --- Server Sent Events for live vote updates --- */
-const sseClients: Set<Response> = new Set();
-
-app.get("/api/live", (req: Request, res: Response) => {
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
-  res.flushHeaders();
-  res.write("\n");
-  sseClients.add(res);
-  req.on("close", () => {
-    sseClients.delete(res);
-  });
-});
+type Queryable = Pool | PoolClient;
 
-function broadcastVote(id: string, votes: number) {
-  const payload = `data: ${JSON.stringify({ id, votes })}\n\n`;
-  for (const client of Array.from(sseClients)) {
+/**
+ * Run `fn` on a dedicated client inside BEGIN/COMMIT, rolling back on error.
+ */
+async function withTransaction<T>(
+  fn: (client: PoolClient) => Promise<T>,
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
     try {
-      client.write(payload);
+      await client.query("ROLLBACK");
     } catch {
-      sseClients.delete(client);
+      // ignore rollback errors
     }
+    throw err;
+  } finally {
+    client.release();
   }
 }
 
-// Heartbeat to keep connections alive
-setInterval(() => {
-  for (const client of Array.from(sseClients)) {
-    try {
-      client.write(":ping\n\n");
-    } catch {
-      sseClients.delete(client);
-    }
-  }
-}, 30000);
-
-/**
- * GET /api/formats
- * Query params:
- *   - q: search string (substring on name, case-insensitive)
- *   - kind: exact kind
- *   - status: exact status
- *   - sort: votes-desc (default), votes-asc, name-asc, name-desc, newest
- */
-app.get("/api/formats", async (req: Request, res: Response) => {
-  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
-  const kind = typeof req.query.kind === "string" ? req.query.kind.trim() : "";
-  const status =
-    typeof req.query.status === "string" ? req.query.status.trim() : "";
-  const sort =
-    typeof req.query.sort === "string"
-      ? req.query.sort.trim().toLowerCase()
-      : "votes-desc";
+/* --- Admin auth --- */
+const ADMIN_COOKIE = "fp_admin";
+const ADMIN_SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12h
+const MIN_PASSWORD_LENGTH = 10;
 
-  const whereClauses: string[] = [];
-  const values: unknown[] = [];
-  let idx = 1;
-  const isAdmin = isAdminRequest(req);
+function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, 64, (err, key) => {
+      if (err) return reject(err);
+      resolve(`scrypt:${salt.toString("hex")}:${key.toString("hex")}`);
+    });
+  });
+}
 
-  if (q) {
-    whereClauses.push(`LOWER(name) LIKE $${idx++}`);
-    values.push(`%${q.toLowerCase()}%`);
-  }
-  if (kind) {
-    whereClauses.push(`kind = $${idx++}`);
-    values.push(kind);
-  }
-  if (status) {
-    whereClauses.push(`status = $${idx++}`);
-    values.push(status);
-  }
-  if (!isAdmin) {
-    whereClauses.push(`status <> $${idx++}`);
-    values.push(STATUS_IN_REVIEW);
-  }
+function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return Promise.resolve(false);
+  const expected = Buffer.from(keyHex, "hex");
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      Buffer.from(saltHex, "hex"),
+      expected.length,
+      (err, key) => {
+        if (err) return reject(err);
+        resolve(crypto.timingSafeEqual(key, expected));
+      },
+    );
+  });
+}
 
-  const whereSql = whereClauses.length
-    ? `WHERE ${whereClauses.join(" AND ")}`
-    : "";
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
 
-  let orderSql = "ORDER BY votes DESC, created_at DESC";
-  switch (sort) {
-    case "votes-asc":
-      orderSql = "ORDER BY votes ASC, created_at DESC";
-      break;
-    case "name-asc":
-      orderSql = "ORDER BY name ASC";
-      break;
-    case "name-desc":
-      orderSql = "ORDER BY name DESC";
-      break;
-    case "newest":
-      orderSql = "ORDER BY created_at DESC";
-      break;
-    case "votes-desc":
-    default:
-      orderSql = "ORDER BY votes DESC, created_at DESC";
-      break;
-  }
-
-  const sql = `SELECT id, name, kind, status, created_at, votes FROM formats ${whereSql} ${orderSql};`;
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
 
-  try {
-    const { rows } = await pool.query<FormatRow>(sql, values);
-    return res.json(rows);
-  } catch (err) {
-    console.error("GET /api/formats error:", err);
-    return sendError(res, 500, "db_error");
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [k, ...rest] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(rest.join("="));
   }
-});
+  return undefined;
+}
+
+function setAdminCookie(res: Response, token: string, maxAgeMs: number) {
+  res.cookie(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: NODE_ENV === "production",
+    path: "/",
+    maxAge: maxAgeMs,
+  });
+}
 
 /**
- * POST /api/formats/submit
- * Allows non-admin users to submit a format for review. Always stores as "In Review".
+ * Resolve the admin session cookie (if any) into `req.admin`. Never rejects a
+ * request on its own; `requireAdmin` / `requireRole` decide what is allowed.
  */
-app.post("/api/formats/submit", async (req: Request, res: Response) => {
-  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
-  const kind = typeof req.body?.kind === "string" ? req.body.kind.trim() : "";
-  if (!name || !kind) return sendError(res, 400, "missing_fields");
-
+async function attachAdmin(req: Request, _res: Response, next: NextFunction) {
+  const token = readCookie(req, ADMIN_COOKIE);
+  if (!token) return next();
   try {
-    const { rows } = await pool.query<FormatRow>(
-      "INSERT INTO formats (name, kind, status) VALUES ($1, $2, $3) RETURNING id, name, kind, status, created_at, votes",
-      [name, kind, STATUS_IN_REVIEW],
+    const tokenHash = sha256(token);
+    const { rows } = await pool.query<AdminUser & { csrf_token: string }>(
+      `SELECT u.id, u.username, u.role, u.created_at, s.csrf_token
+         FROM admin_sessions s
+         JOIN admin_users u ON u.id = s.user_id
+        WHERE s.token_hash = $1 AND s.expires_at > now()`,
+      [tokenHash],
     );
-    return res.status(201).json(rows[0]);
-  } catch (err: any) {
-    console.error("POST /api/formats/submit error:", err);
-    if (err?.code === "23505") {
-      return sendError(res, 409, "duplicate_name");
+    if (rows[0]) {
+      const { csrf_token, ...user } = rows[0];
+      req.admin = { ...user, csrfToken: csrf_token, tokenHash };
     }
-    return sendError(res, 500, "db_error");
+  } catch (err) {
+    console.error("attachAdmin error:", err);
   }
-});
+  return next();
+}
 
-/**
- * POST /api/admin/verify (admin)
- * Allows the client to validate an admin key without performing any action.
- */
-app.post("/api/admin/verify", requireAdmin, (_req: Request, res: Response) => {
-  return res.json({ ok: true });
-});
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
 
 /**
- * GET /api/formats/:id
+ * Build middleware that requires a signed-in admin with at least `role`.
+ * Mutating requests must also echo the session's CSRF token in x-csrf-token.
  */
-app.get("/api/formats/:id", async (req: Request, res: Response) => {
-  const id = req.params.id;
+function requireRole(role: AdminRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const admin = req.admin;
+    if (!admin) return sendError(res, 401, "unauthorized");
+    if (!SAFE_METHODS.has(req.method)) {
+      const csrf = req.get("x-csrf-token") || "";
+      if (!safeEqual(csrf, admin.csrfToken)) {
+        return sendError(res, 403, "invalid_csrf");
+      }
+    }
+    if (ROLE_RANK[admin.role] < ROLE_RANK[role]) {
+      return sendError(res, 403, "forbidden");
+    }
+    return next();
+  };
+}
+
+const requireAdmin = requireRole("moderator");
+const requireOwner = requireRole("owner");
+
+/* Create the bootstrap owner from ADMIN_USERNAME / ADMIN_PASSWORD if needed */
+async function ensureBootstrapAdmin() {
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
   try {
-    const { rows } = await pool.query<FormatRow>(
-      "SELECT id, name, kind, status, created_at, votes FROM formats WHERE id = $1",
-      [id],
+    const { rows } = await pool.query<{ count: string }>(
+      "SELECT count(*) AS count FROM admin_users",
     );
-    if (!rows || rows.length === 0) return sendError(res, 404, "not_found");
-    return res.json(rows[0]);
+    if (Number(rows[0]?.count || 0) > 0) return;
+    await pool.query(
+      "INSERT INTO admin_users (username, password_hash, role) VALUES ($1, $2, 'owner')",
+      [ADMIN_USERNAME, await hashPassword(ADMIN_PASSWORD)],
+    );
+    console.log(`Created bootstrap owner account "${ADMIN_USERNAME}".`);
   } catch (err) {
-    console.error("GET /api/formats/:id error:", err);
-    return sendError(res, 500, "db_error");
+    console.error("Failed to create bootstrap admin:", err);
   }
-});
+}
 
-/**
- * POST /api/formats (admin)
+app.use("/api", attachAdmin);
+
+/* --- Abuse protection --- */
+
+/*
+ * Fixed-window limits per client address, per device and per account.
+ * `device` limits only apply on routes behind `requireDevice`, `account`
+ * limits to the (lower-cased) `username` in the body.
  */
-app.post("/api/formats", requireAdmin, async (req: Request, res: Response) => {
-  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
-  const kind = typeof req.body?.kind === "string" ? req.body.kind.trim() : "";
-  const status =
-    typeof req.body?.status === "string" ? req.body.status.trim() : "";
+type RateLimit = { max: number; windowS: number };
+
+const RATE_LIMITS: Record<
+  "device" | "vote" | "submit" | "login",
+  { ip: RateLimit; device?: RateLimit; account?: RateLimit }
+> = {
+  device: { ip: { max: 10, windowS: 60 * 60 } },
+  login: {
+    ip: { max: 30, windowS: 15 * 60 },
+    account: { max: 10, windowS: 15 * 60 },
+  },
+  vote: {
+    ip: { max: 120, windowS: 60 },
+    device: { max: 30, windowS: 60 },
+  },
+  submit: {
+    ip: { max: 10, windowS: 60 * 60 },
+    device: { max: 5, windowS: 60 * 60 },
+  },
+};
 
-  if (!name || !kind || !status) return sendError(res, 400, "missing_fields");
+/* Submission challenges expire after this */
+const POW_TTL_S = 10 * 60;
+/* Hidden form field only bots fill in */
+const HONEYPOT_FIELD = "website";
 
-  try {
-    const { rows } = await pool.query<FormatRow>(
-      "INSERT INTO formats (name, kind, status) VALUES ($1, $2, $3) RETURNING id, name, kind, status, created_at, votes",
-      [name, kind, status],
-    );
-    return res.status(201).json(rows[0]);
-  } catch (err) {
-    console.error("POST /api/formats error:", err);
-    return sendError(res, 500, "db_error");
-  }
-});
+/* Vote bursts: windows of BURST_WINDOW_S with at least BURST_MIN_VOTES votes */
+const BURST_WINDOW_S = 10 * 60;
+const BURST_MIN_VOTES = 10;
+const MAX_BURST_DAYS = 30;
 
-/**
- * PUT /api/formats/:id/status (admin)
+/*
+ * Votes one format received in one burst window. `ips` counts distinct
+ * addresses among the votes that recorded one (`unknown_ips` did not);
+ * `new_devices` voted within an hour of being issued.
  */
-app.put(
-  "/api/formats/:id/status",
-  requireAdmin,
-  async (req: Request, res: Response) => {
-    const id = req.params.id;
-    const status =
-      typeof req.body?.status === "string" ? req.body.status.trim() : "";
-    if (!status) return sendError(res, 400, "missing_status");
+type VoteBurstRow = {
+  format_id: string;
+  name: string;
+  window_start: string;
+  votes: number;
+  ips: number;
+  unknown_ips: number;
+  new_devices: number;
+};
 
-    try {
-      const { rows } = await pool.query<FormatRow>(
-        "UPDATE formats SET status = $1 WHERE id = $2 RETURNING id, name, kind, status, created_at, votes",
-        [status, id],
-      );
-      if (!rows || rows.length === 0) return sendError(res, 404, "not_found");
-      return res.json(rows[0]);
-    } catch (err) {
-      console.error("PUT /api/formats/:id/status error:", err);
-      return sendError(res, 500, "db_error");
-    }
-  },
-);
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function signDeviceValue(value: string): string {
+  return crypto
+    .createHmac("sha256", DEVICE_TOKEN_SECRET)
+    .update(value)
+    .digest("base64url");
+}
+
+/* `<deviceId>.<signature>`; the client sends it back on votes and submissions */
+function deviceToken(deviceId: string): string {
+  return `${deviceId}.${signDeviceValue(`device:${deviceId}`)}`;
+}
+
+/* The device ID a token claims, unverified */
+function tokenDeviceId(token: unknown): string | null {
+  if (typeof token !== "string") return null;
+  const dot = token.lastIndexOf(".");
+  return dot > 0 ? token.slice(0, dot) : null;
+}
+
+/* The device ID of a valid token, or null */
+function verifyDeviceToken(token: unknown): string | null {
+  const deviceId = tokenDeviceId(token);
+  if (!deviceId || !UUID_RE.test(deviceId)) return null;
+  return safeEqual(token as string, deviceToken(deviceId)) ? deviceId : null;
+}
+
+/* `deviceToken` in the body, or the X-Device-Token header (GETs have no body) */
+function requestDeviceToken(req: Request): unknown {
+  return req.body?.deviceToken ?? req.get("x-device-token");
+}
 
 /**
- * DELETE /api/formats/:id (admin)
+ * Count one hit against `key` in the current window of `limit`. Returns the
+ * seconds until the window resets when the limit is exceeded, else null.
  */
-app.delete(
-  "/api/formats/:id",
-  requireAdmin,
-  async (req: Request, res: Response) => {
-    const id = req.params.id;
+async function hitRateLimit(
+  key: string,
+  limit: RateLimit,
+): Promise<number | null> {
+  const { rows } = await pool.query<{ hits: number; reset_s: number }>(
+    `INSERT INTO rate_limit_hits (key, window_start, hits)
+     VALUES ($1, to_timestamp(floor(extract(epoch FROM now()) / $2::int) * $2::int), 1)
+     ON CONFLICT (key, window_start)
+     DO UPDATE SET hits = rate_limit_hits.hits + 1
+     RETURNING hits,
+               ceil(extract(epoch FROM window_start + make_interval(secs => $2::int) - now()))::int AS reset_s`,
+    [key, limit.windowS],
+  );
+  return rows[0].hits > limit.max ? Math.max(rows[0].reset_s, 1) : null;
+}
+
+/**
+ * Build middleware enforcing the `scope` limits for the client address, the
+ * device (after `requireDevice`) and the account named in the body. Over the
+ * limit it answers 429 `rate_limited` with a Retry-After header.
+ */
+function rateLimit(scope: keyof typeof RATE_LIMITS) {
+  const limits = RATE_LIMITS[scope];
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      await pool.query("DELETE FROM votes WHERE format_id = $1", [id]);
-      await pool.query("DELETE FROM formats WHERE id = $1", [id]);
-      return res.json({ ok: true });
+      let retryAfter = await hitRateLimit(`${scope}:ip:${req.ip}`, limits.ip);
+      if (retryAfter === null && limits.device && req.deviceId) {
+        retryAfter = await hitRateLimit(
+          `${scope}:device:${req.deviceId}`,
+          limits.device,
+        );
+      }
+      const username =
+        typeof req.body?.username === "string"
+          ? req.body.username.trim().toLowerCase()
+          : "";
+      if (retryAfter === null && limits.account && username) {
+        retryAfter = await hitRateLimit(
+          `${scope}:account:${username}`,
+          limits.account,
+        );
+      }
+      if (retryAfter !== null) {
+        res.set("Retry-After", String(retryAfter));
+        return sendError(res, 429, "rate_limited", { retryAfter });
+      }
     } catch (err) {
-      console.error("DELETE /api/formats/:id error:", err);
-      return sendError(res, 500, "db_error");
+      // A broken counter should not take voting down with it
+      console.error("rateLimit error:", err);
     }
-  },
-);
+    return next();
+  };
+}
 
 /**
- * GET /api/votes/:deviceId
- * Returns an array of format IDs that the given device has voted for.
+ * Resolve the request's device token (see requestDeviceToken) into
+ * `req.deviceId`: 400 `invalid_device_id` when it names no UUID, 401
+ * `invalid_device_token` when it is missing or forged, 403 `device_blocked`
+ * for devices a moderator blocked. Blocked devices may still read.
  */
-app.get("/api/votes/:deviceId", async (req: Request, res: Response) => {
-  const deviceId = req.params.deviceId;
-  if (!deviceId) return sendError(res, 400, "missing_deviceId");
+async function requireDevice(req: Request, res: Response, next: NextFunction) {
+  const token = requestDeviceToken(req);
+  const claimed = tokenDeviceId(token);
+  if (claimed && !UUID_RE.test(claimed)) {
+    return sendError(res, 400, "invalid_device_id");
+  }
+  const deviceId = verifyDeviceToken(token);
+  if (!deviceId) return sendError(res, 401, "invalid_device_token");
+  if (SAFE_METHODS.has(req.method)) {
+    req.deviceId = deviceId;
+    return next();
+  }
   try {
-    const { rows } = await pool.query<{ format_id: string }>(
-      "SELECT format_id FROM votes WHERE device_id = $1",
+    const { rows } = await pool.query<{ blocked: boolean }>(
+      "SELECT blocked_at IS NOT NULL AS blocked FROM devices WHERE id = $1",
       [deviceId],
     );
-    return res.json(rows.map((r) => r.format_id));
+    if (rows[0]?.blocked) return sendError(res, 403, "device_blocked");
   } catch (err) {
-    console.error("GET /api/votes/:deviceId error:", err);
+    console.error("requireDevice error:", err);
     return sendError(res, 500, "db_error");
   }
-});
+  req.deviceId = deviceId;
+  return next();
+}
+
+/* Sets `req.deviceId` when the request has a valid device token; never rejects */
+function attachDevice(req: Request, _res: Response, next: NextFunction) {
+  req.deviceId = verifyDeviceToken(requestDeviceToken(req)) ?? undefined;
+  return next();
+}
+
+/* A signed, expiring challenge for the submission proof of work */
+function powChallenge(): string {
+  const value = `${Math.floor(Date.now() / 1000) + POW_TTL_S}.${SUBMIT_POW_BITS}.${crypto.randomBytes(12).toString("base64url")}`;
+  return `${value}.${signDeviceValue(`pow:${value}`)}`;
+}
+
+function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
 
 /**
- * POST /api/formats/:id/vote
- * body: { deviceId: string }
- * toggles vote (insert/delete) and returns { voted, votes }
+ * Check a submission's `pow: { challenge, nonce }` when SUBMIT_POW_BITS is
+ * set: the challenge must be ours, unexpired and unused, and
+ * sha256("<challenge>:<nonce>") must start with enough zero bits.
  */
-app.post("/api/formats/:id/vote", async (req: Request, res: Response) => {
-  const id = req.params.id;
-  const deviceId =
-    typeof req.body?.deviceId === "string" ? req.body.deviceId : undefined;
-  if (!deviceId) return sendError(res, 400, "missing_deviceId");
+async function verifyProofOfWork(pow: unknown): Promise<boolean> {
+  if (SUBMIT_POW_BITS === 0) return true;
+  const fields = bodyFields(pow);
+  const challenge =
+    typeof fields.challenge === "string" ? fields.challenge : "";
+  const nonce = typeof fields.nonce === "string" ? fields.nonce : "";
+  const parts = challenge.split(".");
+  if (parts.length !== 4 || !nonce || nonce.length > 64) return false;
+  const value = parts.slice(0, 3).join(".");
+  if (!safeEqual(parts[3], signDeviceValue(`pow:${value}`))) return false;
+  if (Number(parts[0]) < Date.now() / 1000) return false;
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${challenge}:${nonce}`)
+    .digest();
+  if (leadingZeroBits(hash) < Number(parts[1])) return false;
+  // Each challenge pays for one submission
+  const reused = await hitRateLimit(`pow:${parts[2]}`, {
+    max: 1,
+    windowS: 24 * 60 * 60,
+  });
+  return reused === null;
+}
 
-  let client: PoolClient | undefined;
+async function pruneRateLimits() {
   try {
-    client = await pool.connect();
-    await client.query("BEGIN");
-
-    const existsRes = await client.query(
-      "SELECT 1 FROM votes WHERE device_id = $1 AND format_id = $2",
-      [deviceId, id],
+    await pool.query(
+      "DELETE FROM rate_limit_hits WHERE window_start < now() - interval '1 day'",
     );
+  } catch (err) {
+    console.error("Rate limit prune error:", err);
+  }
+}
 
-    let voted: boolean;
-    if (existsRes.rowCount === 0) {
-      await client.query(
-        "INSERT INTO votes (device_id, format_id) VALUES ($1, $2)",
-        [deviceId, id],
-      );
-      await client.query("UPDATE formats SET votes = votes + 1 WHERE id = $1", [
-        id,
-      ]);
-      voted = true;
-    } else {
-      await client.query(
-        "DELETE FROM votes WHERE device_id = $1 AND format_id = $2",
-        [deviceId, id],
-      );
-      await client.query(
-        "UPDATE formats SET votes = GREATEST(votes - 1, 0) WHERE id = $1",
-        [id],
-      );
-      voted = false;
+/* --- Taxonomy --- */
+const MAX_TAXONOMY_KEY_LENGTH = 40;
+const MAX_TAXONOMY_LABEL_LENGTH = 60;
+const TAXONOMY_COLOR_RE = /^#[0-9a-f]{6}$/;
+
+/* Every kind and status, in display order */
+async function loadTaxonomy(db: Queryable = pool): Promise<Taxonomy> {
+  const kinds = await db.query<KindRow>(
+    `SELECT ${KIND_COLUMNS} FROM kinds ORDER BY position, key`,
+  );
+  const statuses = await db.query<StatusRow>(
+    `SELECT ${STATUS_COLUMNS} FROM statuses ORDER BY position, key`,
+  );
+  return { kinds: kinds.rows, statuses: statuses.rows };
+}
+
+/* Kinds and statuses whose formats only board admins see */
+function hiddenKeys(taxonomy: Taxonomy): {
+  kinds: string[];
+  statuses: string[];
+} {
+  return {
+    kinds: taxonomy.kinds.filter((k) => !k.visible).map((k) => k.key),
+    statuses: taxonomy.statuses.filter((s) => !s.visible).map((s) => s.key),
+  };
+}
+
+function isPublicFormat(
+  taxonomy: Taxonomy,
+  row: Pick<FormatRow, "kind" | "status">,
+): boolean {
+  const hidden = hiddenKeys(taxonomy);
+  return (
+    !hidden.kinds.includes(row.kind) && !hidden.statuses.includes(row.status)
+  );
+}
+
+function isVotable(
+  taxonomy: Taxonomy,
+  row: Pick<FormatRow, "kind" | "status">,
+): boolean {
+  return (
+    !!taxonomy.kinds.find((k) => k.key === row.kind)?.voting_open &&
+    !!taxonomy.statuses.find((s) => s.key === row.status)?.voting_open
+  );
+}
+
+/* Sets `req.taxonomy` on routes that are not board-scoped */
+async function attachTaxonomy(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.taxonomy = await loadTaxonomy();
+    return next();
+  } catch (err) {
+    console.error("attachTaxonomy error:", err);
+    return sendError(res, 500, "db_error");
+  }
+}
+
+/* Status public submissions land in */
+function initialStatus(taxonomy: Taxonomy): string | undefined {
+  return taxonomy.statuses.find((s) => s.initial)?.key;
+}
+
+/* --- Boards --- */
+/* Board served by the unscoped /api routes and the SPA root */
+const DEFAULT_BOARD_SLUG = "default";
+const BOARD_SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{0,38}[a-z0-9])?$/;
+const MAX_BOARD_TITLE_LENGTH = 120;
+
+/**
+ * Paths of a board-scoped route: the legacy /api path, which serves the
+ * default board (or, on /formats/:id routes, the format's own board), and the
+ * same path under /api/boards/:board.
+ */
+function boardPaths(path: string): string[] {
+  return [`/api${path}`, `/api/boards/:board${path}`];
+}
+
+/* API prefix the request came in on, for links that should stay on it */
+function boardApiBase(req: Request): string {
+  return req.params.board
+    ? `/api/boards/${encodeURIComponent(req.params.board)}`
+    : "/api";
+}
+
+/* Owners moderate every board; moderators only those they are assigned to */
+async function isBoardAdmin(
+  db: Queryable,
+  admin: Request["admin"],
+  boardId: string,
+): Promise<boolean> {
+  if (!admin) return false;
+  if (admin.role === "owner") return true;
+  const { rowCount } = await db.query(
+    "SELECT 1 FROM board_admins WHERE board_id = $1 AND user_id = $2",
+    [boardId, admin.id],
+  );
+  return !!rowCount;
+}
+
+/* isBoardAdmin for the board format `formatId` is on */
+async function isFormatAdmin(
+  db: Queryable,
+  admin: Request["admin"],
+  formatId: string,
+): Promise<boolean> {
+  if (!admin) return false;
+  if (admin.role === "owner") return true;
+  const { rowCount } = await db.query(
+    `SELECT 1 FROM board_admins a JOIN formats f ON f.board_id = a.board_id
+      WHERE f.id = $1 AND a.user_id = $2`,
+    [formatId, admin.id],
+  );
+  return !!rowCount;
+}
+
+/* Slugs of the boards an admin account is assigned to */
+async function adminBoardSlugs(userId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ slug: string }>(
+    `SELECT b.slug FROM board_admins a JOIN boards b ON b.id = a.board_id
+      WHERE a.user_id = $1 ORDER BY b.slug`,
+    [userId],
+  );
+  return rows.map((r) => r.slug);
+}
+
+async function setBoard(req: Request, board: BoardRow) {
+  req.board = board;
+  req.boardAdmin = await isBoardAdmin(pool, req.admin, board.id);
+  req.taxonomy = await loadTaxonomy();
+}
+
+/**
+ * Resolve `:board` (the default board when absent) into `req.board`,
+ * `req.boardAdmin` and `req.taxonomy`. Unknown slugs are a 404
+ * `board_not_found`.
+ */
+async function loadBoard(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { rows } = await pool.query<BoardRow>(
+      `SELECT ${BOARD_COLUMNS} FROM boards WHERE slug = $1`,
+      [req.params.board ?? DEFAULT_BOARD_SLUG],
+    );
+    if (!rows[0]) return sendError(res, 404, "board_not_found");
+    await setBoard(req, rows[0]);
+    return next();
+  } catch (err) {
+    console.error("loadBoard error:", err);
+    return sendError(res, 500, "db_error");
+  }
+}
+
+/**
+ * loadBoard for /formats/:id routes. The board is the format's own, so the
+ * legacy path reaches formats on any board, while /api/boards/:board answers
+ * 404 for formats of other boards. Unknown IDs fall back to loadBoard so the
+ * route can still redirect or answer its own 404.
+ */
+async function loadFormatBoard(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { rows } = await pool.query<BoardRow>(
+      `SELECT ${BOARD_COLUMNS} FROM boards
+        WHERE id = (SELECT board_id FROM formats WHERE id = $1)`,
+      [req.params.id],
+    );
+    if (!rows[0]) return loadBoard(req, res, next);
+    if (req.params.board !== undefined && req.params.board !== rows[0].slug) {
+      return sendError(res, 404, "not_found");
+    }
+    await setBoard(req, rows[0]);
+    return next();
+  } catch (err: any) {
+    if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+    console.error("loadFormatBoard error:", err);
+    return sendError(res, 500, "db_error");
+  }
+}
+
+/**
+ * Whether the caller may see format `id`: public formats for everyone, hidden
+ * ones (e.g. submissions in review) only for admins of `req.board`. Runs after
+ * loadFormatBoard; unknown IDs are false.
+ */
+async function canSeeFormat(req: Request, id: string): Promise<boolean> {
+  const { rows } = await pool.query<Pick<FormatRow, "kind" | "status">>(
+    "SELECT kind, status FROM formats WHERE id = $1",
+    [id],
+  );
+  return (
+    !!rows[0] && (!!req.boardAdmin || isPublicFormat(req.taxonomy!, rows[0]))
+  );
+}
+
+/**
+ * requireAdmin, limited to admins of `req.board`. Runs after loadBoard or
+ * loadFormatBoard.
+ */
+function requireBoardAdmin(req: Request, res: Response, next: NextFunction) {
+  return requireAdmin(req, res, () =>
+    req.boardAdmin ? next() : sendError(res, 403, "forbidden"),
+  );
+}
+
+/* Moves allowed from `from` on `board`: the lifecycle, limited to its statuses */
+function allowedTransitions(
+  taxonomy: Taxonomy,
+  board: BoardRow,
+  from: string,
+): string[] {
+  const status = taxonomy.statuses.find((s) => s.key === from);
+  return (status?.transitions || []).filter((s) => board.statuses.includes(s));
+}
+
+type BoardInput = Partial<
+  Pick<BoardRow, "slug" | "title" | "kinds" | "statuses">
+> & { adminIds?: string[] };
+
+/**
+ * Validate a board create/update body. Like parseMetadata, only fields that
+ * are present are returned. Kinds and statuses must come from the taxonomy,
+ * and statuses must include the initial one, where public submissions land.
+ */
+function parseBoardInput(
+  body: unknown,
+  taxonomy: Taxonomy,
+): { board: BoardInput } | { error: MetadataError } {
+  const fields = bodyFields(body);
+  const board: BoardInput = {};
+  if (fields.slug !== undefined) {
+    if (typeof fields.slug !== "string" || !BOARD_SLUG_RE.test(fields.slug)) {
+      return { error: { field: "slug", value: fields.slug } };
+    }
+    board.slug = fields.slug;
+  }
+  if (fields.title !== undefined) {
+    const title = typeof fields.title === "string" ? fields.title.trim() : "";
+    if (!title || title.length > MAX_BOARD_TITLE_LENGTH) {
+      return { error: { field: "title", value: fields.title } };
+    }
+    board.title = title;
+  }
+  const lists: ["kinds" | "statuses" | "adminIds", (v: string) => boolean][] = [
+    ["kinds", (v) => taxonomy.kinds.some((k) => k.key === v)],
+    ["statuses", (v) => taxonomy.statuses.some((s) => s.key === v)],
+    ["adminIds", () => true],
+  ];
+  for (const [field, accept] of lists) {
+    const raw = fields[field];
+    if (raw === undefined) continue;
+    if (!Array.isArray(raw)) return { error: { field, value: raw } };
+    const values: string[] = [];
+    for (const value of raw) {
+      const clean = typeof value === "string" ? value.trim() : "";
+      if (!clean || !accept(clean)) return { error: { field, value } };
+      if (!values.includes(clean)) values.push(clean);
+    }
+    if (field !== "adminIds" && values.length === 0) {
+      return { error: { field, value: raw } };
+    }
+    board[field] = values;
+  }
+  const initial = initialStatus(taxonomy);
+  if (board.statuses && (!initial || !board.statuses.includes(initial))) {
+    return { error: { field: "statuses", value: fields.statuses } };
+  }
+  return { board };
+}
+
+/* --- Audit log --- */
+type AuditEntry = {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+type AuditRow = {
+  id: string;
+  actor_id: string | null;
+  actor_username: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: unknown;
+  after: unknown;
+  created_at: string;
+};
+
+/**
+ * Append an audit entry for an admin mutation. Pass the transaction client so
+ * the entry commits (or rolls back) together with the change it describes.
+ */
+async function writeAudit(db: Queryable, req: Request, entry: AuditEntry) {
+  await db.query(
+    `INSERT INTO audit_log (actor_id, actor_username, action, entity_type, entity_id, before, after)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      req.admin?.id ?? null,
+      req.admin?.username ?? "system",
+      entry.action,
+      entry.entityType,
+      entry.entityId ?? null,
+      entry.before === undefined ? null : JSON.stringify(entry.before),
+      entry.after === undefined ? null : JSON.stringify(entry.after),
+    ],
+  );
+}
+
+/* --- Status lifecycle --- */
+
+/**
+ * Append a status history entry. `from` is null for the status a format is
+ * created with; later moves also notify the format's subscribers.
+ */
+async function recordStatusChange(
+  db: Queryable,
+  formatId: string,
+  from: string | null,
+  to: string,
+  changedBy: string,
+) {
+  await db.query(
+    "INSERT INTO format_status_history (format_id, from_status, to_status, changed_by) VALUES ($1, $2, $3, $4)",
+    [formatId, from, to, changedBy],
+  );
+  if (from !== null) await notifySubscribers(db, formatId, from, to);
+}
+
+/* --- Moderation --- */
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Statuses a moderator can send a submission to on `board`: the visible moves
+ * out of the initial status approve it, the first hidden one rejects it.
+ */
+function moderationTargets(
+  taxonomy: Taxonomy,
+  board: BoardRow,
+): { approve: string[]; reject: string | null } {
+  const from = initialStatus(taxonomy);
+  const hidden = hiddenKeys(taxonomy).statuses;
+  const allowed = from ? allowedTransitions(taxonomy, board, from) : [];
+  return {
+    approve: allowed.filter((s) => !hidden.includes(s)),
+    reject: allowed.find((s) => hidden.includes(s)) ?? null,
+  };
+}
+
+/* Optional moderation reason; undefined when it is not a short string */
+function parseReason(body: unknown): string | null | undefined {
+  const raw = bodyFields(body).reason;
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== "string") return undefined;
+  const reason = raw.trim();
+  if (reason.length > MAX_REASON_LENGTH) return undefined;
+  return reason || null;
+}
+
+/* Record the fate of the submissions behind `formatIds` */
+async function decideSubmission(
+  db: Queryable,
+  formatIds: string[],
+  decision: SubmissionDecision,
+  decidedBy: string,
+  details: { reason?: string | null; mergedInto?: string } = {},
+) {
+  await db.query(
+    `UPDATE format_submissions
+        SET decision = $2, reason = $3, merged_into = $4,
+            decided_by = $5, decided_at = now()
+      WHERE format_id = ANY($1::uuid[])`,
+    [
+      formatIds,
+      decision,
+      details.reason ?? null,
+      details.mergedInto ?? null,
+      decidedBy,
+    ],
+  );
+}
+
+/**
+ * Move a format locked by the caller from `before.status` to `status`:
+ * updates the row, records the history entry, audits it as `audit.action`
+ * and queues the status webhooks. Entering the initial status reopens the
+ * submission; a move that publishes or hides the format approves or rejects
+ * it. Returns the updated row.
+ */
+async function changeStatus(
+  client: PoolClient,
+  req: Request,
+  before: FormatRow,
+  status: string,
+  audit: { action: string; reason?: string | null },
+): Promise<FormatRow> {
+  const taxonomy = req.taxonomy!;
+  const from = before.status;
+  const { rows } = await client.query<FormatRow>(
+    `UPDATE formats SET status = $1 WHERE id = $2 RETURNING ${FORMAT_COLUMNS}`,
+    [status, before.id],
+  );
+  await recordStatusChange(
+    client,
+    before.id,
+    from,
+    status,
+    req.admin!.username,
+  );
+
+  const initial = initialStatus(taxonomy);
+  const hidden = hiddenKeys(taxonomy).statuses;
+  const wasHidden = hidden.includes(from);
+  const isHidden = hidden.includes(status);
+  const reason = audit.reason ?? null;
+  if (status === initial || from === initial || wasHidden !== isHidden) {
+    await decideSubmission(
+      client,
+      [before.id],
+      status === initial ? "pending" : isHidden ? "rejected" : "approved",
+      req.admin!.username,
+      { reason },
+    );
+  }
+
+  await writeAudit(client, req, {
+    action: audit.action,
+    entityType: "format",
+    entityId: before.id,
+    before,
+    after: reason ? { ...rows[0], reason } : rows[0],
+  });
+  await enqueueWebhookEvent(client, "format.status_changed", {
+    format: rows[0],
+    from,
+    to: status,
+  });
+  // Approval: a hidden (submitted or rejected) format becomes public
+  if (wasHidden && !isHidden) {
+    await enqueueWebhookEvent(client, "format.approved", { format: rows[0] });
+  }
+  if (from === initial && isHidden) {
+    await enqueueWebhookEvent(client, "format.rejected", {
+      format: rows[0],
+      reason,
+    });
+  }
+  return rows[0];
+}
+
+/* --- Aliases --- */
+
+/**
+ * Return the id of the format on `boardId` that already uses `name` as an
+ * alias, if any. Names and aliases are both unique per board, each by its own
+ * index, so neither index catches a name that is another format's alias.
+ */
+async function findAliasOwner(
+  db: Queryable,
+  name: string,
+  boardId: string,
+): Promise<string | null> {
+  const { rows } = await db.query<{ format_id: string }>(
+    "SELECT format_id FROM format_aliases WHERE lower(alias) = lower($1) AND board_id = $2",
+    [name, boardId],
+  );
+  return rows[0]?.format_id ?? null;
+}
+
+/* --- Search --- */
+/* Formats scoring below this are not considered a match for `q` */
+const SEARCH_MIN_RELEVANCE = 0.3;
+
+/* Lowercase and drop everything but letters and digits: "H.265/HEVC" -> "h265hevc" */
+function normalizeSearch(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/* Score one normalized key against one normalized query term, 0..1 */
+const searchRankSql = (key: string, term: string) =>
+  `CASE WHEN ${key} = ${term} THEN 1.0
+        WHEN ${key} LIKE ${term} || '%' THEN 0.9
+        WHEN strpos(${key}, ${term}) > 0 THEN 0.7
+        ELSE word_similarity(${term}, ${key})::float8 * 0.8 END`;
+
+/**
+ * Lateral subquery exposing `search.relevance` for the current format row.
+ * Keys are the name, aliases, MIME types and extensions, each both
+ * normalized whole and split into words. The score is the best of the whole
+ * query against any key and the average best score of each query word, so
+ * "jpegxl", "h265", "hevc" and "flak" all find their formats.
+ */
+const searchLateralSql = (queryParam: number, wordsParam: number) => `
+  CROSS JOIN LATERAL (
+    WITH keys AS (
+      SELECT DISTINCT x.k
+        FROM unnest(
+               ARRAY[formats.name]
+               || ARRAY(SELECT a.alias FROM format_aliases a WHERE a.format_id = formats.id)
+               || formats.mime_types
+               || formats.extensions
+             ) AS t(term)
+        CROSS JOIN LATERAL (
+          SELECT regexp_replace(lower(t.term), '[^a-z0-9]+', '', 'g')
+          UNION
+          SELECT regexp_split_to_table(lower(t.term), '[^a-z0-9]+')
+        ) AS x(k)
+       WHERE x.k <> ''
+    )
+    SELECT round(GREATEST(
+      (SELECT max(${searchRankSql("k", `$${queryParam}`)}) FROM keys),
+      (SELECT avg(best) FROM (
+         SELECT max(${searchRankSql("k", "w")}) AS best
+           FROM keys, unnest($${wordsParam}::text[]) AS w
+          GROUP BY w
+      ) per_word)
+    )::numeric, 3)::float8 AS relevance
+  ) search`;
+
+/* --- Vote trends --- */
+/* Bucket sizes for trend data and how many buckets are returned by default */
+const TREND_BUCKETS: Record<string, { periods: number }> = {
+  day: { periods: 14 },
+  week: { periods: 12 },
+};
+const MAX_TREND_PERIODS = 90;
+const DEFAULT_MOVERS = 10;
+const MAX_MOVERS = 50;
+
+/*
+ * Votes per bucket for the format `formatExpr`, oldest first, as a JSON array
+ * of { start, votes }. `unit` is a SQL text expression ('day' or 'week');
+ * buckets follow date_trunc, so weeks start on Monday and the newest bucket
+ * is still in progress.
+ */
+const trendBucketsSql = (formatExpr: string, unit: string, periods: string) =>
+  `(SELECT json_agg(json_build_object(
+       'start', b.start,
+       'votes', (SELECT count(*)::int FROM votes v
+                  WHERE v.format_id = ${formatExpr}
+                    AND v.created_at >= b.start
+                    AND v.created_at < b.start + ('1 ' || ${unit})::interval)
+     ) ORDER BY b.start)
+     FROM generate_series(
+       date_trunc(${unit}, now()) - (${periods} - 1) * ('1 ' || ${unit})::interval,
+       date_trunc(${unit}, now()),
+       ('1 ' || ${unit})::interval
+     ) AS b(start))`;
+
+/*
+ * Momentum of `formats` over a rolling window of one `unit`: votes cast in
+ * the last day/week (`recent`) minus those cast in the one before it
+ * (`previous`). Exposed as `trend.recent`, `trend.previous`, `trend.momentum`.
+ */
+const trendLateralSql = (unit: string) => `
+  CROSS JOIN LATERAL (
+    SELECT counts.recent, counts.previous,
+           counts.recent - counts.previous AS momentum
+      FROM (
+        SELECT count(*) FILTER (WHERE v.created_at >= now() - ('1 ' || ${unit})::interval)::int AS recent,
+               count(*) FILTER (WHERE v.created_at < now() - ('1 ' || ${unit})::interval)::int AS previous
+          FROM votes v
+         WHERE v.format_id = formats.id
+           AND v.created_at >= now() - 2 * ('1 ' || ${unit})::interval
+      ) counts
+  ) trend`;
+
+function parseTrendQuery(req: Request) {
+  const bucket =
+    typeof req.query.bucket === "string" ? req.query.bucket : "day";
+  if (!Object.hasOwn(TREND_BUCKETS, bucket)) return null;
+  const periods =
+    typeof req.query.periods === "string" ? Number(req.query.periods) : NaN;
+  return {
+    bucket,
+    periods: Number.isInteger(periods)
+      ? Math.min(Math.max(periods, 1), MAX_TREND_PERIODS)
+      : TREND_BUCKETS[bucket].periods,
+  };
+}
+
+/* --- Priority scoring --- */
+type PriorityInputs = Partial<
+  Record<"reach" | "impact" | "confidence" | "effort", number | null>
+>;
+
+/* Accepted values of each RICE input; null always clears one */
+const PRIORITY_FIELDS: Record<keyof PriorityInputs, (v: number) => boolean> = {
+  reach: (v) => Number.isInteger(v) && v >= 0,
+  impact: (v) => v > 0 && v <= 10,
+  confidence: (v) => Number.isInteger(v) && v >= 0 && v <= 100,
+  effort: (v) => v > 0 && v <= 1000,
+};
+
+/**
+ * Validate the optional RICE inputs in a request body. Like parseMetadata,
+ * only fields that are present are returned.
+ */
+function parsePriority(
+  body: unknown,
+): { priority: PriorityInputs } | { error: MetadataError } {
+  const fields = bodyFields(body);
+  const priority: PriorityInputs = {};
+  for (const field of Object.keys(
+    PRIORITY_FIELDS,
+  ) as (keyof PriorityInputs)[]) {
+    const raw = fields[field];
+    if (raw === undefined) continue;
+    if (
+      raw !== null &&
+      !(
+        typeof raw === "number" &&
+        Number.isFinite(raw) &&
+        PRIORITY_FIELDS[field](raw)
+      )
+    ) {
+      return { error: { field, value: raw } };
+    }
+    priority[field] = raw;
+  }
+  return { priority };
+}
+
+/* --- Pagination --- */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type SortKey = { expr: string; dir: "ASC" | "DESC"; type: string };
+
+/*
+ * Keyset order for each `sort` option. Every list ends with the id so the
+ * order is total and a cursor always points at exactly one position.
+ */
+const FORMAT_SORTS: Record<string, SortKey[]> = {
+  "votes-desc": [
+    { expr: "votes", dir: "DESC", type: "int" },
+    { expr: "created_at", dir: "DESC", type: "timestamptz" },
+    { expr: "id", dir: "DESC", type: "uuid" },
+  ],
+  "votes-asc": [
+    { expr: "votes", dir: "ASC", type: "int" },
+    { expr: "created_at", dir: "DESC", type: "timestamptz" },
+    { expr: "id", dir: "DESC", type: "uuid" },
+  ],
+  "name-asc": [
+    { expr: "name", dir: "ASC", type: "text" },
+    { expr: "id", dir: "ASC", type: "uuid" },
+  ],
+  "name-desc": [
+    { expr: "name", dir: "DESC", type: "text" },
+    { expr: "id", dir: "DESC", type: "uuid" },
+  ],
+  newest: [
+    { expr: "created_at", dir: "DESC", type: "timestamptz" },
+    { expr: "id", dir: "DESC", type: "uuid" },
+  ],
+  relevance: [
+    { expr: "search.relevance", dir: "DESC", type: "float8" },
+    { expr: "votes", dir: "DESC", type: "int" },
+    { expr: "name", dir: "ASC", type: "text" },
+    { expr: "id", dir: "ASC", type: "uuid" },
+  ],
+  priority: [
+    { expr: PRIORITY_EXPR, dir: "DESC", type: "float8" },
+    { expr: "votes", dir: "DESC", type: "int" },
+    { expr: "name", dir: "ASC", type: "text" },
+    { expr: "id", dir: "ASC", type: "uuid" },
+  ],
+  trending: [
+    { expr: "trend.momentum", dir: "DESC", type: "int" },
+    { expr: "votes", dir: "DESC", type: "int" },
+    { expr: "name", dir: "ASC", type: "text" },
+    { expr: "id", dir: "ASC", type: "uuid" },
+  ],
+};
+
+/* Fields a client may pick with `?fields=`, mapped to their select expression */
+const FORMAT_FIELDS: Record<string, string> = {
+  ...Object.fromEntries(FORMAT_COLUMNS.split(", ").map((c) => [c, c])),
+  priority: PRIORITY_SQL,
+  comment_count: COMMENT_COUNT_SQL,
+  aliases: ALIASES_SQL,
+  codecs: CODECS_SQL,
+  containers: CONTAINERS_SQL,
+  sparkline: SPARKLINE_SQL,
+};
+
+type FormatCursor = { sort: string; key: unknown[] };
+
+/* Cursors are opaque to clients: base64url JSON of the sort and last key */
+function encodeCursor(cursor: FormatCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: string): FormatCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      cursor?.sort !== sort ||
+      !Array.isArray(cursor.key) ||
+      cursor.key.length !== FORMAT_SORTS[sort].length
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WHERE clause selecting the rows after `key` in `keys` order. Spelled out
+ * as (a > x) OR (a = x AND b > y) ... because the directions can be mixed.
+ */
+function keysetAfterSql(
+  keys: SortKey[],
+  key: unknown[],
+  values: unknown[],
+): string {
+  const params = keys.map((k, i) => {
+    values.push(key[i]);
+    return `$${values.length}::${k.type}`;
+  });
+  const branches = keys.map((k, i) => {
+    const equal = keys
+      .slice(0, i)
+      .map((prev, j) => `${prev.expr} = ${params[j]}`);
+    const op = k.dir === "ASC" ? ">" : "<";
+    return [...equal, `${k.expr} ${op} ${params[i]}`].join(" AND ");
+  });
+  return `(${branches.map((b) => `(${b})`).join(" OR ")})`;
+}
+
+/* --- Technical metadata --- */
+type FormatMetadata = {
+  mimeTypes?: string[];
+  extensions?: string[];
+  specUrls?: string[];
+  aliases?: string[];
+  codecIds?: string[];
+  containerIds?: string[];
+};
+
+type MetadataError = { field: string; value: unknown };
+
+const MIME_TYPE_RE = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+const EXTENSION_RE = /^[a-z0-9][a-z0-9_.+-]*$/;
+const MAX_ALIAS_LENGTH = 80;
+
+/* Absolute http(s) URL in canonical form, or null */
+function normalizeHttpUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/* Normalizers return null for values that are not acceptable */
+const METADATA_FIELDS: Record<
+  keyof FormatMetadata,
+  (value: string) => string | null
+> = {
+  mimeTypes: (v) => {
+    const mime = v.trim().toLowerCase();
+    return MIME_TYPE_RE.test(mime) ? mime : null;
+  },
+  extensions: (v) => {
+    const ext = v.trim().toLowerCase().replace(/^\./, "");
+    return EXTENSION_RE.test(ext) ? ext : null;
+  },
+  specUrls: normalizeHttpUrl,
+  aliases: (v) => {
+    const alias = v.trim();
+    return alias && alias.length <= MAX_ALIAS_LENGTH ? alias : null;
+  },
+  codecIds: (v) => v.trim() || null,
+  containerIds: (v) => v.trim() || null,
+};
+
+/**
+ * Validate the optional metadata lists in a request body. Only fields that are
+ * present are returned, so callers can tell "replace with []" from "leave as is".
+ */
+function parseMetadata(
+  body: unknown,
+): { metadata: FormatMetadata } | { error: MetadataError } {
+  const fields = bodyFields(body);
+  const metadata: FormatMetadata = {};
+  for (const field of Object.keys(
+    METADATA_FIELDS,
+  ) as (keyof FormatMetadata)[]) {
+    const raw = fields[field];
+    if (raw === undefined) continue;
+    if (!Array.isArray(raw)) return { error: { field, value: raw } };
+    const normalized: string[] = [];
+    for (const value of raw) {
+      const clean =
+        typeof value === "string" ? METADATA_FIELDS[field](value) : null;
+      if (clean === null) return { error: { field, value } };
+      if (!normalized.some((n) => n.toLowerCase() === clean.toLowerCase())) {
+        normalized.push(clean);
+      }
+    }
+    metadata[field] = normalized;
+  }
+  return { metadata };
+}
+
+class MetadataConflictError extends Error {
+  constructor(
+    readonly field: string,
+    readonly value: string,
+  ) {
+    super(`${field} conflict: ${value}`);
+  }
+}
+
+/**
+ * Write the metadata fields present in `meta` for format `id`, replacing the
+ * previous values of those fields. Must run inside a transaction. Throws
+ * MetadataConflictError when an alias is already another format's name or
+ * alias, or a related format does not exist.
+ */
+async function applyMetadata(
+  client: PoolClient,
+  id: string,
+  name: string,
+  meta: FormatMetadata,
+) {
+  if (meta.mimeTypes || meta.extensions || meta.specUrls) {
+    await client.query(
+      `UPDATE formats
+          SET mime_types = COALESCE($2, mime_types),
+              extensions = COALESCE($3, extensions),
+              spec_urls = COALESCE($4, spec_urls)
+        WHERE id = $1`,
+      [
+        id,
+        meta.mimeTypes ?? null,
+        meta.extensions ?? null,
+        meta.specUrls ?? null,
+      ],
+    );
+  }
+
+  if (meta.aliases) {
+    const aliases = meta.aliases.filter(
+      (a) => a.toLowerCase() !== name.toLowerCase(),
+    );
+    // Aliases, like names, only clash with others on the same board
+    const taken = await client.query<{ name: string }>(
+      `SELECT f.name FROM formats f
+        WHERE f.id <> $1 AND lower(f.name) = ANY($2::text[])
+          AND f.board_id = (SELECT board_id FROM formats WHERE id = $1)
+       UNION ALL
+       SELECT a.alias FROM format_aliases a
+        WHERE a.format_id <> $1 AND lower(a.alias) = ANY($2::text[])
+          AND a.board_id = (SELECT board_id FROM formats WHERE id = $1)
+       LIMIT 1`,
+      [id, aliases.map((a) => a.toLowerCase())],
+    );
+    if (taken.rows[0]) {
+      throw new MetadataConflictError("aliases", taken.rows[0].name);
+    }
+    await client.query("DELETE FROM format_aliases WHERE format_id = $1", [id]);
+    await client.query(
+      `INSERT INTO format_aliases (format_id, board_id, alias)
+       SELECT $1, (SELECT board_id FROM formats WHERE id = $1), unnest($2::text[])`,
+      [id, aliases],
+    );
+  }
+
+  const relations: [keyof FormatMetadata, string, string][] = [
+    ["codecIds", "container_id", "codec_id"],
+    ["containerIds", "codec_id", "container_id"],
+  ];
+  for (const [field, selfColumn, otherColumn] of relations) {
+    const ids = meta[field];
+    if (!ids) continue;
+    if (ids.includes(id)) throw new MetadataConflictError(field, id);
+    const found = await client.query<{ id: string }>(
+      "SELECT id FROM formats WHERE id = ANY($1::uuid[])",
+      [ids],
+    );
+    const missing = ids.find((v) => !found.rows.some((r) => r.id === v));
+    if (missing) throw new MetadataConflictError(field, missing);
+    await client.query(
+      `DELETE FROM format_relations WHERE ${selfColumn} = $1`,
+      [id],
+    );
+    await client.query(
+      `INSERT INTO format_relations (${selfColumn}, ${otherColumn})
+       SELECT $1, unnest($2::uuid[])`,
+      [id, ids],
+    );
+  }
+}
+
+/* --- Catalog import / export --- */
+/* Column order of CSV exports; JSON exports use the same keys */
+const CATALOG_COLUMNS = [
+  "name",
+  "kind",
+  "status",
+  "votes",
+  "estimate",
+  "aliases",
+  "mime_types",
+  "extensions",
+  "spec_urls",
+  "codecs",
+  "created_at",
+] as const;
+
+/* Lists are joined with this in CSV cells */
+const CSV_LIST_SEPARATOR = "; ";
+
+/* Cells a spreadsheet would run as a formula get a leading quote on export */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: string): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function fromCsvCell(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+/* RFC 4180 parser: quoted fields may contain commas, quotes and newlines */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines (e.g. a trailing newline in a spreadsheet export) carry no row
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+type CatalogRecord = Record<string, unknown>;
+
+type ImportRow = {
+  line: number;
+  name: string;
+  kind: string;
+  status: string;
+  votes: number | null;
+  estimate: string | null | undefined;
+  metadata: FormatMetadata;
+  codecs: string[] | undefined;
+};
+
+type ImportError = {
+  row: number;
+  error: string;
+  field?: string;
+  value?: unknown;
+};
+
+/* A list cell is either a JSON array or a separator-joined string */
+function toList(value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value;
+  if (typeof value !== "string") return value;
+  return value
+    .split(";")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Validate one catalog record. `row` is its 1-based position in the file
+ * (for CSV the header is row 1, so data starts at 2).
+ */
+function parseImportRow(
+  record: CatalogRecord,
+  row: number,
+  board: BoardRow,
+): ImportRow | ImportError {
+  const text = (key: string) =>
+    typeof record[key] === "string" ? (record[key] as string).trim() : "";
+  const name = text("name");
+  const kind = text("kind");
+  const status = text("status");
+  if (!name) return { row, error: "missing_fields", field: "name" };
+  if (!kind) return { row, error: "missing_fields", field: "kind" };
+  if (!status) return { row, error: "missing_fields", field: "status" };
+  if (!board.kinds.includes(kind)) {
+    return { row, error: "invalid_kind", field: "kind", value: kind };
+  }
+  if (!board.statuses.includes(status)) {
+    return { row, error: "invalid_status", field: "status", value: status };
+  }
+
+  let votes: number | null = null;
+  if (
+    record.votes !== undefined &&
+    record.votes !== null &&
+    record.votes !== ""
+  ) {
+    votes = Number(record.votes);
+    if (!Number.isInteger(votes) || votes < 0) {
+      return {
+        row,
+        error: "invalid_votes",
+        field: "votes",
+        value: record.votes,
+      };
+    }
+  }
+
+  let estimate: string | null | undefined;
+  if (record.estimate === null || typeof record.estimate === "string") {
+    estimate = text("estimate") || null;
+  }
+
+  const parsed = parseMetadata({
+    aliases: toList(record.aliases),
+    mimeTypes: toList(record.mime_types),
+    extensions: toList(record.extensions),
+    specUrls: toList(record.spec_urls),
+  });
+  if ("error" in parsed) {
+    return { row, error: "invalid_metadata", ...parsed.error };
+  }
+  const codecs = toList(record.codecs);
+  if (
+    codecs !== undefined &&
+    (!Array.isArray(codecs) || codecs.some((c) => typeof c !== "string"))
+  ) {
+    return { row, error: "invalid_metadata", field: "codecs", value: codecs };
+  }
+
+  return {
+    line: row,
+    name,
+    kind,
+    status,
+    votes,
+    estimate,
+    metadata: parsed.metadata,
+    codecs: codecs as string[] | undefined,
+  };
+}
+
+/* Turn a CSV or JSON import body into records keyed by column name */
+function readCatalogRecords(
+  body: unknown,
+): { records: CatalogRecord[]; firstRow: number } | null {
+  if (typeof body === "string") {
+    const [header, ...lines] = parseCsv(body);
+    if (!header) return { records: [], firstRow: 2 };
+    const keys = header.map((h) => h.trim().toLowerCase());
+    const records = lines.map((cells) =>
+      Object.fromEntries(keys.map((k, i) => [k, fromCsvCell(cells[i] ?? "")])),
+    );
+    return { records, firstRow: 2 };
+  }
+  const list = Array.isArray(body)
+    ? body
+    : typeof body === "object" && body !== null && "formats" in body
+      ? body.formats
+      : null;
+  if (!Array.isArray(list)) return null;
+  return {
+    records: list.map((r) => (r && typeof r === "object" ? r : {})),
+    firstRow: 1,
+  };
+}
+
+/* Thrown to roll back an import that had errors or was a dry run */
+class ImportRollback extends Error {
+  constructor(readonly result: Record<string, unknown>) {
+    super("import rolled back");
+  }
+}
+
+/* --- Changelog feeds --- */
+const FEED_TITLE = "Format Poker changelog";
+const FEED_SIZE = 50;
+
+type ChangelogEntry = {
+  id: string;
+  format_id: string;
+  name: string;
+  kind: string;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+  // The format became visible with this change
+  added: boolean;
+};
+
+/*
+ * Public lifecycle events, newest first: a format becoming visible (submitted
+ * and accepted, or created directly) and later status changes. Formats that
+ * are hidden now are left out entirely.
+ */
+async function loadChangelog(
+  boardId: string,
+  kind: string,
+  taxonomy: Taxonomy,
+): Promise<ChangelogEntry[]> {
+  const hidden = hiddenKeys(taxonomy);
+  const { rows } = await pool.query<ChangelogEntry>(
+    `SELECT h.id, h.format_id, f.name, f.kind, h.from_status, h.to_status, h.changed_at,
+            (h.from_status IS NULL OR h.from_status = ANY($1::text[])) AS added
+       FROM format_status_history h
+       JOIN formats f ON f.id = h.format_id
+      WHERE h.to_status <> ALL($1::text[])
+        AND f.status <> ALL($1::text[])
+        AND f.kind <> ALL($5::text[])
+        AND f.board_id = $4
+        AND ($2 = '' OR f.kind = $2)
+      ORDER BY h.changed_at DESC, h.id DESC
+      LIMIT $3`,
+    [hidden.statuses, kind, FEED_SIZE, boardId, hidden.kinds],
+  );
+  return rows;
+}
+
+/* Feed title and ID; the default board keeps the ones it always had */
+function feedTitle(board: BoardRow, kind: string): string {
+  const title =
+    board.slug === DEFAULT_BOARD_SLUG
+      ? FEED_TITLE
+      : `${FEED_TITLE}: ${board.title}`;
+  return title + (kind ? ` (${kind})` : "");
+}
+
+function feedId(board: BoardRow, kind: string): string {
+  const scope = board.slug === DEFAULT_BOARD_SLUG ? "" : `:${board.slug}`;
+  return `urn:format-poker:changelog${scope}${kind ? `:${kind}` : ""}`;
+}
+
+/* Entry IDs never change, whatever host or path serves the feed */
+const changelogEntryId = (e: ChangelogEntry) =>
+  `urn:format-poker:status-change:${e.id}`;
+
+function changelogTitle(e: ChangelogEntry): string {
+  return e.added
+    ? `New format: ${e.name} (${e.to_status})`
+    : `${e.name}: ${e.from_status} → ${e.to_status}`;
+}
+
+function changelogSummary(e: ChangelogEntry): string {
+  return e.added
+    ? `${e.name} (${e.kind}) was added to the catalog as ${e.to_status}.`
+    : `${e.name} (${e.kind}) moved from ${e.from_status} to ${e.to_status}.`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function feedBaseUrl(req: Request): string {
+  return PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+/* Page of the board in the SPA; the default board lives at the root */
+function boardHomeUrl(base: string, board: Pick<BoardRow, "slug">): string {
+  return board.slug === DEFAULT_BOARD_SLUG
+    ? `${base}/`
+    : `${base}/boards/${encodeURIComponent(board.slug)}/`;
+}
+
+/* --- Webhooks --- */
+const WEBHOOK_EVENTS = [
+  "format.submitted",
+  "format.created",
+  "format.approved",
+  "format.rejected",
+  "format.status_changed",
+  "format.deleted",
+  "format.vote_threshold",
+  "ping",
+] as const;
+type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const WEBHOOK_POLL_MS = 5000;
+const WEBHOOK_BATCH_SIZE = 10;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_MAX_ATTEMPTS = 8;
+/* First retry after 30s, doubling up to 6h: about a day in total */
+const WEBHOOK_BACKOFF_BASE_S = 30;
+const WEBHOOK_BACKOFF_MAX_S = 6 * 60 * 60;
+/* A claimed delivery is retried after this if the process dies mid-send */
+const WEBHOOK_LEASE_S = 120;
+
+type WebhookRow = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  vote_threshold: number;
+  active: boolean;
+  created_by: string;
+  created_at: string;
+};
+
+const WEBHOOK_COLUMNS =
+  "id, url, description, events, vote_threshold, active, created_by, created_at";
+
+type WebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload: unknown;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+const DELIVERY_COLUMNS =
+  "id, webhook_id, event_id, event, payload, status, attempts, next_attempt_at, last_status_code, last_error, created_at, delivered_at";
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly unknown[]).includes(value);
+}
+
+/*
+ * Loopback, private, link-local (cloud metadata), shared, documentation,
+ * multicast and reserved ranges. Webhooks must not reach the server's own
+ * network. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (WEBHOOK_ALLOW_PRIVATE) return false;
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+class PrivateAddressError extends Error {
+  code = "EADDRNOTALLOWED";
+  constructor(address: string) {
+    super(`address ${address} is not allowed`);
+  }
+}
+
+/*
+ * dns.lookup that fails for private addresses. Deliveries connect through it,
+ * so a host cannot pass the check at registration and resolve to an internal
+ * address later.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked) return callback(new PrivateAddressError(blocked.address), "");
+    return callback(null, address, family);
+  });
+};
+
+/* Whether every address `url`'s host resolves to is public */
+async function isPublicUrl(url: string): Promise<boolean> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  try {
+    const addresses = net.isIP(host)
+      ? [{ address: host }]
+      : await dns.promises.lookup(host, { all: true });
+    return !addresses.some((a) => isPrivateAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Queue `event` for every active webhook subscribed to it. Call it with the
+ * transaction client of the change so the event is queued only if that
+ * change commits. format.vote_threshold goes only to webhooks whose threshold
+ * equals `votes`, once per format.
+ */
+async function enqueueWebhookEvent(
+  db: Queryable,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  options: { votes?: number; formatId?: string } = {},
+) {
+  const eventId = crypto.randomUUID();
+  const payload = {
+    id: eventId,
+    event,
+    created_at: new Date().toISOString(),
+    data,
+  };
+  const threshold = event === "format.vote_threshold";
+  await db.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload, dedupe_key)
+     SELECT w.id, $1, $2::text, $3,
+            CASE WHEN $4::boolean THEN $2::text || ':' || $6::text || ':' || w.vote_threshold END
+       FROM webhooks w
+      WHERE w.active
+        AND (cardinality(w.events) = 0 OR $2::text = ANY(w.events))
+        AND (NOT $4::boolean OR w.vote_threshold = $5::int)
+     ON CONFLICT (webhook_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING`,
+    [
+      eventId,
+      event,
+      JSON.stringify(payload),
+      threshold,
+      options.votes ?? null,
+      options.formatId ?? null,
+    ],
+  );
+}
+
+/**
+ * Signature sent in X-FormatPoker-Signature: HMAC-SHA256 of
+ * "<timestamp>.<body>" with the webhook secret, hex encoded. Receivers should
+ * recompute it and reject stale timestamps.
+ */
+function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return `sha256=${crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+function webhookBackoffSeconds(attempts: number): number {
+  const delay = Math.min(
+    WEBHOOK_BACKOFF_BASE_S * 2 ** (attempts - 1),
+    WEBHOOK_BACKOFF_MAX_S,
+  );
+  // Up to 10% jitter so failing receivers are not hit in lockstep
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+/*
+ * POST `body` to `url` and resolve with the response status. Connects only to
+ * public addresses (see publicLookup) and does not follow redirects.
+ */
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    // IP literals are connected to without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && isPrivateAddress(host)) {
+      return reject(new PrivateAddressError(host));
+    }
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      },
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+async function deliverWebhook(
+  delivery: WebhookDeliveryRow & { url: string; secret: string },
+) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    statusCode = await postWebhook(
+      delivery.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "FormatPoker-Webhooks/1",
+        "X-FormatPoker-Event": delivery.event,
+        "X-FormatPoker-Delivery": delivery.id,
+        "X-FormatPoker-Timestamp": timestamp,
+        "X-FormatPoker-Signature": signWebhookPayload(
+          delivery.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+    );
+    if (statusCode < 200 || statusCode > 299) error = `HTTP ${statusCode}`;
+  } catch (err: any) {
+    // An aborted request carries the timeout as its cause
+    error =
+      err?.cause?.name === "TimeoutError"
+        ? "timeout"
+        : String(err?.message ?? err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (!error) {
+    await pool.query(
+      `UPDATE webhook_deliveries
+          SET status = 'succeeded', attempts = $2, last_status_code = $3,
+              last_error = NULL, delivered_at = now()
+        WHERE id = $1`,
+      [delivery.id, attempts, statusCode],
+    );
+    return;
+  }
+  const giveUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  await pool.query(
+    `UPDATE webhook_deliveries
+        SET status = $2, attempts = $3, last_status_code = $4, last_error = $5,
+            next_attempt_at = now() + make_interval(secs => $6)
+      WHERE id = $1`,
+    [
+      delivery.id,
+      giveUp ? "failed" : "pending",
+      attempts,
+      statusCode,
+      error.slice(0, 500),
+      giveUp ? 0 : webhookBackoffSeconds(attempts),
+    ],
+  );
+}
+
+let webhookDispatchRunning = false;
+
+/**
+ * Send the deliveries that are due. Claiming pushes next_attempt_at out by a
+ * lease, so several server instances can share the queue and a delivery
+ * interrupted by a crash is picked up again later.
+ */
+async function dispatchWebhooks() {
+  if (webhookDispatchRunning) return;
+  webhookDispatchRunning = true;
+  try {
+    for (;;) {
+      const { rows } = await pool.query<
+        WebhookDeliveryRow & { url: string; secret: string }
+      >(
+        `WITH due AS (
+           SELECT d.id FROM webhook_deliveries d
+             JOIN webhooks w ON w.id = d.webhook_id AND w.active
+            WHERE d.status = 'pending' AND d.next_attempt_at <= now()
+            ORDER BY d.next_attempt_at
+            LIMIT $1
+            FOR UPDATE OF d SKIP LOCKED
+         )
+         UPDATE webhook_deliveries d
+            SET next_attempt_at = now() + make_interval(secs => $2)
+           FROM due, webhooks w
+          WHERE d.id = due.id AND w.id = d.webhook_id
+         RETURNING d.id, d.webhook_id, d.event_id, d.event, d.payload, d.status,
+                   d.attempts, d.next_attempt_at, d.last_status_code, d.last_error,
+                   d.created_at, d.delivered_at, w.url, w.secret`,
+        [WEBHOOK_BATCH_SIZE, WEBHOOK_LEASE_S],
+      );
+      if (rows.length === 0) break;
+      await Promise.all(rows.map((d) => deliverWebhook(d)));
+    }
+  } catch (err) {
+    console.error("Webhook dispatch error:", err);
+  } finally {
+    webhookDispatchRunning = false;
+  }
+}
+
+/* --- Notifications --- */
+const NOTIFICATION_PAGE_SIZE = 50;
+const MAX_EMAIL_LENGTH = 254;
+const MAIL_POLL_MS = 10000;
+const MAIL_BATCH_SIZE = 10;
+const MAIL_TIMEOUT_MS = 15000;
+const MAIL_MAX_ATTEMPTS = 5;
+/* First retry after a minute, doubling up to an hour */
+const MAIL_BACKOFF_BASE_S = 60;
+const MAIL_BACKOFF_MAX_S = 60 * 60;
+/* A claimed email is retried after this if the process dies mid-send */
+const MAIL_LEASE_S = 120;
+
+type NotificationRow = {
+  id: string;
+  format_id: string | null;
+  format_name: string;
+  from_status: string | null;
+  to_status: string;
+  created_at: string;
+  read_at: string | null;
+};
+
+const NOTIFICATION_COLUMNS =
+  "id, format_id, format_name, from_status, to_status, created_at, read_at";
+
+type MailMessage = { to: string; subject: string; text: string };
+
+/* Anything that can send a plain-text mail; see createMailTransport */
+type MailTransport = { send(message: MailMessage): Promise<void> };
+
+function isEmail(value: string): boolean {
+  return (
+    value.length <= MAX_EMAIL_LENGTH &&
+    /^[^\s@<>()[\],;:"]+@[^\s@<>()[\],;:"]+\.[^\s@<>()[\],;:"]+$/.test(value)
+  );
+}
+
+/**
+ * Read one (possibly multi-line) SMTP reply and resolve with its code.
+ * Replies arrive strictly in order, so callers await them one at a time.
+ */
+function createSmtpReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  let waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  let failed: Error | null = null;
+  let rejectWaiting: ((err: Error) => void) | null = null;
+
+  const flush = () => {
+    const end = lines.findIndex((l) => /^\d{3}(?: |$)/.test(l));
+    if (end === -1 || !waiting) return;
+    const reply = lines.slice(0, end + 1);
+    lines = lines.slice(end + 1);
+    const resolve = waiting;
+    waiting = rejectWaiting = null;
+    resolve({
+      code: Number(reply[end].slice(0, 3)),
+      text: reply.map((l) => l.slice(4)).join("\n"),
+    });
+  };
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    const parts = buffer.split("\r\n");
+    buffer = parts.pop() ?? "";
+    lines.push(...parts);
+    flush();
+  });
+  const fail = (err: Error) => {
+    failed = err;
+    rejectWaiting?.(err);
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("connection closed")));
+
+  return (): Promise<{ code: number; text: string }> =>
+    new Promise((resolve, reject) => {
+      if (failed) return reject(failed);
+      waiting = resolve;
+      rejectWaiting = reject;
+      flush();
+    });
+}
+
+/**
+ * Minimal SMTP client: smtp:// speaks plain SMTP (fine for a local relay or a
+ * test stand-in such as MailHog), smtps:// uses implicit TLS. Credentials in
+ * the URL are sent with AUTH PLAIN.
+ */
+function createSmtpTransport(url: URL, from: string): MailTransport {
+  const secure = url.protocol === "smtps:";
+  const host = url.hostname;
+  const port = Number(url.port) || (secure ? 465 : 25);
+  const username = decodeURIComponent(url.username);
+  const password = decodeURIComponent(url.password);
+
+  return {
+    async send(message) {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.setTimeout(MAIL_TIMEOUT_MS, () =>
+        socket.destroy(new Error("timeout")),
+      );
+      const readReply = createSmtpReader(socket);
+      const expect = async (command: string | null, ...codes: number[]) => {
+        if (command !== null) socket.write(`${command}\r\n`);
+        const reply = await readReply();
+        if (!codes.includes(reply.code)) {
+          throw new Error(`SMTP ${reply.code} ${reply.text}`.trim());
+        }
+      };
+      // Header values must not smuggle in extra headers; non-ASCII text is
+      // sent as an RFC 2047 encoded word
+      const header = (value: string) => {
+        const line = value.replace(/[\r\n]+/g, " ");
+        return /[^\x20-\x7e]/.test(line)
+          ? `=?UTF-8?B?${Buffer.from(line).toString("base64")}?=`
+          : line;
+      };
+      const body = message.text
+        .replace(/\r?\n/g, "\r\n")
+        .replace(/^\./gm, ".."); // dot-stuffing
+      try {
+        await expect(null, 220);
+        await expect(`EHLO ${os.hostname()}`, 250);
+        if (username) {
+          const token = Buffer.from(`\0${username}\0${password}`).toString(
+            "base64",
+          );
+          await expect(`AUTH PLAIN ${token}`, 235);
+        }
+        await expect(`MAIL FROM:<${from}>`, 250);
+        await expect(`RCPT TO:<${message.to}>`, 250, 251);
+        await expect("DATA", 354);
+        await expect(
+          [
+            `From: ${header(from)}`,
+            `To: ${header(message.to)}`,
+            `Subject: ${header(message.subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${crypto.randomUUID()}@${os.hostname()}>`,
+            "MIME-Version: 1.0",
+            "Content-Type: text/plain; charset=utf-8",
+            "Content-Transfer-Encoding: 8bit",
+            "",
+            body,
+            ".",
+          ].join("\r\n"),
+          250,
+        );
+        await expect("QUIT", 221).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/**
+ * Pick the mail transport from SMTP_URL: smtp:// or smtps:// send real mail,
+ * log:// prints messages to the console (handy in development), and an empty
+ * value disables email notifications.
+ */
+function createMailTransport(
+  smtpUrl: string,
+  from: string,
+): MailTransport | null {
+  if (!smtpUrl) return null;
+  const url = new URL(smtpUrl);
+  if (url.protocol === "log:") {
+    return {
+      async send(message) {
+        console.log(
+          `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+        );
+      },
+    };
+  }
+  if (url.protocol === "smtp:" || url.protocol === "smtps:") {
+    return createSmtpTransport(url, from);
+  }
+  throw new Error(`Unsupported SMTP_URL scheme: ${url.protocol}`);
+}
+
+const mailTransport = createMailTransport(SMTP_URL, MAIL_FROM);
+
+/**
+ * Add an inbox entry for every device subscribed to the format, queueing an
+ * email for devices that left an address (when mail is configured). Runs in
+ * the transaction of the status change.
+ */
+async function notifySubscribers(
+  db: Queryable,
+  formatId: string,
+  from: string,
+  to: string,
+) {
+  await db.query(
+    `INSERT INTO notifications (device_id, format_id, format_name, from_status, to_status, email, email_status)
+     SELECT s.device_id, f.id, f.name, $2, $3, c.email,
+            CASE WHEN $4::boolean AND c.email IS NOT NULL THEN 'pending' ELSE 'none' END
+       FROM notification_subscriptions s
+       JOIN formats f ON f.id = s.format_id
+       LEFT JOIN notification_contacts c ON c.device_id = s.device_id
+      WHERE s.format_id = $1`,
+    [formatId, from, to, mailTransport !== null],
+  );
+}
+
+function notificationMail(n: NotificationRow & { email: string }): MailMessage {
+  const link =
+    n.format_id && PUBLIC_URL ? `\n\n${PUBLIC_URL}/formats/${n.format_id}` : "";
+  return {
+    to: n.email,
+    subject: `${n.format_name} is now ${n.to_status}`,
+    text:
+      `${n.format_name} moved from ${n.from_status} to ${n.to_status}.` +
+      link +
+      "\n\nYou are getting this because you asked to be notified about a format you voted for.",
+  };
+}
+
+let mailDispatchRunning = false;
+
+/**
+ * Send queued notification emails, retrying failures with backoff. Claimed
+ * rows are pushed out by a lease so concurrent instances skip them.
+ */
+async function dispatchNotificationEmails() {
+  if (!mailTransport || mailDispatchRunning) return;
+  mailDispatchRunning = true;
+  try {
+    for (;;) {
+      const { rows } = await pool.query<
+        NotificationRow & { email: string; email_attempts: number }
+      >(
+        `WITH due AS (
+           SELECT id FROM notifications
+            WHERE email_status = 'pending' AND email_next_attempt_at <= now()
+            ORDER BY email_next_attempt_at
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+         )
+         UPDATE notifications n
+            SET email_next_attempt_at = now() + make_interval(secs => $2)
+           FROM due
+          WHERE n.id = due.id
+         RETURNING n.id, n.format_id, n.format_name, n.from_status, n.to_status,
+                   n.created_at, n.read_at, n.email, n.email_attempts`,
+        [MAIL_BATCH_SIZE, MAIL_LEASE_S],
+      );
+      if (rows.length === 0) break;
+      for (const n of rows) {
+        const attempts = n.email_attempts + 1;
+        try {
+          await mailTransport.send(notificationMail(n));
+          await pool.query(
+            `UPDATE notifications
+                SET email_status = 'sent', email_attempts = $2, email_error = NULL
+              WHERE id = $1`,
+            [n.id, attempts],
+          );
+        } catch (err: any) {
+          const giveUp = attempts >= MAIL_MAX_ATTEMPTS;
+          const delay = Math.min(
+            MAIL_BACKOFF_BASE_S * 2 ** (attempts - 1),
+            MAIL_BACKOFF_MAX_S,
+          );
+          await pool.query(
+            `UPDATE notifications
+                SET email_status = $2, email_attempts = $3, email_error = $4,
+                    email_next_attempt_at = now() + make_interval(secs => $5)
+              WHERE id = $1`,
+            [
+              n.id,
+              giveUp ? "failed" : "pending",
+              attempts,
+              String(err?.message ?? err).slice(0, 500),
+              giveUp ? 0 : delay,
+            ],
+          );
+        }
+      }
+    }
+  } catch (err) {
+    console.error("Notification email dispatch error:", err);
+  } finally {
+    mailDispatchRunning = false;
+  }
+}
+
+/* --- Routes --- */
+
+/* --- Server Sent Events for live updates --- */
+/*
+ * Events are stored in live_events and announced with NOTIFY, so every server
+ * instance (including the one that published) fans them out to its own SSE
+ * clients from the same LISTEN stream. The table doubles as the replay log
+ * for clients that reconnect, whichever instance they land on.
+ */
+const LIVE_CHANNEL = "format_poker_live";
+/* Most events replayed to a reconnecting client before it is told to reset */
+const SSE_REPLAY_SIZE = 500;
+const LIVE_EVENT_RETENTION = "1 day";
+const LIVE_LISTEN_RETRY_MAX_MS = 30000;
+/* Recently fanned-out event IDs, so a catch-up never sends one twice */
+const LIVE_SEEN_SIZE = 2000;
+
+/* `board_id` is null for events every board's stream carries */
+type LiveEventRow = {
+  id: string;
+  event: string;
+  data: unknown;
+  board_id: string | null;
+};
+
+type SseClient = {
+  res: Response;
+  boardId: string;
+  /* Live events held back while the client's replay is still being sent */
+  backlog: LiveEventRow[] | null;
+};
+
+const sseClients: Set<SseClient> = new Set();
+
+function formatSseEvent(e: LiveEventRow): string {
+  return `id: ${e.id}\nevent: ${e.event}\ndata: ${JSON.stringify(e.data)}\n\n`;
+}
+
+function isForClient(client: SseClient, e: LiveEventRow): boolean {
+  return e.board_id === null || e.board_id === client.boardId;
+}
+
+function writeSse(client: SseClient, chunk: string) {
+  try {
+    client.res.write(chunk);
+  } catch {
+    sseClients.delete(client);
+  }
+}
+
+/**
+ * GET /api/live
+ * Events of one board plus the estimation session events shared by all
+ * boards. Named events, each with an increasing `id`:
+ *   - vote: { id, votes }
+ *   - format.created / format.updated: the public format row
+ *   - format.deleted: { id }, or { id, hidden: true } when a format was
+ *     moved to a hidden status (admins still see it)
+ *   - comment, session, merge: see the routes that send them
+ *   - reset: the client missed events it cannot replay and should reload
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId=) and receive the
+ * events they missed, or a reset if those are no longer kept.
+ */
+app.get(boardPaths("/live"), loadBoard, async (req: Request, res: Response) => {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  res.write("retry: 3000\n\n");
+
+  const client: SseClient = { res, boardId: req.board!.id, backlog: [] };
+  sseClients.add(client);
+  req.on("close", () => {
+    sseClients.delete(client);
+  });
+
+  const raw =
+    req.get("Last-Event-ID") ??
+    (typeof req.query.lastEventId === "string" ? req.query.lastEventId : "");
+  const replayed = new Set<string>();
+  if (/^\d+$/.test(raw)) {
+    try {
+      const { rows } = await pool.query<LiveEventRow & { known: boolean }>(
+        `SELECT id, event, data, board_id,
+                EXISTS (SELECT 1 FROM live_events WHERE id <= $1) AS known
+           FROM live_events
+          WHERE id > $1 AND (board_id IS NULL OR board_id = $3)
+          ORDER BY id
+          LIMIT $2`,
+        [raw, SSE_REPLAY_SIZE + 1, client.boardId],
+      );
+      const max = await pool.query<{ id: string | null }>(
+        "SELECT max(id)::text AS id FROM live_events",
+      );
+      // Too far behind, pruned away, or an ID this database never issued
+      const lost =
+        rows.length > SSE_REPLAY_SIZE ||
+        (rows.length > 0 && !rows[0].known) ||
+        BigInt(raw) > BigInt(max.rows[0].id ?? "0");
+      if (lost) {
+        // The ID moves the client past the gap for its next reconnect
+        writeSse(
+          client,
+          `id: ${max.rows[0].id ?? 0}\nevent: reset\ndata: {}\n\n`,
+        );
+      } else {
+        for (const e of rows) {
+          writeSse(client, formatSseEvent(e));
+          replayed.add(e.id);
+        }
+      }
+    } catch (err) {
+      console.error("GET /api/live replay error:", err);
+      writeSse(client, `event: reset\ndata: {}\n\n`);
+    }
+  }
+
+  for (const e of client.backlog ?? []) {
+    if (!replayed.has(e.id) && isForClient(client, e)) {
+      writeSse(client, formatSseEvent(e));
+    }
+  }
+  client.backlog = null;
+});
+
+let livePublishQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Publish a named event to the SSE clients of every instance that follow
+ * `boardId` (all of them when null). Events from one instance are stored in
+ * call order; delivery happens via LISTEN.
+ */
+function broadcastEvent(event: string, data: unknown, boardId: string | null) {
+  livePublishQueue = livePublishQueue.then(async () => {
+    try {
+      await pool.query(
+        `WITH e AS (
+           INSERT INTO live_events (event, data, board_id) VALUES ($1, $2, $4) RETURNING id
+         )
+         SELECT pg_notify($3, id::text) FROM e`,
+        [event, JSON.stringify(data), LIVE_CHANNEL, boardId],
+      );
+    } catch (err) {
+      console.error("broadcastEvent error:", err);
+    }
+  });
+}
+
+const liveSeen = new Set<string>();
+let liveLastId: string | null = null;
+
+function fanOutLiveEvent(e: LiveEventRow) {
+  if (liveSeen.has(e.id)) return;
+  liveSeen.add(e.id);
+  if (liveSeen.size > LIVE_SEEN_SIZE) {
+    liveSeen.delete(liveSeen.values().next().value!);
+  }
+  if (liveLastId === null || BigInt(e.id) > BigInt(liveLastId)) {
+    liveLastId = e.id;
+  }
+  const chunk = formatSseEvent(e);
+  for (const client of Array.from(sseClients)) {
+    if (client.backlog) client.backlog.push(e);
+    else if (isForClient(client, e)) writeSse(client, chunk);
+  }
+}
+
+async function loadLiveEvents(where: string, param: string) {
+  const { rows } = await pool.query<LiveEventRow>(
+    `SELECT id, event, data, board_id FROM live_events WHERE ${where} ORDER BY id`,
+    [param],
+  );
+  rows.forEach(fanOutLiveEvent);
+}
+
+/**
+ * Hold a dedicated LISTEN connection, reconnecting with backoff when it
+ * drops. After a reconnect, events stored while it was down are fanned out
+ * first; `liveSeen` keeps them from going out twice.
+ */
+async function listenForLiveEvents(retryMs = 1000) {
+  const listener = new Client({
+    connectionString: DATABASE_URL,
+    ssl: NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+  });
+  let retried = false;
+  const retry = () => {
+    if (retried) return;
+    retried = true;
+    listener.removeAllListeners();
+    listener.end().catch(() => undefined);
+    const delay = Math.min(retryMs * 2, LIVE_LISTEN_RETRY_MAX_MS);
+    console.warn(`Live event listener lost; reconnecting in ${retryMs}ms`);
+    setTimeout(() => void listenForLiveEvents(delay), retryMs);
+  };
+  listener.on("error", (err) => {
+    console.error("Live event listener error:", err);
+    retry();
+  });
+  listener.on("end", retry);
+  listener.on("notification", (msg) => {
+    if (msg.channel !== LIVE_CHANNEL || !msg.payload) return;
+    loadLiveEvents("id = $1", msg.payload).catch((err) =>
+      console.error("Live event fan-out error:", err),
+    );
+  });
+  try {
+    await listener.connect();
+    await listener.query(`LISTEN ${LIVE_CHANNEL}`);
+    if (liveLastId !== null) await loadLiveEvents("id > $1", liveLastId);
+    else {
+      const { rows } = await pool.query<{ id: string | null }>(
+        "SELECT max(id)::text AS id FROM live_events",
+      );
+      liveLastId = rows[0].id ?? "0";
+    }
+  } catch (err) {
+    console.error("Live event listener connect error:", err);
+    retry();
+  }
+}
+
+async function pruneLiveEvents() {
+  try {
+    await pool.query(
+      `DELETE FROM live_events WHERE created_at < now() - $1::interval`,
+      [LIVE_EVENT_RETENTION],
+    );
+  } catch (err) {
+    console.error("Live event prune error:", err);
+  }
+}
+
+function broadcastVote(id: string, votes: number, boardId: string) {
+  broadcastEvent("vote", { id, votes }, boardId);
+}
+
+/**
+ * Send the current public row of a format as `event`. Formats that are hidden
+ * (or gone) go out as format.deleted so public clients drop them.
+ */
+async function broadcastFormat(
+  id: string,
+  event: "format.created" | "format.updated",
+) {
+  try {
+    const { rows } = await pool.query<FormatRow>(
+      `SELECT ${FORMAT_READ_COLUMNS}, ${SPARKLINE_SQL} FROM formats WHERE id = $1`,
+      [id],
+    );
+    if (!rows[0]) {
+      broadcastEvent("format.deleted", { id }, null);
+      return;
+    }
+    if (!isPublicFormat(await loadTaxonomy(), rows[0])) {
+      broadcastEvent("format.deleted", { id, hidden: true }, rows[0].board_id);
+      return;
+    }
+    broadcastEvent(event, rows[0], rows[0].board_id);
+  } catch (err) {
+    console.error("broadcastFormat error:", err);
+  }
+}
+
+// Heartbeat to keep connections alive
+setInterval(() => {
+  for (const client of Array.from(sseClients)) writeSse(client, ":ping\n\n");
+}, 30000);
+
+/**
+ * GET /api/formats
+ * Lists the formats of one board. Query params:
+ *   - q: search string, matched typo-tolerantly against the name, aliases,
+ *        MIME types and file extensions; rows then carry a `relevance` (0..1)
+ *   - kind: exact kind
+ *   - status: exact status; without it, submissions still in the initial
+ *             status are left to the moderation queue
+ *   - sort: votes-desc (default), votes-asc, name-asc, name-desc, newest,
+ *           relevance (needs q; falls back to votes-desc without it),
+ *           trending (votes this week minus the week before; rows then
+ *           carry that `momentum`), priority (RICE score, see `priority`)
+ *   - limit: page size, 1..200 (default 50)
+ *   - cursor: `nextCursor` of the previous page; only valid with the same sort
+ *   - fields: comma-separated subset of the row fields (id is always included)
+ * Rows carry a `sparkline`: daily votes over the last 14 days, oldest first.
+ * Responds with { items, total, nextCursor }; total counts every match, not
+ * just this page, and nextCursor is null on the last page.
+ */
+app.get(
+  boardPaths("/formats"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const kind =
+      typeof req.query.kind === "string" ? req.query.kind.trim() : "";
+    const status =
+      typeof req.query.status === "string" ? req.query.status.trim() : "";
+    const requestedSort =
+      typeof req.query.sort === "string"
+        ? req.query.sort.trim().toLowerCase()
+        : "votes-desc";
+    const limit =
+      typeof req.query.limit === "string" ? Number(req.query.limit) : NaN;
+    const pageSize = Number.isInteger(limit)
+      ? Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+
+    const fields =
+      typeof req.query.fields === "string"
+        ? Array.from(
+            new Set([
+              "id",
+              ...req.query.fields
+                .split(",")
+                .map((f) => f.trim())
+                .filter(Boolean),
+            ]),
+          )
+        : null;
+    const unknownField = fields?.find(
+      (f) =>
+        !Object.hasOwn(FORMAT_FIELDS, f) &&
+        f !== "relevance" &&
+        f !== "momentum",
+    );
+    if (unknownField) {
+      return sendError(res, 400, "invalid_fields", { field: unknownField });
+    }
+
+    const whereClauses: string[] = ["board_id = $1"];
+    const values: unknown[] = [req.board!.id];
+    let idx = 2;
+    const isAdmin = !!req.boardAdmin;
+
+    // A query made only of punctuation has nothing to match on
+    const searchQuery = normalizeSearch(q);
+    let searchSql = "";
+    if (searchQuery) {
+      const words = Array.from(
+        new Set(
+          q
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(Boolean),
+        ),
+      );
+      searchSql = searchLateralSql(idx, idx + 1);
+      idx += 2;
+      values.push(searchQuery, words);
+      whereClauses.push(`search.relevance >= $${idx++}`);
+      values.push(SEARCH_MIN_RELEVANCE);
+    }
+    if (kind) {
+      whereClauses.push(`kind = $${idx++}`);
+      values.push(kind);
+    }
+    const initial = initialStatus(req.taxonomy!);
+    if (status) {
+      whereClauses.push(`status = $${idx++}`);
+      values.push(status);
+    } else if (initial) {
+      whereClauses.push(`status <> $${idx++}`);
+      values.push(initial);
+    }
+    if (!isAdmin) {
+      const hidden = hiddenKeys(req.taxonomy!);
+      whereClauses.push(`status <> ALL($${idx++}::text[])`);
+      whereClauses.push(`kind <> ALL($${idx++}::text[])`);
+      values.push(hidden.statuses, hidden.kinds);
+    }
+
+    // Unknown sorts, and relevance without a query, use the default order
+    const sort =
+      Object.hasOwn(FORMAT_SORTS, requestedSort) &&
+      (requestedSort !== "relevance" || searchSql)
+        ? requestedSort
+        : "votes-desc";
+    const keys = FORMAT_SORTS[sort];
+    const trendSql = sort === "trending" ? trendLateralSql("'week'") : "";
+
+    // The total ignores the cursor, so it is computed before adding it
+    const countSql = `SELECT count(*)::int AS total FROM formats ${searchSql} WHERE ${whereClauses.join(" AND ")}`;
+    const countValues = [...values];
+
+    if (typeof req.query.cursor === "string" && req.query.cursor) {
+      const cursor = decodeCursor(req.query.cursor, sort);
+      if (!cursor) return sendError(res, 400, "invalid_cursor");
+      whereClauses.push(keysetAfterSql(keys, cursor.key, values));
+    }
+
+    const whereSql = `WHERE ${whereClauses.join(" AND ")}`;
+    const orderSql = `ORDER BY ${keys.map((k) => `${k.expr} ${k.dir}`).join(", ")}`;
+
+    const columns = fields
+      ? fields.filter((f) => f !== "relevance").map((f) => FORMAT_FIELDS[f])
+      : [FORMAT_READ_COLUMNS, SPARKLINE_SQL];
+    if (searchSql && (!fields || fields.includes("relevance"))) {
+      columns.push("search.relevance AS relevance");
+    }
+    if (trendSql && (!fields || fields.includes("momentum"))) {
+      columns.push("trend.momentum AS momentum");
+    }
+    // The sort key travels in its own column so the cursor keeps full precision
+    columns.push(
+      `json_build_array(${keys.map((k) => k.expr).join(", ")}) AS sort_key`,
+    );
+
+    values.push(pageSize + 1);
+    const sql = `SELECT ${columns.join(", ")} FROM formats ${searchSql} ${trendSql} ${whereSql} ${orderSql} LIMIT $${values.length};`;
+
+    try {
+      const [page, count] = await Promise.all([
+        pool.query<Partial<FormatRow> & { sort_key: unknown[] }>(sql, values),
+        pool.query<{ total: number }>(countSql, countValues),
+      ]);
+      const rows = page.rows.slice(0, pageSize);
+      const last = rows[rows.length - 1];
+      const body: FormatPage = {
+        items: rows.map(({ sort_key: _sortKey, ...row }) => row),
+        total: count.rows[0].total,
+        nextCursor:
+          page.rows.length > pageSize && last
+            ? encodeCursor({ sort, key: last.sort_key })
+            : null,
+      };
+      return res.json(body);
+    } catch (err) {
+      console.error("GET /api/formats error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats/submit
+ * body: { name, kind, deviceToken, pow?: { challenge, nonce } }
+ * Allows non-admin users to submit a format for review. Always stores it in
+ * the taxonomy's initial status (e.g. "In Review"); hidden kinds cannot be
+ * submitted. The device can follow the outcome through GET /api/submissions.
+ * Rate limited per address and device; with SUBMIT_POW_BITS set it needs a
+ * solved GET /api/challenge (400 `invalid_pow`). Bodies that fill in the
+ * honeypot field are acknowledged but dropped.
+ */
+app.post(
+  boardPaths("/formats/submit"),
+  requireDevice,
+  rateLimit("submit"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const board = req.board!;
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    const kind = typeof req.body?.kind === "string" ? req.body.kind.trim() : "";
+    if (req.body?.[HONEYPOT_FIELD]) {
+      return res.status(202).json({ ok: true });
+    }
+    if (!name || !kind) return sendError(res, 400, "missing_fields");
+    if (
+      !board.kinds.includes(kind) ||
+      hiddenKeys(req.taxonomy!).kinds.includes(kind)
+    ) {
+      return sendError(res, 400, "invalid_kind");
+    }
+    const status = initialStatus(req.taxonomy!);
+    if (!status || !board.statuses.includes(status)) {
+      return sendError(res, 409, "submissions_closed");
+    }
+
+    try {
+      if (!(await verifyProofOfWork(req.body?.pow))) {
+        return sendError(res, 400, "invalid_pow");
+      }
+      const aliasOwner = await findAliasOwner(pool, name, board.id);
+      if (aliasOwner) {
+        return sendError(res, 409, "duplicate_name", { format_id: aliasOwner });
+      }
+      const row = await withTransaction(async (client) => {
+        const { rows } = await client.query<FormatRow>(
+          `INSERT INTO formats (board_id, name, kind, status) VALUES ($1, $2, $3, $4) RETURNING ${FORMAT_COLUMNS}`,
+          [board.id, name, kind, status],
+        );
+        await recordStatusChange(client, rows[0].id, null, status, "submitter");
+        await client.query(
+          `INSERT INTO format_submissions (format_id, board_id, device_id, name, kind)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [rows[0].id, board.id, req.deviceId, name, kind],
+        );
+        await enqueueWebhookEvent(client, "format.submitted", {
+          format: rows[0],
+        });
+        return rows[0];
+      });
+      return res.status(201).json(row);
+    } catch (err: any) {
+      console.error("POST /api/formats/submit error:", err);
+      if (err?.code === "23505") {
+        return sendError(res, 409, "duplicate_name");
+      }
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/login
+ * body: { username: string, password: string }
+ * Sets the session cookie and returns { user, csrfToken }; `user.boards`
+ * lists the slugs of the boards the account is assigned to. Attempts are
+ * rate limited per address and per username (429 `rate_limited`).
+ */
+app.post(
+  "/api/admin/login",
+  rateLimit("login"),
+  async (req: Request, res: Response) => {
+    const username =
+      typeof req.body?.username === "string" ? req.body.username.trim() : "";
+    const password =
+      typeof req.body?.password === "string" ? req.body.password : "";
+    if (!username || !password) return sendError(res, 400, "missing_fields");
+
+    try {
+      const { rows } = await pool.query<AdminUser & { password_hash: string }>(
+        `SELECT ${ADMIN_USER_COLUMNS}, password_hash FROM admin_users WHERE lower(username) = lower($1)`,
+        [username],
+      );
+      const found = rows[0];
+      if (!found || !(await verifyPassword(password, found.password_hash))) {
+        return sendError(res, 401, "invalid_credentials");
+      }
+      const { password_hash: _hash, ...user } = found;
+
+      const token = crypto.randomBytes(32).toString("base64url");
+      const csrfToken = crypto.randomBytes(32).toString("base64url");
+      await pool.query("DELETE FROM admin_sessions WHERE expires_at <= now()");
+      await pool.query(
+        "INSERT INTO admin_sessions (token_hash, user_id, csrf_token, expires_at) VALUES ($1, $2, $3, now() + make_interval(secs => $4))",
+        [sha256(token), user.id, csrfToken, ADMIN_SESSION_TTL_MS / 1000],
+      );
+      setAdminCookie(res, token, ADMIN_SESSION_TTL_MS);
+      const boards = await adminBoardSlugs(user.id);
+      return res.json({ user: { ...user, boards }, csrfToken });
+    } catch (err) {
+      console.error("POST /api/admin/login error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/logout (admin)
+ */
+app.post(
+  "/api/admin/logout",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      await pool.query("DELETE FROM admin_sessions WHERE token_hash = $1", [
+        req.admin!.tokenHash,
+      ]);
+      res.clearCookie(ADMIN_COOKIE, { path: "/" });
+      return res.json({ ok: true });
+    } catch (err) {
+      console.error("POST /api/admin/logout error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/admin/me (admin)
+ * Lets the client restore an existing session after a reload. Same shape as
+ * the login response.
+ */
+app.get("/api/admin/me", requireAdmin, async (req: Request, res: Response) => {
+  const { csrfToken, tokenHash: _hash, ...user } = req.admin!;
+  try {
+    const boards = await adminBoardSlugs(user.id);
+    return res.json({ user: { ...user, boards }, csrfToken });
+  } catch (err) {
+    console.error("GET /api/admin/me error:", err);
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * GET /api/admin/users (owner)
+ */
+app.get(
+  "/api/admin/users",
+  requireOwner,
+  async (_req: Request, res: Response) => {
+    try {
+      const { rows } = await pool.query<AdminUser>(
+        `SELECT ${ADMIN_USER_COLUMNS} FROM admin_users ORDER BY created_at ASC`,
+      );
+      return res.json(rows);
+    } catch (err) {
+      console.error("GET /api/admin/users error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/users (owner)
+ * body: { username: string, password: string, role: "owner" | "moderator" }
+ */
+app.post(
+  "/api/admin/users",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const username =
+      typeof req.body?.username === "string" ? req.body.username.trim() : "";
+    const password =
+      typeof req.body?.password === "string" ? req.body.password : "";
+    const role = req.body?.role;
+    if (!username || !password) return sendError(res, 400, "missing_fields");
+    if (!isAdminRole(role)) return sendError(res, 400, "invalid_role");
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return sendError(res, 400, "weak_password");
+    }
+
+    try {
+      const passwordHash = await hashPassword(password);
+      const user = await withTransaction(async (client) => {
+        const { rows } = await client.query<AdminUser>(
+          `INSERT INTO admin_users (username, password_hash, role) VALUES ($1, $2, $3) RETURNING ${ADMIN_USER_COLUMNS}`,
+          [username, passwordHash, role],
+        );
+        await writeAudit(client, req, {
+          action: "admin_user.create",
+          entityType: "admin_user",
+          entityId: rows[0].id,
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      return res.status(201).json(user);
+    } catch (err: any) {
+      console.error("POST /api/admin/users error:", err);
+      if (err?.code === "23505") {
+        return sendError(res, 409, "duplicate_username");
+      }
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/admin/users/:id (owner)
+ * body: { role?: "owner" | "moderator", password?: string }
+ * Changing a password signs that account out everywhere.
+ */
+app.put(
+  "/api/admin/users/:id",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const role: unknown = req.body?.role;
+    const password =
+      typeof req.body?.password === "string" ? req.body.password : undefined;
+    if (role !== undefined && !isAdminRole(role)) {
+      return sendError(res, 400, "invalid_role");
+    }
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+      return sendError(res, 400, "weak_password");
+    }
+    if (id === req.admin!.id && role && role !== req.admin!.role) {
+      return sendError(res, 409, "cannot_change_own_role");
+    }
+
+    try {
+      const passwordHash = password ? await hashPassword(password) : null;
+      const user = await withTransaction(async (client) => {
+        const before = await client.query<AdminUser>(
+          `SELECT ${ADMIN_USER_COLUMNS} FROM admin_users WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        const { rows } = await client.query<AdminUser>(
+          `UPDATE admin_users
+              SET role = COALESCE($2, role),
+                  password_hash = COALESCE($3, password_hash)
+            WHERE id = $1
+            RETURNING ${ADMIN_USER_COLUMNS}`,
+          [id, role ?? null, passwordHash],
+        );
+        if (passwordHash) {
+          await client.query(
+            "DELETE FROM admin_sessions WHERE user_id = $1 AND token_hash <> $2",
+            [id, req.admin!.tokenHash],
+          );
+        }
+        await writeAudit(client, req, {
+          action: passwordHash ? "admin_user.password" : "admin_user.update",
+          entityType: "admin_user",
+          entityId: id,
+          before: before.rows[0],
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      if (!user) return sendError(res, 404, "not_found");
+      return res.json(user);
+    } catch (err) {
+      console.error("PUT /api/admin/users/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * DELETE /api/admin/users/:id (owner)
+ * Owners cannot delete their own account.
+ */
+app.delete(
+  "/api/admin/users/:id",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    if (id === req.admin!.id) return sendError(res, 409, "cannot_delete_self");
+    try {
+      const deleted = await withTransaction(async (client) => {
+        const { rows } = await client.query<AdminUser>(
+          `DELETE FROM admin_users WHERE id = $1 RETURNING ${ADMIN_USER_COLUMNS}`,
+          [id],
+        );
+        if (!rows[0]) return false;
+        await writeAudit(client, req, {
+          action: "admin_user.delete",
+          entityType: "admin_user",
+          entityId: id,
+          before: rows[0],
+        });
+        return true;
+      });
+      if (!deleted) return sendError(res, 404, "not_found");
+      return res.json({ ok: true });
+    } catch (err) {
+      console.error("DELETE /api/admin/users/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/audit (admin)
+ * Query params:
+ *   - action: exact action, e.g. "format.status"
+ *   - entityType: exact entity type, e.g. "format"
+ *   - entityId: exact entity id
+ *   - actor: admin username (case-insensitive)
+ *   - since / until: ISO timestamps bounding created_at
+ *   - before: only entries with an id lower than this (pagination cursor)
+ *   - limit: page size, 1-200 (default 50)
+ * Returns newest entries first.
+ */
+app.get("/api/audit", requireAdmin, async (req: Request, res: Response) => {
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const filters: [string, string][] = [
+    ["action = $", str(req.query.action)],
+    ["entity_type = $", str(req.query.entityType)],
+    ["entity_id = $", str(req.query.entityId)],
+    ["lower(actor_username) = lower($)", str(req.query.actor)],
+    ["created_at >= $::timestamptz", str(req.query.since)],
+    ["created_at <= $::timestamptz", str(req.query.until)],
+    ["id < $::bigint", str(req.query.before)],
+  ];
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+  const whereClauses: string[] = [];
+  const values: unknown[] = [];
+  for (const [clause, value] of filters) {
+    if (!value) continue;
+    values.push(value);
+    whereClauses.push(clause.replace("$", () => `$${values.length}`));
+  }
+  const whereSql = whereClauses.length
+    ? `WHERE ${whereClauses.join(" AND ")}`
+    : "";
+  values.push(limit);
+
+  try {
+    const { rows } = await pool.query<AuditRow>(
+      `SELECT id, actor_id, actor_username, action, entity_type, entity_id, before, after, created_at
+         FROM audit_log ${whereSql}
+        ORDER BY id DESC
+        LIMIT $${values.length}`,
+      values,
+    );
+    return res.json(rows);
+  } catch (err: any) {
+    console.error("GET /api/audit error:", err);
+    // 22007/22008: malformed timestamp, 22P02: malformed cursor
+    if (["22007", "22008", "22P02"].includes(err?.code)) {
+      return sendError(res, 400, "invalid_filter");
+    }
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * GET /api/statuses
+ * Returns the board's lifecycle: { statuses, transitions }, limited to the
+ * statuses the board uses.
+ */
+app.get(boardPaths("/statuses"), loadBoard, (req: Request, res: Response) => {
+  const board = req.board!;
+  return res.json({
+    statuses: board.statuses,
+    transitions: Object.fromEntries(
+      board.statuses.map((s) => [
+        s,
+        allowedTransitions(req.taxonomy!, board, s),
+      ]),
+    ),
+  });
+});
+
+/**
+ * GET /api/taxonomy
+ * The kinds and statuses the board uses, in display order: { kinds, statuses }.
+ * Each entry carries its key, label, color, position, voting_open and
+ * visible; statuses also their `transitions` on the board and whether they
+ * are `initial`.
+ */
+app.get(boardPaths("/taxonomy"), loadBoard, (req: Request, res: Response) => {
+  const board = req.board!;
+  const taxonomy = req.taxonomy!;
+  return res.json({
+    kinds: taxonomy.kinds.filter((k) => board.kinds.includes(k.key)),
+    statuses: taxonomy.statuses
+      .filter((s) => board.statuses.includes(s.key))
+      .map((s) => ({
+        ...s,
+        transitions: allowedTransitions(taxonomy, board, s.key),
+      })),
+  });
+});
+
+/**
+ * GET /api/formats/:id/history
+ * Returns the status history oldest first. Each entry carries `left_at` (when
+ * the next status was entered, null for the current one) and
+ * `duration_seconds` spent in that status so far. Hidden formats are 404
+ * except for board admins.
+ */
+app.get(
+  boardPaths("/formats/:id/history"),
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      if (!(await canSeeFormat(req, id))) {
+        return sendError(res, 404, "not_found");
+      }
+      const { rows } = await pool.query<
+        StatusHistoryRow & { left_at: string | null; duration_seconds: number }
+      >(
+        `SELECT h.id, h.format_id, h.from_status, h.to_status, h.changed_by, h.changed_at,
+              lead(h.changed_at) OVER w AS left_at,
+              EXTRACT(EPOCH FROM (COALESCE(lead(h.changed_at) OVER w, now()) - h.changed_at))::float8 AS duration_seconds
+         FROM format_status_history h
+        WHERE h.format_id = $1
+       WINDOW w AS (ORDER BY h.changed_at ASC, h.id ASC)
+        ORDER BY h.changed_at ASC, h.id ASC`,
+        [id],
+      );
+      return res.json(rows);
+    } catch (err) {
+      console.error("GET /api/formats/:id/history error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/formats/:id/trend
+ * Query params:
+ *   - bucket: day (default) or week
+ *   - periods: number of buckets, 1..90 (default 14 days or 12 weeks)
+ * Returns { id, bucket, buckets: [{ start, votes }], recent, previous,
+ * momentum }. Buckets count the current votes by when they were cast, oldest
+ * first; momentum is `recent` (votes in the last day/week) minus `previous`
+ * (the day/week before).
+ */
+app.get(
+  boardPaths("/formats/:id/trend"),
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const trend = parseTrendQuery(req);
+    if (!trend) return sendError(res, 400, "invalid_bucket");
+    try {
+      const { rows } = await pool.query<{
+        id: string;
+        kind: string;
+        status: string;
+        buckets: { start: string; votes: number }[];
+        recent: number;
+        previous: number;
+        momentum: number;
+      }>(
+        `SELECT formats.id, formats.kind, formats.status,
+              ${trendBucketsSql("formats.id", "$2::text", "$3::int")} AS buckets,
+              trend.recent, trend.previous, trend.momentum
+         FROM formats ${trendLateralSql("$2::text")}
+        WHERE formats.id = $1`,
+        [id, trend.bucket, trend.periods],
+      );
+      const row = rows[0];
+      if (!row || (!req.boardAdmin && !isPublicFormat(req.taxonomy!, row))) {
+        return sendError(res, 404, "not_found");
+      }
+      return res.json({
+        id: row.id,
+        bucket: trend.bucket,
+        buckets: row.buckets,
+        recent: row.recent,
+        previous: row.previous,
+        momentum: row.momentum,
+      });
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("GET /api/formats/:id/trend error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/trends/movers
+ * Query params:
+ *   - bucket: day (default) or week, also the momentum window
+ *   - periods: buckets per format, 1..90 (default 14 days or 12 weeks)
+ *   - direction: up (default, biggest gains first) or down (biggest drops)
+ *   - limit: 1..50 (default 10)
+ * Returns { bucket, direction, items }, where items are public formats whose
+ * momentum moved in that direction, each with its `buckets`, `recent`,
+ * `previous` and `momentum` as in GET /api/formats/:id/trend.
+ */
+app.get(
+  boardPaths("/trends/movers"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const trend = parseTrendQuery(req);
+    if (!trend) return sendError(res, 400, "invalid_bucket");
+    const direction = req.query.direction === "down" ? "down" : "up";
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || DEFAULT_MOVERS, 1),
+      MAX_MOVERS,
+    );
+    const hidden = hiddenKeys(req.taxonomy!);
+    try {
+      const { rows } = await pool.query(
+        `SELECT formats.id, formats.name, formats.kind, formats.status, formats.votes,
+              ${trendBucketsSql("formats.id", "$1::text", "$2::int")} AS buckets,
+              trend.recent, trend.previous, trend.momentum
+         FROM formats ${trendLateralSql("$1::text")}
+        WHERE formats.status <> ALL($3::text[])
+          AND formats.kind <> ALL($7::text[])
+          AND formats.board_id = $6
+          AND CASE WHEN $4::text = 'up' THEN trend.momentum > 0 ELSE trend.momentum < 0 END
+        ORDER BY CASE WHEN $4::text = 'up' THEN trend.momentum ELSE -trend.momentum END DESC,
+                 formats.votes DESC, formats.name ASC, formats.id ASC
+        LIMIT $5`,
+        [
+          trend.bucket,
+          trend.periods,
+          hidden.statuses,
+          direction,
+          limit,
+          req.board!.id,
+          hidden.kinds,
+        ],
+      );
+      return res.json({ bucket: trend.bucket, direction, items: rows });
+    } catch (err) {
+      console.error("GET /api/trends/movers error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/changelog.atom, /api/changelog.rss, /api/changelog.json
+ * The latest public lifecycle events of a board as Atom 1.0, RSS 2.0 or JSON
+ * Feed 1.1, built from the status history. Optional `kind` narrows the feed.
+ */
+app.get(
+  boardPaths("/changelog.atom"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const kind =
+      typeof req.query.kind === "string" ? req.query.kind.trim() : "";
+    const base = feedBaseUrl(req);
+    try {
+      const entries = await loadChangelog(req.board!.id, kind, req.taxonomy!);
+      const self = `${base}${req.originalUrl}`;
+      const updated = entries[0]
+        ? new Date(entries[0].changed_at).toISOString()
+        : new Date(0).toISOString();
+      const body = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feedId(req.board!, kind))}</id>
+  <title>${escapeXml(feedTitle(req.board!, kind))}</title>
+  <updated>${updated}</updated>
+  <link rel="self" href="${escapeXml(self)}"/>
+  <link rel="alternate" href="${escapeXml(boardHomeUrl(base, req.board!))}"/>
+${entries
+  .map(
+    (e) => `  <entry>
+    <id>${changelogEntryId(e)}</id>
+    <title>${escapeXml(changelogTitle(e))}</title>
+    <updated>${new Date(e.changed_at).toISOString()}</updated>
+    <link href="${escapeXml(`${base}/formats/${e.format_id}`)}"/>
+    <category term="${escapeXml(e.kind)}"/>
+    <summary>${escapeXml(changelogSummary(e))}</summary>
+    <author><name>Format Poker</name></author>
+  </entry>`,
+  )
+  .join("\n")}
+</feed>
+`;
+      res.type("application/atom+xml");
+      return res.send(body);
+    } catch (err) {
+      console.error("GET /api/changelog.atom error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+app.get(
+  boardPaths("/changelog.rss"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const kind =
+      typeof req.query.kind === "string" ? req.query.kind.trim() : "";
+    const base = feedBaseUrl(req);
+    try {
+      const entries = await loadChangelog(req.board!.id, kind, req.taxonomy!);
+      const body = `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${escapeXml(feedTitle(req.board!, kind))}</title>
+    <link>${escapeXml(boardHomeUrl(base, req.board!))}</link>
+    <description>New formats and status changes in the Format Poker catalog</description>
+${entries
+  .map(
+    (e) => `    <item>
+      <guid isPermaLink="false">${changelogEntryId(e)}</guid>
+      <title>${escapeXml(changelogTitle(e))}</title>
+      <link>${escapeXml(`${base}/formats/${e.format_id}`)}</link>
+      <category>${escapeXml(e.kind)}</category>
+      <description>${escapeXml(changelogSummary(e))}</description>
+      <pubDate>${new Date(e.changed_at).toUTCString()}</pubDate>
+    </item>`,
+  )
+  .join("\n")}
+  </channel>
+</rss>
+`;
+      res.type("application/rss+xml");
+      return res.send(body);
+    } catch (err) {
+      console.error("GET /api/changelog.rss error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+app.get(
+  boardPaths("/changelog.json"),
+  loadBoard,
+  async (req: Request, res: Response) => {
+    const kind =
+      typeof req.query.kind === "string" ? req.query.kind.trim() : "";
+    const base = feedBaseUrl(req);
+    try {
+      const entries = await loadChangelog(req.board!.id, kind, req.taxonomy!);
+      res.type("application/feed+json");
+      return res.send(
+        JSON.stringify({
+          version: "https://jsonfeed.org/version/1.1",
+          title: feedTitle(req.board!, kind),
+          home_page_url: boardHomeUrl(base, req.board!),
+          feed_url: `${base}${req.originalUrl}`,
+          items: entries.map((e) => ({
+            id: changelogEntryId(e),
+            url: `${base}/formats/${e.format_id}`,
+            title: changelogTitle(e),
+            content_text: changelogSummary(e),
+            date_published: new Date(e.changed_at).toISOString(),
+            tags: [e.kind, e.to_status],
+          })),
+        }),
+      );
+    } catch (err) {
+      console.error("GET /api/changelog.json error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/formats/:id
+ * IDs of formats that were merged away answer with a 301 to the canonical one.
+ * Hidden formats are 404 except for board admins.
+ */
+app.get(
+  boardPaths("/formats/:id"),
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      const { rows } = await pool.query<FormatRow>(
+        `SELECT ${FORMAT_READ_COLUMNS}, ${SPARKLINE_SQL} FROM formats WHERE id = $1`,
+        [id],
+      );
+      if (!rows || rows.length === 0) {
+        const redirect = await pool.query<{ format_id: string }>(
+          "SELECT format_id FROM format_redirects WHERE old_id = $1",
+          [id],
+        );
+        if (redirect.rows[0]) {
+          return res.redirect(
+            301,
+            `${boardApiBase(req)}/formats/${redirect.rows[0].format_id}`,
+          );
+        }
+        return sendError(res, 404, "not_found");
+      }
+      if (!req.boardAdmin && !isPublicFormat(req.taxonomy!, rows[0])) {
+        return sendError(res, 404, "not_found");
+      }
+      return res.json(rows[0]);
+    } catch (err) {
+      console.error("GET /api/formats/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats (moderator)
+ * body: { name, kind, status } plus the optional metadata lists accepted by
+ * PUT /api/formats/:id/metadata. Kind and status must be ones the board uses.
+ */
+app.post(
+  boardPaths("/formats"),
+  loadBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const board = req.board!;
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    const kind = typeof req.body?.kind === "string" ? req.body.kind.trim() : "";
+    const status =
+      typeof req.body?.status === "string" ? req.body.status.trim() : "";
+
+    if (!name || !kind || !status) return sendError(res, 400, "missing_fields");
+    if (!board.kinds.includes(kind)) return sendError(res, 400, "invalid_kind");
+    if (!board.statuses.includes(status)) {
+      return sendError(res, 400, "invalid_status");
+    }
+    const parsed = parseMetadata(req.body);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_metadata", parsed.error);
+    }
+
+    try {
+      const aliasOwner = await findAliasOwner(pool, name, board.id);
+      if (aliasOwner) {
+        return sendError(res, 409, "duplicate_name", { format_id: aliasOwner });
+      }
+      const row = await withTransaction(async (client) => {
+        const { rows } = await client.query<FormatRow>(
+          `INSERT INTO formats (board_id, name, kind, status) VALUES ($1, $2, $3, $4) RETURNING ${FORMAT_COLUMNS}`,
+          [board.id, name, kind, status],
+        );
+        await recordStatusChange(
+          client,
+          rows[0].id,
+          null,
+          status,
+          req.admin!.username,
+        );
+        await applyMetadata(client, rows[0].id, name, parsed.metadata);
+        const created = await client.query<FormatRow>(
+          `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1`,
+          [rows[0].id],
+        );
+        await writeAudit(client, req, {
+          action: "format.create",
+          entityType: "format",
+          entityId: rows[0].id,
+          after: created.rows[0],
+        });
+        await enqueueWebhookEvent(client, "format.created", {
+          format: created.rows[0],
+        });
+        return created.rows[0];
+      });
+      void broadcastFormat(row.id, "format.created");
+      return res.status(201).json(row);
+    } catch (err: any) {
+      if (err instanceof MetadataConflictError) {
+        return sendError(res, 409, "metadata_conflict", {
+          field: err.field,
+          value: err.value,
+        });
+      }
+      if (err?.code === "23505") return sendError(res, 409, "duplicate_name");
+      console.error("POST /api/formats error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/formats/:id/metadata (moderator)
+ * body: any of { mimeTypes, extensions, specUrls, aliases, codecIds,
+ *                containerIds } (arrays of strings)
+ * Each field present replaces the stored list; absent fields are untouched.
+ * Extensions are stored lowercase without the leading dot.
+ */
+app.put(
+  boardPaths("/formats/:id/metadata"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const parsed = parseMetadata(req.body);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_metadata", parsed.error);
+    }
+    if (Object.keys(parsed.metadata).length === 0) {
+      return sendError(res, 400, "missing_fields");
+    }
+
+    try {
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        await applyMetadata(client, id, before.rows[0].name, parsed.metadata);
+        const after = await client.query<FormatRow>(
+          `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1`,
+          [id],
+        );
+        await writeAudit(client, req, {
+          action: "format.metadata",
+          entityType: "format",
+          entityId: id,
+          before: before.rows[0],
+          after: after.rows[0],
+        });
+        return after.rows[0];
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      void broadcastFormat(id, "format.updated");
+      return res.json(row);
+    } catch (err: any) {
+      if (err instanceof MetadataConflictError) {
+        return sendError(res, 409, "metadata_conflict", {
+          field: err.field,
+          value: err.value,
+        });
+      }
+      if (err?.code === "23505") {
+        return sendError(res, 409, "metadata_conflict", { field: "aliases" });
+      }
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("PUT /api/formats/:id/metadata error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PATCH /api/formats/:id (moderator)
+ * body: any of { name, kind, estimate } plus the metadata lists accepted by
+ * PUT /api/formats/:id/metadata and the RICE inputs `reach` (whole number),
+ * `impact` (0-10, e.g. 0.25 to 3), `confidence` (percent) and `effort`
+ * (person-months); null resets an input to its default. Fields left out are
+ * not changed; votes, comments and history stay with the row. Status changes
+ * go through PUT /api/formats/:id/status so the lifecycle is enforced.
+ */
+app.patch(
+  boardPaths("/formats/:id"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const body = req.body ?? {};
+    if (body.status !== undefined) {
+      return sendError(res, 400, "status_not_patchable");
+    }
+    const name = typeof body.name === "string" ? body.name.trim() : body.name;
+    const kind = typeof body.kind === "string" ? body.kind.trim() : body.kind;
+    const estimate =
+      typeof body.estimate === "string" ? body.estimate.trim() : body.estimate;
+    if (name !== undefined && (typeof name !== "string" || !name)) {
+      return sendError(res, 400, "invalid_name");
+    }
+    if (
+      kind !== undefined &&
+      (typeof kind !== "string" || !req.board!.kinds.includes(kind))
+    ) {
+      return sendError(res, 400, "invalid_kind");
+    }
+    if (
+      estimate !== undefined &&
+      estimate !== null &&
+      (typeof estimate !== "string" || !estimate)
+    ) {
+      return sendError(res, 400, "invalid_estimate");
+    }
+    const parsed = parseMetadata(body);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_metadata", parsed.error);
+    }
+    const scoring = parsePriority(body);
+    if ("error" in scoring) {
+      return sendError(res, 400, "invalid_priority", scoring.error);
+    }
+    if (
+      name === undefined &&
+      kind === undefined &&
+      estimate === undefined &&
+      Object.keys(parsed.metadata).length === 0 &&
+      Object.keys(scoring.priority).length === 0
+    ) {
+      return sendError(res, 400, "missing_fields");
+    }
+
+    try {
+      if (name !== undefined) {
+        const aliasOwner = await findAliasOwner(pool, name, req.board!.id);
+        if (aliasOwner && aliasOwner !== id) {
+          return sendError(res, 409, "duplicate_name", {
+            format_id: aliasOwner,
+          });
+        }
+      }
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        const values: unknown[] = [
+          id,
+          name ?? null,
+          kind ?? null,
+          estimate !== undefined,
+          estimate ?? null,
+        ];
+        // Column names come from PRIORITY_FIELDS, never from the request
+        const prioritySets = Object.entries(scoring.priority).map(
+          ([field, value]) => {
+            values.push(value);
+            return `, ${field} = $${values.length}`;
+          },
+        );
+        await client.query(
+          `UPDATE formats
+              SET name = COALESCE($2, name),
+                  kind = COALESCE($3, kind),
+                  estimate = CASE WHEN $4 THEN $5 ELSE estimate END
+                  ${prioritySets.join("")}
+            WHERE id = $1`,
+          values,
+        );
+        if (name !== undefined) {
+          // The new name may have been one of this format's own aliases
+          await client.query(
+            "DELETE FROM format_aliases WHERE format_id = $1 AND lower(alias) = lower($2)",
+            [id, name],
+          );
+        }
+        await applyMetadata(
+          client,
+          id,
+          name ?? before.rows[0].name,
+          parsed.metadata,
+        );
+        const after = await client.query<FormatRow>(
+          `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1`,
+          [id],
+        );
+        await writeAudit(client, req, {
+          action: "format.update",
+          entityType: "format",
+          entityId: id,
+          before: before.rows[0],
+          after: after.rows[0],
+        });
+        return after.rows[0];
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      void broadcastFormat(id, "format.updated");
+      return res.json(row);
+    } catch (err: any) {
+      if (err instanceof MetadataConflictError) {
+        return sendError(res, 409, "metadata_conflict", {
+          field: err.field,
+          value: err.value,
+        });
+      }
+      if (err?.code === "23505") return sendError(res, 409, "duplicate_name");
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("PATCH /api/formats/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/admin/formats/export?format=csv|json (moderator)
+ * The board's whole catalog, hidden statuses included, in CSV (default) or
+ * JSON.
+ * Columns: CATALOG_COLUMNS; list cells in CSV are joined with "; " and codecs
+ * are given by name, so the file can be edited and re-imported.
+ */
+app.get(
+  boardPaths("/admin/formats/export"),
+  loadBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const format = req.query.format === "json" ? "json" : "csv";
+    try {
+      const { rows } = await pool.query<FormatRow>(
+        `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE board_id = $1 ORDER BY lower(name)`,
+        [req.board!.id],
+      );
+      const records = rows.map((r) => ({
+        name: r.name,
+        kind: r.kind,
+        status: r.status,
+        votes: r.votes,
+        estimate: r.estimate,
+        aliases: r.aliases ?? [],
+        mime_types: r.mime_types,
+        extensions: r.extensions,
+        spec_urls: r.spec_urls,
+        codecs: (r.codecs ?? []).map((c) => c.name),
+        created_at: new Date(r.created_at).toISOString(),
+      }));
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="formats-${req.board!.slug}-${stamp}.${format}"`,
+      );
+      if (format === "json") return res.json(records);
+
+      const lines = [
+        CATALOG_COLUMNS.join(","),
+        ...records.map((r) =>
+          CATALOG_COLUMNS.map((key) => {
+            const value = r[key];
+            if (Array.isArray(value)) {
+              return toCsvCell(value.join(CSV_LIST_SEPARATOR));
+            }
+            return toCsvCell(value === null ? "" : String(value));
+          }).join(","),
+        ),
+      ];
+      res.type("text/csv");
+      return res.send(lines.join("\r\n") + "\r\n");
+    } catch (err) {
+      console.error("GET /api/admin/formats/export error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/formats/import?mode=insert|upsert&dryRun=true (moderator)
+ * body: CSV (Content-Type text/csv, header row with CATALOG_COLUMNS names)
+ *       or JSON (an array of records, or { formats: [...] }) as exported.
+ * Required per row: name, kind, status (a kind and status the board uses).
+ * Names and codecs refer to formats on the same board. Votes only seed newly
+ * inserted formats, as imported votes that recounts keep; created_at is
+ * ignored. mode=insert (default) treats an existing name as an error;
+ * mode=upsert updates it, with status changes checked against the board's
+ * lifecycle and applied like PUT /formats/:id/status (history, submission
+ * decision, audit entry, webhooks). The import is all-or-nothing: any row error
+ * rolls everything back and is reported with its row number (422
+ * `invalid_rows`). dryRun=true validates and reports without writing.
+ */
+app.post(
+  boardPaths("/admin/formats/import"),
+  loadBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const board = req.board!;
+    const taxonomy = req.taxonomy!;
+    const mode = req.query.mode === "upsert" ? "upsert" : "insert";
+    const dryRun = req.query.dryRun === "true" || req.query.dryRun === "1";
+    const input = readCatalogRecords(req.body);
+    if (!input) return sendError(res, 400, "invalid_body");
+    if (input.records.length === 0) return sendError(res, 400, "no_rows");
+
+    const errors: ImportError[] = [];
+    const rows: ImportRow[] = [];
+    const seen = new Map<string, number>();
+    input.records.forEach((record, i) => {
+      const parsed = parseImportRow(record, i + input.firstRow, board);
+      if ("error" in parsed) {
+        errors.push(parsed);
+        return;
+      }
+      const key = parsed.name.toLowerCase();
+      if (seen.has(key)) {
+        errors.push({
+          row: parsed.line,
+          error: "duplicate_in_file",
+          field: "name",
+          value: seen.get(key),
+        });
+        return;
+      }
+      seen.set(key, parsed.line);
+      rows.push(parsed);
+    });
+
+    const inserted: string[] = [];
+    const updated: string[] = [];
+    const summary = () => ({
+      mode,
+      dryRun,
+      total: input.records.length,
+      inserted: inserted.length,
+      updated: updated.length,
+      errors: errors.sort((a, b) => a.row - b.row),
+    });
+
+    try {
+      await withTransaction(async (client) => {
+        const ids = new Map<ImportRow, string>();
+        for (const row of rows) {
+          await client.query("SAVEPOINT import_row");
+          try {
+            const existing = await client.query<FormatRow>(
+              `SELECT ${FORMAT_COLUMNS} FROM formats WHERE board_id = $1 AND lower(name) = lower($2) FOR UPDATE`,
+              [board.id, row.name],
+            );
+            const current = existing.rows[0];
+            const aliasOwner = await findAliasOwner(client, row.name, board.id);
+            if (aliasOwner && aliasOwner !== current?.id) {
+              errors.push({
+                row: row.line,
+                error: "duplicate_name",
+                field: "name",
+                value: row.name,
+              });
+              await client.query("ROLLBACK TO SAVEPOINT import_row");
+              continue;
+            }
+
+            if (current && mode === "insert") {
+              errors.push({
+                row: row.line,
+                error: "already_exists",
+                field: "name",
+                value: row.name,
+              });
+              await client.query("ROLLBACK TO SAVEPOINT import_row");
+              continue;
+            }
+
+            if (current) {
+              if (current.status !== row.status) {
+                const allowed = allowedTransitions(
+                  taxonomy,
+                  board,
+                  current.status,
+                );
+                if (!allowed.includes(row.status)) {
+                  errors.push({
+                    row: row.line,
+                    error: "invalid_transition",
+                    field: "status",
+                    value: { from: current.status, to: row.status, allowed },
+                  });
+                  await client.query("ROLLBACK TO SAVEPOINT import_row");
+                  continue;
+                }
+                await changeStatus(client, req, current, row.status, {
+                  action: "format.status",
+                });
+              }
+              await client.query(
+                `UPDATE formats
+                    SET name = $2, kind = $3, status = $4,
+                        estimate = CASE WHEN $5 THEN $6 ELSE estimate END
+                  WHERE id = $1`,
+                [
+                  current.id,
+                  row.name,
+                  row.kind,
+                  row.status,
+                  row.estimate !== undefined,
+                  row.estimate ?? null,
+                ],
+              );
+              ids.set(row, current.id);
+            } else {
+              const created = await client.query<{ id: string }>(
+                `INSERT INTO formats (board_id, name, kind, status, votes, imported_votes, estimate)
+                 VALUES ($1, $2, $3, $4, $5, $5, $6) RETURNING id`,
+                [
+                  board.id,
+                  row.name,
+                  row.kind,
+                  row.status,
+                  row.votes ?? 0,
+                  row.estimate ?? null,
+                ],
+              );
+              await recordStatusChange(
+                client,
+                created.rows[0].id,
+                null,
+                row.status,
+                req.admin!.username,
+              );
+              ids.set(row, created.rows[0].id);
+            }
+            await applyMetadata(client, ids.get(row)!, row.name, row.metadata);
+            await client.query("RELEASE SAVEPOINT import_row");
+            (current ? updated : inserted).push(row.name);
+          } catch (err: any) {
+            if (
+              !(err instanceof MetadataConflictError) &&
+              err?.code !== "23505"
+            ) {
+              throw err;
+            }
+            await client.query("ROLLBACK TO SAVEPOINT import_row");
+            ids.delete(row);
+            errors.push(
+              err instanceof MetadataConflictError
+                ? {
+                    row: row.line,
+                    error: "metadata_conflict",
+                    field: err.field,
+                    value: err.value,
+                  }
+                : { row: row.line, error: "duplicate_name", field: "name" },
+            );
+          }
+        }
+
+        // Codecs are named, so they resolve once every row of the file exists
+        for (const [row, id] of ids) {
+          if (!row.codecs) continue;
+          const found = await client.query<{ id: string; key: string }>(
+            `SELECT id, lower(name) AS key FROM formats
+              WHERE board_id = $2 AND lower(name) = ANY($1::text[])
+             UNION
+             SELECT a.format_id, lower(a.alias) FROM format_aliases a
+               JOIN formats f ON f.id = a.format_id
+              WHERE f.board_id = $2 AND lower(a.alias) = ANY($1::text[])`,
+            [row.codecs.map((c) => c.toLowerCase()), board.id],
+          );
+          const missing = row.codecs.find(
+            (c) => !found.rows.some((f) => f.key === c.toLowerCase()),
+          );
+          if (missing) {
+            errors.push({
+              row: row.line,
+              error: "unknown_codec",
+              field: "codecs",
+              value: missing,
+            });
+            continue;
+          }
+          try {
+            await applyMetadata(client, id, row.name, {
+              codecIds: Array.from(new Set(found.rows.map((f) => f.id))),
+            });
+          } catch (err) {
+            if (!(err instanceof MetadataConflictError)) throw err;
+            errors.push({
+              row: row.line,
+              error: "metadata_conflict",
+              field: "codecs",
+              value: row.name,
+            });
+          }
+        }
+
+        if (errors.length > 0 || dryRun) throw new ImportRollback(summary());
+        await writeAudit(client, req, {
+          action: "format.import",
+          entityType: "format",
+          after: { mode, inserted, updated },
+        });
+      });
+      // Too many rows to send one by one: tell clients to reload instead
+      broadcastEvent("reset", {}, board.id);
+      return res.json(summary());
+    } catch (err) {
+      if (err instanceof ImportRollback) {
+        return errors.length > 0
+          ? sendError(res, 422, "invalid_rows", err.result)
+          : res.json(err.result);
+      }
+      console.error("POST /api/admin/formats/import error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/formats/:id/status (moderator)
+ * body: { status: string }
+ * Only moves allowed by the taxonomy's transitions between statuses the board
+ * uses are accepted; anything else is a 409 `invalid_transition` carrying `from`,
+ * `to` and the `allowed` targets.
+ */
+app.put(
+  boardPaths("/formats/:id/status"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const board = req.board!;
+    const status =
+      typeof req.body?.status === "string" ? req.body.status.trim() : "";
+    if (!status) return sendError(res, 400, "missing_status");
+    if (!board.statuses.includes(status)) {
+      return sendError(res, 400, "invalid_status");
+    }
+
+    const taxonomy = req.taxonomy!;
+    let wasHidden = false;
+    try {
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        const from = before.rows[0].status;
+        wasHidden = !isPublicFormat(taxonomy, before.rows[0]);
+        const allowed = allowedTransitions(taxonomy, board, from);
+        if (!allowed.includes(status)) {
+          return { from, allowed };
+        }
+        return changeStatus(client, req, before.rows[0], status, {
+          action: "format.status",
+        });
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      if ("allowed" in row) {
+        return sendError(res, 409, "invalid_transition", {
+          from: row.from,
+          to: status,
+          allowed: row.allowed,
+        });
+      }
+      void broadcastFormat(id, wasHidden ? "format.created" : "format.updated");
+      return res.json(row);
+    } catch (err) {
+      console.error("PUT /api/formats/:id/status error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * DELETE /api/formats/:id (owner)
+ */
+app.delete(
+  boardPaths("/formats/:id"),
+  loadFormatBoard,
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      const deleted = await withTransaction(async (client) => {
+        await decideSubmission(client, [id], "deleted", req.admin!.username);
+        await client.query("DELETE FROM votes WHERE format_id = $1", [id]);
+        const { rows } = await client.query<FormatRow>(
+          `DELETE FROM formats WHERE id = $1 RETURNING ${FORMAT_COLUMNS}`,
+          [id],
+        );
+        if (rows[0]) {
+          await writeAudit(client, req, {
+            action: "format.delete",
+            entityType: "format",
+            entityId: id,
+            before: rows[0],
+          });
+          await enqueueWebhookEvent(client, "format.deleted", {
+            format: rows[0],
+          });
+        }
+        return rows[0];
+      });
+      if (deleted) {
+        broadcastEvent("format.deleted", { id }, deleted.board_id);
+      }
+      return res.json({ ok: true });
+    } catch (err) {
+      console.error("DELETE /api/formats/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * Fold the source formats into `id` (the canonical format) inside the
+ * caller's transaction: votes and "notify me" subscriptions move over (one
+ * per device), comments move over, source names and aliases become aliases
+ * of the canonical format, MIME types, extensions, spec links and
+ * codec/container relations are combined, the vote counter is recomputed
+ * from the votes table, and the source IDs redirect to the canonical one.
+ * Submissions behind the sources are marked merged, with `reason`. Returns
+ * null unless all of them are on the request's board.
+ */
+async function mergeFormats(
+  client: PoolClient,
+  req: Request,
+  id: string,
+  sourceIds: string[],
+  reason: string | null = null,
+): Promise<FormatRow | null> {
+  const locked = await client.query<FormatRow>(
+    `SELECT ${FORMAT_READ_COLUMNS} FROM formats
+        WHERE id = ANY($1::uuid[]) AND board_id = $2
+        ORDER BY id
+        FOR UPDATE`,
+    [[id, ...sourceIds], req.board!.id],
+  );
+  const canonical = locked.rows.find((r) => r.id === id);
+  const sources = locked.rows.filter((r) => r.id !== id);
+  if (!canonical || sources.length !== sourceIds.length) return null;
+
+  // Votes: keep the earliest vote per device, skip devices that already
+  // voted for the canonical format
+  await client.query(
+    `INSERT INTO votes (device_id, format_id, created_at)
+       SELECT device_id, $1, min(created_at)
+         FROM votes
+        WHERE format_id = ANY($2::uuid[])
+        GROUP BY device_id
+       ON CONFLICT DO NOTHING`,
+    [id, sourceIds],
+  );
+  await client.query(
+    `INSERT INTO notification_subscriptions (device_id, format_id, created_at)
+       SELECT device_id, $1, min(created_at)
+         FROM notification_subscriptions
+        WHERE format_id = ANY($2::uuid[])
+        GROUP BY device_id
+       ON CONFLICT DO NOTHING`,
+    [id, sourceIds],
+  );
+  await client.query(
+    "UPDATE format_comments SET format_id = $1 WHERE format_id = ANY($2::uuid[])",
+    [id, sourceIds],
+  );
+
+  // Aliases: existing ones move over, then the source names join them
+  await client.query(
+    "UPDATE format_aliases SET format_id = $1 WHERE format_id = ANY($2::uuid[])",
+    [id, sourceIds],
+  );
+  await client.query(
+    `INSERT INTO format_aliases (format_id, board_id, alias)
+       SELECT $1, f.board_id, f.name FROM formats f
+        WHERE f.id = ANY($2::uuid[]) AND lower(f.name) <> lower($3)
+       ON CONFLICT DO NOTHING`,
+    [id, sourceIds, canonical.name],
+  );
+  await client.query(
+    "DELETE FROM format_aliases WHERE format_id = $1 AND lower(alias) = lower($2)",
+    [id, canonical.name],
+  );
+
+  // Technical metadata: union of the lists, relations re-pointed
+  await client.query(
+    `UPDATE formats
+          SET mime_types = ARRAY(SELECT DISTINCT v FROM formats s, unnest(s.mime_types) v WHERE s.id = ANY($2::uuid[])),
+              extensions = ARRAY(SELECT DISTINCT v FROM formats s, unnest(s.extensions) v WHERE s.id = ANY($2::uuid[])),
+              spec_urls = ARRAY(SELECT DISTINCT v FROM formats s, unnest(s.spec_urls) v WHERE s.id = ANY($2::uuid[]))
+        WHERE id = $1`,
+    [id, [id, ...sourceIds]],
+  );
+  await client.query(
+    `INSERT INTO format_relations (container_id, codec_id)
+       SELECT container_id, codec_id FROM (
+         SELECT CASE WHEN container_id = ANY($2::uuid[]) THEN $1 ELSE container_id END AS container_id,
+                CASE WHEN codec_id = ANY($2::uuid[]) THEN $1 ELSE codec_id END AS codec_id
+           FROM format_relations
+          WHERE container_id = ANY($2::uuid[]) OR codec_id = ANY($2::uuid[])
+       ) moved
+        WHERE container_id <> codec_id
+       ON CONFLICT DO NOTHING`,
+    [id, sourceIds],
+  );
+
+  // Redirects: earlier merges into a source now point at the canonical
+  await client.query(
+    "UPDATE format_redirects SET format_id = $1 WHERE format_id = ANY($2::uuid[])",
+    [id, sourceIds],
+  );
+  await client.query(
+    `INSERT INTO format_redirects (old_id, format_id)
+       SELECT unnest($2::uuid[]), $1`,
+    [id, sourceIds],
+  );
+
+  await decideSubmission(client, sourceIds, "merged", req.admin!.username, {
+    reason,
+    mergedInto: id,
+  });
+  // Imported votes have no devices to deduplicate, so they add up
+  await client.query(
+    `UPDATE formats
+        SET imported_votes = (SELECT sum(imported_votes) FROM formats WHERE id = ANY($2::uuid[]))
+      WHERE id = $1`,
+    [id, [id, ...sourceIds]],
+  );
+  await client.query("DELETE FROM formats WHERE id = ANY($1::uuid[])", [
+    sourceIds,
+  ]);
+  await client.query(
+    "UPDATE formats SET votes = imported_votes + (SELECT count(*) FROM votes WHERE format_id = $1) WHERE id = $1",
+    [id],
+  );
+  const after = await client.query<FormatRow>(
+    `SELECT ${FORMAT_READ_COLUMNS} FROM formats WHERE id = $1`,
+    [id],
+  );
+  await writeAudit(client, req, {
+    action: "format.merge",
+    entityType: "format",
+    entityId: id,
+    before: { ...canonical, merged: sources },
+    after: after.rows[0],
+  });
+  return after.rows[0];
+}
+
+/* Tell clients the sources are gone and the canonical format changed */
+function broadcastMerge(merged: FormatRow, sourceIds: string[]) {
+  for (const sourceId of sourceIds) {
+    broadcastEvent("format.deleted", { id: sourceId }, merged.board_id);
+  }
+  void broadcastFormat(merged.id, "format.updated");
+  broadcastEvent(
+    "merge",
+    { id: merged.id, mergedIds: sourceIds, votes: merged.votes },
+    merged.board_id,
+  );
+}
+
+/**
+ * POST /api/formats/:id/merge (moderator)
+ * body: { sourceIds: string[] }
+ * Folds the source formats into `:id` (see mergeFormats). Sources must be on
+ * the same board.
+ */
+app.post(
+  boardPaths("/formats/:id/merge"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const sourceIds: string[] = Array.isArray(req.body?.sourceIds)
+      ? Array.from(
+          new Set<string>(
+            req.body.sourceIds.filter((v: unknown) => typeof v === "string"),
+          ),
+        )
+      : [];
+    if (sourceIds.length === 0) return sendError(res, 400, "missing_sourceIds");
+    if (sourceIds.includes(id)) return sendError(res, 400, "merge_into_self");
+
+    try {
+      const merged = await withTransaction((client) =>
+        mergeFormats(client, req, id, sourceIds),
+      );
+      if (!merged) return sendError(res, 404, "not_found");
+      broadcastMerge(merged, sourceIds);
+      return res.json(merged);
+    } catch (err: any) {
+      console.error("POST /api/formats/:id/merge error:", err);
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_ids");
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/moderation (moderator)
+ * The moderation queue: formats still in the initial status, oldest first,
+ * each with its `submission` (null for formats not submitted publicly).
+ * `approveStatuses` and `rejectStatus` are the statuses the approve and
+ * reject actions may move them to on this board.
+ */
+app.get(
+  boardPaths("/moderation"),
+  loadBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const board = req.board!;
+    const targets = moderationTargets(req.taxonomy!, board);
+    const initial = initialStatus(req.taxonomy!);
+    try {
+      const { rows } = await pool.query<FormatRow>(
+        `SELECT ${FORMAT_READ_COLUMNS},
+                (SELECT json_build_object('submitted_at', s.submitted_at, 'decision', s.decision)
+                   FROM format_submissions s
+                  WHERE s.format_id = formats.id
+                  ORDER BY s.submitted_at DESC
+                  LIMIT 1) AS submission
+           FROM formats
+          WHERE board_id = $1 AND status = $2
+          ORDER BY created_at, id`,
+        [board.id, initial],
+      );
+      return res.json({
+        approveStatuses: targets.approve,
+        rejectStatus: targets.reject,
+        items: rows,
+      });
+    } catch (err) {
+      console.error("GET /api/moderation error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats/:id/approve (moderator)
+ * body: { status?: string, mergeInto?: string, reason?: string }
+ * Approves a format waiting in the initial status: it moves to `status` (one
+ * of the queue's approveStatuses, the first by default), or with `mergeInto`
+ * is folded into that existing format of the same board instead. 409
+ * `not_pending` once the format has left the initial status.
+ */
+app.post(
+  boardPaths("/formats/:id/approve"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const board = req.board!;
+    const reason = parseReason(req.body);
+    if (reason === undefined) return sendError(res, 400, "invalid_reason");
+    const mergeInto =
+      typeof req.body?.mergeInto === "string" ? req.body.mergeInto : "";
+    if (mergeInto === id) return sendError(res, 400, "merge_into_self");
+    const targets = moderationTargets(req.taxonomy!, board);
+    const status =
+      typeof req.body?.status === "string" && req.body.status.trim()
+        ? req.body.status.trim()
+        : targets.approve[0];
+    if (!mergeInto && !targets.approve.includes(status)) {
+      return sendError(res, 400, "invalid_status", {
+        allowed: targets.approve,
+      });
+    }
+
+    try {
+      const result = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        if (before.rows[0].status !== initialStatus(req.taxonomy!)) {
+          return "not_pending" as const;
+        }
+        if (mergeInto) {
+          const merged = await mergeFormats(
+            client,
+            req,
+            mergeInto,
+            [id],
+            reason,
+          );
+          return merged && { merged };
+        }
+        const row = await changeStatus(client, req, before.rows[0], status, {
+          action: "format.approve",
+          reason,
+        });
+        return { row };
+      });
+      if (!result) return sendError(res, 404, "not_found");
+      if (result === "not_pending") return sendError(res, 409, "not_pending");
+      if (result.merged) {
+        broadcastMerge(result.merged, [id]);
+        return res.json(result.merged);
+      }
+      void broadcastFormat(id, "format.created");
+      return res.json(result.row);
+    } catch (err: any) {
+      console.error("POST /api/formats/:id/approve error:", err);
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats/:id/reject (moderator)
+ * body: { reason: string }
+ * Rejects a format waiting in the initial status: it moves to the board's
+ * reject status (e.g. "Rejected") and is kept, hidden, with the reason shown
+ * to the submitter. 409 `not_pending` once the format has left the initial
+ * status, `no_reject_status` when the board has nowhere to reject to.
+ */
+app.post(
+  boardPaths("/formats/:id/reject"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const reason = parseReason(req.body);
+    if (reason === undefined) return sendError(res, 400, "invalid_reason");
+    if (!reason) return sendError(res, 400, "missing_reason");
+    const status = moderationTargets(req.taxonomy!, req.board!).reject;
+    if (!status) return sendError(res, 409, "no_reject_status");
+
+    try {
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        if (before.rows[0].status !== initialStatus(req.taxonomy!)) {
+          return "not_pending" as const;
+        }
+        return changeStatus(client, req, before.rows[0], status, {
+          action: "format.reject",
+          reason,
+        });
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      if (row === "not_pending") return sendError(res, 409, "not_pending");
+      void broadcastFormat(id, "format.updated");
+      return res.json(row);
+    } catch (err) {
+      console.error("POST /api/formats/:id/reject error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/submissions (device)
+ * The formats the caller's device submitted, on any board, newest first: the
+ * current `decision` with the moderator's `reason`, the format's current
+ * `status` and, for merged ones, the format they were `merged_into`.
+ */
+app.get(
+  "/api/submissions",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId!;
+    try {
+      const { rows } = await pool.query<SubmissionRow>(
+        `SELECT s.id, s.format_id, b.slug AS board, s.name, s.kind, f.status,
+              s.submitted_at, s.decision, s.reason, s.decided_at,
+              CASE WHEN m.id IS NULL THEN NULL
+                   ELSE json_build_object('id', m.id, 'name', m.name) END AS merged_into
+         FROM format_submissions s
+         JOIN boards b ON b.id = s.board_id
+         LEFT JOIN formats f ON f.id = s.format_id
+         LEFT JOIN formats m ON m.id = s.merged_into
+        WHERE s.device_id = $1
+        ORDER BY s.submitted_at DESC
+        LIMIT 100`,
+        [deviceId],
+      );
+      return res.json(rows);
+    } catch (err) {
+      console.error("GET /api/submissions error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/devices
+ * Issues a new device: returns { deviceId, token }, the token being what
+ * device requests carry. IDs are always minted here; one a client generated
+ * before tokens existed is never adopted, since nothing proves the caller
+ * held it. Rate limited per address, which is what bounds how many devices
+ * one client can hold.
+ */
+app.post(
+  "/api/devices",
+  rateLimit("device"),
+  async (req: Request, res: Response) => {
+    try {
+      const { rows } = await pool.query<{ id: string }>(
+        "INSERT INTO devices (id, created_ip) VALUES ($1, $2) RETURNING id",
+        [crypto.randomUUID(), req.ip ?? null],
+      );
+      const deviceId = rows[0].id;
+      return res.status(201).json({ deviceId, token: deviceToken(deviceId) });
+    } catch (err) {
+      console.error("POST /api/devices error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/challenge
+ * A proof-of-work challenge for POST /api/formats/submit: find a nonce such
+ * that sha256("<challenge>:<nonce>") starts with `bits` zero bits. With
+ * proof of work turned off it answers { challenge: null, bits: 0 }.
+ */
+app.get("/api/challenge", (_req: Request, res: Response) => {
+  res.set("Cache-Control", "no-store");
+  return res.json(
+    SUBMIT_POW_BITS === 0
+      ? { challenge: null, bits: 0 }
+      : { challenge: powChallenge(), bits: SUBMIT_POW_BITS },
+  );
+});
+
+/**
+ * GET /api/votes (device)
+ * Returns an array of format IDs that the caller's device has voted for.
+ */
+app.get("/api/votes", requireDevice, async (req: Request, res: Response) => {
+  const deviceId = req.deviceId!;
+  try {
+    const { rows } = await pool.query<{ format_id: string }>(
+      "SELECT format_id FROM votes WHERE device_id = $1",
+      [deviceId],
+    );
+    return res.json(rows.map((r) => r.format_id));
+  } catch (err) {
+    console.error("GET /api/votes error:", err);
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * POST /api/formats/:id/vote
+ * body: { deviceToken: string, voted?: boolean }
+ * toggles vote (insert/delete) and returns { voted, votes }. With `voted` the
+ * vote is set to that state instead, so replaying a queued vote is a no-op
+ * when it already holds. New votes need voting to be open for the format's
+ * kind and status (409 `voting_closed`); existing votes can always be taken
+ * back. Rate limited per address and device.
+ */
+app.post(
+  boardPaths("/formats/:id/vote"),
+  requireDevice,
+  rateLimit("vote"),
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const deviceId = req.deviceId!;
+    const wanted =
+      typeof req.body?.voted === "boolean" ? req.body.voted : undefined;
+
+    let client: PoolClient | undefined;
+    try {
+      client = await pool.connect();
+      await client.query("BEGIN");
+
+      const existsRes = await client.query(
+        "SELECT 1 FROM votes WHERE device_id = $1 AND format_id = $2",
+        [deviceId, id],
+      );
+      const exists = (existsRes.rowCount ?? 0) > 0;
+
+      if (wanted === exists) {
+        const current = await client.query<FormatRow>(
+          "SELECT votes FROM formats WHERE id = $1",
+          [id],
+        );
+        await client.query("COMMIT");
+        if (!current.rows[0]) return sendError(res, 404, "not_found");
+        return res.json({
+          voted: exists,
+          votes: Number(current.rows[0].votes || 0),
+        });
+      }
+
+      let voted: boolean;
+      if (!exists) {
+        const format = await client.query<FormatRow>(
+          "SELECT kind, status FROM formats WHERE id = $1",
+          [id],
+        );
+        if (format.rows[0] && !isVotable(req.taxonomy!, format.rows[0])) {
+          await client.query("ROLLBACK");
+          return sendError(res, 409, "voting_closed");
+        }
+        await client.query(
+          "INSERT INTO votes (device_id, format_id, ip) VALUES ($1, $2, $3)",
+          [deviceId, id, req.ip ?? null],
+        );
+        await client.query(
+          "UPDATE formats SET votes = votes + 1 WHERE id = $1",
+          [id],
+        );
+        voted = true;
+      } else {
+        await client.query(
+          "DELETE FROM votes WHERE device_id = $1 AND format_id = $2",
+          [deviceId, id],
+        );
+        // Subscriptions are only for formats the device votes for
+        await client.query(
+          "DELETE FROM notification_subscriptions WHERE device_id = $1 AND format_id = $2",
+          [deviceId, id],
+        );
+        await client.query(
+          "UPDATE formats SET votes = GREATEST(votes - 1, 0) WHERE id = $1",
+          [id],
+        );
+        voted = false;
+      }
+
+      const vres = await client.query<FormatRow>(
+        `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = $1`,
+        [id],
+      );
+      const votes = vres.rows[0] ? Number(vres.rows[0].votes || 0) : 0;
+      if (voted && vres.rows[0]) {
+        await enqueueWebhookEvent(
+          client,
+          "format.vote_threshold",
+          { format: vres.rows[0], votes },
+          { votes, formatId: id },
+        );
+      }
+      await client.query("COMMIT");
+      broadcastVote(id, votes, req.board!.id);
+      return res.json({ voted, votes });
+    } catch (err) {
+      if (client) {
+        try {
+          await client.query("ROLLBACK");
+        } catch {
+          // ignore rollback errors
+        }
+      }
+      console.error("POST /api/formats/:id/vote error:", err);
+      // 23503: the format no longer exists (deleted or merged away)
+      if (err instanceof Error && "code" in err && err.code === "23503") {
+        return sendError(res, 404, "not_found");
+      }
+      return sendError(res, 500, "db_error");
+    } finally {
+      if (client) client.release();
+    }
+  },
+);
+
+/* --- Vote bursts --- */
+
+/* Why a burst looks scripted: many votes per address, or from fresh devices */
+function burstFlags(b: VoteBurstRow): string[] {
+  const flags: string[] = [];
+  if (b.ips > 0 && (b.votes - b.unknown_ips) / b.ips >= 3) {
+    flags.push("few_addresses");
+  }
+  if (b.new_devices * 2 >= b.votes) flags.push("new_devices");
+  return flags;
+}
+
+/**
+ * GET /api/admin/vote-bursts?days=7 (moderator)
+ * Windows of 10 minutes in which one format of the board got at least 10
+ * votes, newest first. Each carries `flags` explaining why it looks scripted
+ * (`few_addresses`, `new_devices`), empty when it does not.
+ */
+app.get(
+  boardPaths("/admin/vote-bursts"),
+  loadBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const days =
+      typeof req.query.days === "string" ? Number(req.query.days) : 7;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_BURST_DAYS) {
+      return sendError(res, 400, "invalid_days");
+    }
+    try {
+      const { rows } = await pool.query<VoteBurstRow>(
+        `SELECT v.format_id, f.name,
+                to_timestamp(floor(extract(epoch FROM v.created_at) / $2::int) * $2::int) AS window_start,
+                count(*)::int AS votes,
+                count(DISTINCT v.ip)::int AS ips,
+                count(*) FILTER (WHERE v.ip IS NULL)::int AS unknown_ips,
+                count(*) FILTER (WHERE d.created_at > v.created_at - interval '1 hour')::int AS new_devices
+           FROM votes v
+           JOIN formats f ON f.id = v.format_id
+           LEFT JOIN devices d ON d.id = v.device_id
+          WHERE f.board_id = $1
+            AND v.created_at > now() - make_interval(days => $3::int)
+          GROUP BY v.format_id, f.name, 3
+         HAVING count(*) >= $4
+          ORDER BY window_start DESC, votes DESC
+          LIMIT 100`,
+        [req.board!.id, BURST_WINDOW_S, days, BURST_MIN_VOTES],
+      );
+      return res.json({
+        windowSeconds: BURST_WINDOW_S,
+        items: rows.map((b) => ({ ...b, flags: burstFlags(b) })),
+      });
+    } catch (err) {
+      console.error("GET /api/admin/vote-bursts error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats/:id/votes/void (moderator)
+ * body: { from: string, to: string, block?: boolean }
+ * Removes the format's votes cast in [from, to) (ISO timestamps), along with
+ * those devices' subscriptions to it, and recounts. With `block` the devices
+ * can no longer vote or submit. Returns { voided, blocked, votes }.
+ */
+app.post(
+  boardPaths("/formats/:id/votes/void"),
+  loadFormatBoard,
+  requireBoardAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const from =
+      typeof req.body?.from === "string" ? Date.parse(req.body.from) : NaN;
+    const to = typeof req.body?.to === "string" ? Date.parse(req.body.to) : NaN;
+    if (Number.isNaN(from) || Number.isNaN(to) || to <= from) {
+      return sendError(res, 400, "invalid_range");
+    }
+    const block = req.body?.block === true;
+    const range = {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+    };
+
+    try {
+      const result = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        const { rows } = await client.query<{ device_id: string }>(
+          `DELETE FROM votes
+            WHERE format_id = $1 AND created_at >= $2 AND created_at < $3
+            RETURNING device_id`,
+          [id, range.from, range.to],
+        );
+        const devices = rows.map((r) => r.device_id);
+        await client.query(
+          "DELETE FROM notification_subscriptions WHERE format_id = $1 AND device_id = ANY($2::text[])",
+          [id, devices],
+        );
+        if (block && devices.length > 0) {
+          await client.query(
+            `INSERT INTO devices (id, blocked_at)
+             SELECT unnest($1::uuid[]), now()
+             ON CONFLICT (id) DO UPDATE SET blocked_at = COALESCE(devices.blocked_at, now())`,
+            [devices],
+          );
+        }
+        const after = await client.query<FormatRow>(
+          `UPDATE formats SET votes = imported_votes + (SELECT count(*) FROM votes WHERE format_id = $1)
+            WHERE id = $1 RETURNING ${FORMAT_COLUMNS}`,
+          [id],
+        );
+        const summary = {
+          voided: devices.length,
+          blocked: block ? devices.length : 0,
+          votes: after.rows[0].votes,
+        };
+        await writeAudit(client, req, {
+          action: "vote.void",
+          entityType: "format",
+          entityId: id,
+          before: { votes: before.rows[0].votes },
+          after: { ...summary, ...range },
+        });
+        return summary;
+      });
+      if (!result) return sendError(res, 404, "not_found");
+      broadcastVote(id, result.votes, req.board!.id);
+      return res.json(result);
+    } catch (err) {
+      console.error("POST /api/formats/:id/votes/void error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Comments --- */
+
+/**
+ * Shape a comment for the client: never expose device ids, flag the caller's
+ * own comments, and blank hidden bodies for non-admins.
+ */
+function toPublicComment(c: CommentRow, deviceId?: string, isAdmin = false) {
+  const { device_id, ...rest } = c;
+  return {
+    ...rest,
+    body: c.hidden && !isAdmin ? null : c.body,
+    mine: !!deviceId && device_id === deviceId,
+  };
+}
+
+async function broadcastComment(formatId: string, id: string, action: string) {
+  try {
+    const { rows } = await pool.query<{
+      comment_count: number;
+      board_id: string | null;
+    }>(
+      `SELECT (SELECT count(*)::int FROM format_comments WHERE format_id = $1 AND NOT hidden) AS comment_count,
+              (SELECT board_id FROM formats WHERE id = $1) AS board_id`,
+      [formatId],
+    );
+    broadcastEvent(
+      "comment",
+      {
+        formatId,
+        id,
+        action,
+        comment_count: rows[0]?.comment_count ?? 0,
+      },
+      rows[0]?.board_id ?? null,
+    );
+  } catch (err) {
+    console.error("broadcastComment error:", err);
+  }
+}
+
+/**
+ * GET /api/formats/:id/comments
+ * With a device token, the caller's own comments are marked `mine`.
+ * Returns a flat list oldest first; replies reference `parent_id`. Comments
+ * on hidden formats are 404 except for board admins, also when posting.
+ */
+app.get(
+  boardPaths("/formats/:id/comments"),
+  attachDevice,
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId;
+    try {
+      if (!(await canSeeFormat(req, req.params.id))) {
+        return sendError(res, 404, "not_found");
+      }
+      const { rows } = await pool.query<CommentRow>(
+        `SELECT ${COMMENT_COLUMNS} FROM format_comments WHERE format_id = $1 ORDER BY created_at ASC`,
+        [req.params.id],
+      );
+      return res.json(
+        rows.map((c) => toPublicComment(c, deviceId, !!req.boardAdmin)),
+      );
+    } catch (err) {
+      console.error("GET /api/formats/:id/comments error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/formats/:id/comments
+ * body: { deviceToken: string, body: string, parentId?: string, authorName?: string }
+ */
+app.post(
+  boardPaths("/formats/:id/comments"),
+  requireDevice,
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const formatId = req.params.id;
+    const deviceId = req.deviceId!;
+    const body = typeof req.body?.body === "string" ? req.body.body.trim() : "";
+    const parentId =
+      typeof req.body?.parentId === "string" ? req.body.parentId : null;
+    const authorName =
+      typeof req.body?.authorName === "string"
+        ? req.body.authorName.trim().slice(0, 40) || null
+        : null;
+    if (!body) return sendError(res, 400, "missing_body");
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return sendError(res, 400, "comment_too_long");
+    }
+    if (parentId && !UUID_RE.test(parentId)) {
+      return sendError(res, 400, "invalid_parent");
+    }
+
+    try {
+      if (!(await canSeeFormat(req, formatId))) {
+        return sendError(res, 404, "not_found");
+      }
+      if (parentId) {
+        const parent = await pool.query(
+          "SELECT 1 FROM format_comments WHERE id = $1 AND format_id = $2",
+          [parentId, formatId],
+        );
+        if (!parent.rowCount) return sendError(res, 400, "invalid_parent");
+      }
+      const { rows } = await pool.query<CommentRow>(
+        `INSERT INTO format_comments (format_id, parent_id, device_id, author_name, body)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${COMMENT_COLUMNS}`,
+        [formatId, parentId, deviceId, authorName, body],
+      );
+      void broadcastComment(formatId, rows[0].id, "created");
+      return res.status(201).json(toPublicComment(rows[0], deviceId));
+    } catch (err: any) {
+      console.error("POST /api/formats/:id/comments error:", err);
+      if (err?.code === "23503") return sendError(res, 404, "not_found");
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/comments/:id
+ * body: { deviceToken: string, body: string }
+ * Authors may edit their own comments unless a moderator has hidden them.
+ */
+app.put(
+  "/api/comments/:id",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const deviceId = req.deviceId!;
+    const body = typeof req.body?.body === "string" ? req.body.body.trim() : "";
+    if (!UUID_RE.test(id)) return sendError(res, 400, "invalid_id");
+    if (!body) return sendError(res, 400, "missing_body");
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return sendError(res, 400, "comment_too_long");
+    }
+
+    try {
+      const existing = await pool.query<CommentRow>(
+        `SELECT ${COMMENT_COLUMNS} FROM format_comments WHERE id = $1`,
+        [id],
+      );
+      const comment = existing.rows[0];
+      if (!comment) return sendError(res, 404, "not_found");
+      if (comment.device_id !== deviceId)
+        return sendError(res, 403, "not_owner");
+      if (comment.hidden) return sendError(res, 409, "comment_hidden");
+
+      const { rows } = await pool.query<CommentRow>(
+        `UPDATE format_comments SET body = $2, edited_at = now() WHERE id = $1 RETURNING ${COMMENT_COLUMNS}`,
+        [id, body],
+      );
+      void broadcastComment(comment.format_id, id, "edited");
+      return res.json(toPublicComment(rows[0], deviceId));
+    } catch (err) {
+      console.error("PUT /api/comments/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/comments/:id/hidden (moderator of the format's board)
+ * body: { hidden: boolean }
+ */
+app.put(
+  "/api/comments/:id/hidden",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    if (typeof req.body?.hidden !== "boolean") {
+      return sendError(res, 400, "missing_hidden");
+    }
+    const hidden: boolean = req.body.hidden;
+
+    try {
+      const updated = await withTransaction(async (client) => {
+        const before = await client.query<CommentRow>(
+          `SELECT ${COMMENT_COLUMNS} FROM format_comments WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        if (
+          !(await isFormatAdmin(client, req.admin, before.rows[0].format_id))
+        ) {
+          return "forbidden";
+        }
+        const { rows } = await client.query<CommentRow>(
+          `UPDATE format_comments SET hidden = $2 WHERE id = $1 RETURNING ${COMMENT_COLUMNS}`,
+          [id, hidden],
+        );
+        await writeAudit(client, req, {
+          action: hidden ? "comment.hide" : "comment.unhide",
+          entityType: "comment",
+          entityId: id,
+          before: toPublicComment(before.rows[0], undefined, true),
+          after: toPublicComment(rows[0], undefined, true),
+        });
+        return rows[0];
+      });
+      if (!updated) return sendError(res, 404, "not_found");
+      if (updated === "forbidden") return sendError(res, 403, "forbidden");
+      void broadcastComment(
+        updated.format_id,
+        id,
+        hidden ? "hidden" : "unhidden",
+      );
+      return res.json(toPublicComment(updated, undefined, true));
+    } catch (err) {
+      console.error("PUT /api/comments/:id/hidden error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * DELETE /api/comments/:id (moderator of the format's board)
+ * Removes the comment together with its replies.
+ */
+app.delete(
+  "/api/comments/:id",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      const deleted = await withTransaction(async (client) => {
+        const before = await client.query<CommentRow>(
+          `SELECT ${COMMENT_COLUMNS} FROM format_comments WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        if (
+          !(await isFormatAdmin(client, req.admin, before.rows[0].format_id))
+        ) {
+          return "forbidden";
+        }
+        const { rows } = await client.query<CommentRow>(
+          `DELETE FROM format_comments WHERE id = $1 RETURNING ${COMMENT_COLUMNS}`,
+          [id],
+        );
+        await writeAudit(client, req, {
+          action: "comment.delete",
+          entityType: "comment",
+          entityId: id,
+          before: toPublicComment(rows[0], undefined, true),
+        });
+        return rows[0];
+      });
+      if (!deleted) return sendError(res, 404, "not_found");
+      if (deleted === "forbidden") return sendError(res, 403, "forbidden");
+      void broadcastComment(deleted.format_id, id, "deleted");
+      return res.json({ ok: true });
+    } catch (err) {
+      console.error("DELETE /api/comments/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Estimation sessions --- */
+
+/* Owners run every session; moderators those whose formats are all on their boards */
+async function isSessionAdmin(
+  db: Queryable,
+  admin: Request["admin"],
+  sessionId: string,
+): Promise<boolean> {
+  if (!admin) return false;
+  if (admin.role === "owner") return true;
+  const { rowCount } = await db.query(
+    `SELECT 1 FROM estimation_session_formats sf JOIN formats f ON f.id = sf.format_id
+      WHERE sf.session_id = $1
+        AND NOT EXISTS (SELECT 1 FROM board_admins a WHERE a.board_id = f.board_id AND a.user_id = $2)`,
+    [sessionId, admin.id],
+  );
+  return !rowCount;
+}
+
+/* requireAdmin, limited to admins of session `:id` (see isSessionAdmin) */
+function requireSessionAdmin(req: Request, res: Response, next: NextFunction) {
+  return requireAdmin(req, res, async () => {
+    if (!UUID_RE.test(req.params.id)) return sendError(res, 400, "invalid_id");
+    try {
+      return (await isSessionAdmin(pool, req.admin, req.params.id))
+        ? next()
+        : sendError(res, 403, "forbidden");
+    } catch (err) {
+      console.error("requireSessionAdmin error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  });
+}
+
+/**
+ * Build the public view of a session. Cards stay hidden until the session is
+ * revealed; before that only the fact that a participant has played is shown.
+ */
+async function loadSessionView(sessionId: string, deviceId?: string) {
+  const { rows } = await pool.query<EstimationSessionRow>(
+    `SELECT ${SESSION_COLUMNS} FROM estimation_sessions WHERE id = $1`,
+    [sessionId],
+  );
+  const session = rows[0];
+  if (!session) return null;
+
+  const [formatsRes, participantsRes, cardsRes] = await Promise.all([
+    pool.query<FormatRow & { position: number }>(
+      `SELECT f.id, f.name, f.kind, f.status, f.created_at, f.votes, f.estimate, sf.position
+         FROM estimation_session_formats sf
+         JOIN formats f ON f.id = sf.format_id
+        WHERE sf.session_id = $1
+        ORDER BY sf.position ASC, f.name ASC`,
+      [sessionId],
+    ),
+    pool.query<{ id: string; device_id: string; display_name: string }>(
+      "SELECT id, device_id, display_name FROM estimation_participants WHERE session_id = $1 ORDER BY joined_at ASC",
+      [sessionId],
+    ),
+    session.current_format_id
+      ? pool.query<{ participant_id: string; card: string }>(
+          "SELECT participant_id, card FROM estimation_cards WHERE session_id = $1 AND format_id = $2",
+          [sessionId, session.current_format_id],
+        )
+      : Promise.resolve({
+          rows: [] as { participant_id: string; card: string }[],
+        }),
+  ]);
+
+  const cardsByParticipant = new Map(
+    cardsRes.rows.map((c) => [c.participant_id, c.card]),
+  );
+  const me = participantsRes.rows.find((p) => p.device_id === deviceId);
+
+  return {
+    ...session,
+    cards: ESTIMATION_SCALES[session.scale] || [],
+    formats: formatsRes.rows,
+    participants: participantsRes.rows.map((p) => ({
+      id: p.id,
+      display_name: p.display_name,
+      played: cardsByParticipant.has(p.id),
+      card: session.revealed ? (cardsByParticipant.get(p.id) ?? null) : null,
+    })),
+    me: me
+      ? {
+          id: me.id,
+          display_name: me.display_name,
+          card: cardsByParticipant.get(me.id) ?? null,
+        }
+      : null,
+  };
+}
+
+function broadcastSession(id: string, action: string) {
+  broadcastEvent("session", { id, action }, null);
+}
+
+/**
+ * Apply an admin UPDATE to a session and audit it. `sql` must target the
+ * session whose id is $1 and return SESSION_COLUMNS; resolves to null when
+ * no row matched.
+ */
+async function updateSessionAudited(
+  req: Request,
+  id: string,
+  action: string,
+  sql: string,
+  params: unknown[] = [],
+) {
+  return withTransaction(async (client) => {
+    const before = await client.query<EstimationSessionRow>(
+      `SELECT ${SESSION_COLUMNS} FROM estimation_sessions WHERE id = $1 FOR UPDATE`,
+      [id],
+    );
+    if (!before.rows[0]) return null;
+    const { rows } = await client.query<EstimationSessionRow>(sql, [
+      id,
+      ...params,
+    ]);
+    if (!rows[0]) return null;
+    await writeAudit(client, req, {
+      action,
+      entityType: "estimation_session",
+      entityId: id,
+      before: before.rows[0],
+      after: rows[0],
+    });
+    return rows[0];
+  });
+}
+
+/**
+ * GET /api/sessions
+ * Query params:
+ *   - status: open (default) or closed
+ */
+app.get("/api/sessions", async (req: Request, res: Response) => {
+  const status = req.query.status === "closed" ? "closed" : "open";
+  try {
+    const { rows } = await pool.query<EstimationSessionRow>(
+      `SELECT ${SESSION_COLUMNS} FROM estimation_sessions WHERE status = $1 ORDER BY created_at DESC`,
+      [status],
+    );
+    return res.json(rows);
+  } catch (err) {
+    console.error("GET /api/sessions error:", err);
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * GET /api/sessions/:id
+ * With a device token, `me` holds the caller's participant and card.
+ */
+app.get(
+  "/api/sessions/:id",
+  attachDevice,
+  async (req: Request, res: Response) => {
+    if (!UUID_RE.test(req.params.id)) return sendError(res, 400, "invalid_id");
+    try {
+      const view = await loadSessionView(req.params.id, req.deviceId);
+      if (!view) return sendError(res, 404, "not_found");
+      return res.json(view);
+    } catch (err) {
+      console.error("GET /api/sessions/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions (admin)
+ * body: { title: string, scale: "fibonacci" | "tshirt", formatIds: string[] }
+ * The first format becomes the current one. Formats must be public (400
+ * `invalid_format_ids`) and on boards the caller moderates (403 `forbidden`).
+ */
+app.post("/api/sessions", requireAdmin, async (req: Request, res: Response) => {
+  const title =
+    typeof req.body?.title === "string" ? req.body.title.trim() : "";
+  const scale = typeof req.body?.scale === "string" ? req.body.scale : "";
+  const formatIds: string[] = Array.isArray(req.body?.formatIds)
+    ? req.body.formatIds
+        .filter((v: unknown) => typeof v === "string")
+        .map((v: string) => v.toLowerCase())
+    : [];
+  if (!title || formatIds.length === 0) {
+    return sendError(res, 400, "missing_fields");
+  }
+  if (!ESTIMATION_SCALES[scale]) return sendError(res, 400, "invalid_scale");
+  if (!formatIds.every((v) => UUID_RE.test(v))) {
+    return sendError(res, 400, "invalid_format_ids");
+  }
+
+  try {
+    const taxonomy = await loadTaxonomy();
+    const { rows: formats } = await pool.query<FormatRow>(
+      `SELECT ${FORMAT_COLUMNS} FROM formats WHERE id = ANY($1::uuid[])`,
+      [formatIds],
+    );
+    if (
+      formats.length !== new Set(formatIds).size ||
+      !formats.every((f) => isPublicFormat(taxonomy, f))
+    ) {
+      return sendError(res, 400, "invalid_format_ids");
+    }
+    for (const f of formats) {
+      if (!(await isFormatAdmin(pool, req.admin, f.id))) {
+        return sendError(res, 403, "forbidden");
+      }
+    }
+
+    const session = await withTransaction(async (client) => {
+      const { rows } = await client.query<EstimationSessionRow>(
+        `INSERT INTO estimation_sessions (title, scale, current_format_id) VALUES ($1, $2, $3) RETURNING ${SESSION_COLUMNS}`,
+        [title, scale, formatIds[0]],
+      );
+      await client.query(
+        `INSERT INTO estimation_session_formats (session_id, format_id, position)
+         SELECT $1, ids.id::uuid, ids.ord - 1
+           FROM unnest($2::text[]) WITH ORDINALITY AS ids(id, ord)
+         ON CONFLICT DO NOTHING`,
+        [rows[0].id, formatIds],
+      );
+      await writeAudit(client, req, {
+        action: "session.create",
+        entityType: "estimation_session",
+        entityId: rows[0].id,
+        after: { ...rows[0], format_ids: formatIds },
+      });
+      return rows[0];
+    });
+    broadcastSession(session.id, "created");
+    return res.status(201).json(session);
+  } catch (err: any) {
+    // 23503: foreign key violation (format deleted in the meantime)
+    if (err?.code === "23503") {
+      return sendError(res, 400, "invalid_format_ids");
+    }
+    console.error("POST /api/sessions error:", err);
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * POST /api/sessions/:id/join
+ * body: { deviceToken: string, displayName: string }
+ * Joining again updates the display name.
+ */
+app.post(
+  "/api/sessions/:id/join",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const deviceId = req.deviceId!;
+    const displayName =
+      typeof req.body?.displayName === "string"
+        ? req.body.displayName.trim().slice(0, 40)
+        : "";
+    if (!UUID_RE.test(id)) return sendError(res, 400, "invalid_id");
+    if (!displayName) return sendError(res, 400, "missing_displayName");
+
+    try {
+      const { rowCount } = await pool.query(
+        `INSERT INTO estimation_participants (session_id, device_id, display_name)
+       SELECT id, $2, $3 FROM estimation_sessions WHERE id = $1 AND status = 'open'
+       ON CONFLICT (session_id, device_id) DO UPDATE SET display_name = EXCLUDED.display_name`,
+        [id, deviceId, displayName],
+      );
+      if (!rowCount) return sendError(res, 404, "not_found");
+      broadcastSession(id, "joined");
+      return res.json(await loadSessionView(id, deviceId));
+    } catch (err) {
+      console.error("POST /api/sessions/:id/join error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions/:id/cards
+ * body: { deviceToken: string, card: string }
+ * Plays (or replaces) the caller's card for the current format. Cards are
+ * locked once the round has been revealed.
+ */
+app.post(
+  "/api/sessions/:id/cards",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const deviceId = req.deviceId!;
+    const card = typeof req.body?.card === "string" ? req.body.card : "";
+    if (!UUID_RE.test(id)) return sendError(res, 400, "invalid_id");
+
+    try {
+      const { rows } = await pool.query<
+        EstimationSessionRow & { participant_id: string | null }
+      >(
+        `SELECT s.id, s.scale, s.status, s.current_format_id, s.revealed, p.id AS participant_id
+         FROM estimation_sessions s
+         LEFT JOIN estimation_participants p ON p.session_id = s.id AND p.device_id = $2
+        WHERE s.id = $1`,
+        [id, deviceId],
+      );
+      const session = rows[0];
+      if (!session) return sendError(res, 404, "not_found");
+      if (!session.participant_id) return sendError(res, 403, "not_joined");
+      if (session.status !== "open" || !session.current_format_id) {
+        return sendError(res, 409, "session_not_open");
+      }
+      if (session.revealed) return sendError(res, 409, "round_revealed");
+      if (!(ESTIMATION_SCALES[session.scale] || []).includes(card)) {
+        return sendError(res, 400, "invalid_card");
+      }
+
+      await pool.query(
+        `INSERT INTO estimation_cards (session_id, format_id, participant_id, card)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (session_id, format_id, participant_id)
+       DO UPDATE SET card = EXCLUDED.card, updated_at = now()`,
+        [id, session.current_format_id, session.participant_id, card],
+      );
+      broadcastSession(id, "card");
+      return res.json(await loadSessionView(id, deviceId));
+    } catch (err) {
+      console.error("POST /api/sessions/:id/cards error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions/:id/current (admin of the session's formats)
+ * body: { formatId: string }
+ * Moves the session to another of its formats and hides the cards again.
+ * Cards already played for that format are kept, so a round can be revisited.
+ */
+app.post(
+  "/api/sessions/:id/current",
+  requireSessionAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const formatId =
+      typeof req.body?.formatId === "string" ? req.body.formatId : "";
+    if (!formatId) return sendError(res, 400, "missing_formatId");
+    if (!UUID_RE.test(formatId)) return sendError(res, 400, "invalid_formatId");
+
+    try {
+      const updated = await updateSessionAudited(
+        req,
+        id,
+        "session.current",
+        `UPDATE estimation_sessions s SET current_format_id = $2, revealed = false
+          WHERE s.id = $1 AND s.status = 'open'
+            AND EXISTS (SELECT 1 FROM estimation_session_formats sf WHERE sf.session_id = s.id AND sf.format_id = $2)
+          RETURNING ${SESSION_COLUMNS}`,
+        [formatId],
+      );
+      if (!updated) return sendError(res, 404, "not_found");
+      broadcastSession(id, "current");
+      return res.json(await loadSessionView(id));
+    } catch (err) {
+      console.error("POST /api/sessions/:id/current error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions/:id/reveal (admin of the session's formats)
+ * Shows every card for the current format to all participants at once.
+ */
+app.post(
+  "/api/sessions/:id/reveal",
+  requireSessionAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      const updated = await updateSessionAudited(
+        req,
+        id,
+        "session.reveal",
+        `UPDATE estimation_sessions SET revealed = true
+          WHERE id = $1 AND status = 'open' AND current_format_id IS NOT NULL
+          RETURNING ${SESSION_COLUMNS}`,
+      );
+      if (!updated) return sendError(res, 404, "not_found");
+      broadcastSession(id, "revealed");
+      return res.json(await loadSessionView(id));
+    } catch (err) {
+      console.error("POST /api/sessions/:id/reveal error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions/:id/estimate (admin of the session's formats)
+ * body: { estimate: string, formatId?: string }
+ * Stores the agreed estimate on the format row. Defaults to the current format.
+ * Hidden formats and formats on boards the caller does not moderate are 404.
+ */
+app.post(
+  "/api/sessions/:id/estimate",
+  requireSessionAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const estimate =
+      typeof req.body?.estimate === "string" ? req.body.estimate : "";
+
+    try {
+      const { rows } = await pool.query<EstimationSessionRow>(
+        `SELECT ${SESSION_COLUMNS} FROM estimation_sessions WHERE id = $1`,
+        [id],
+      );
+      const session = rows[0];
+      if (!session) return sendError(res, 404, "not_found");
+      const formatId =
+        typeof req.body?.formatId === "string"
+          ? req.body.formatId
+          : session.current_format_id;
+      if (!formatId) return sendError(res, 400, "missing_formatId");
+      if (!UUID_RE.test(formatId)) {
+        return sendError(res, 400, "invalid_formatId");
+      }
+      if (!(ESTIMATION_SCALES[session.scale] || []).includes(estimate)) {
+        return sendError(res, 400, "invalid_estimate");
+      }
+
+      const updated = await withTransaction(async (client) => {
+        const before = await client.query<FormatRow>(
+          `SELECT ${FORMAT_COLUMNS} FROM formats f
+            WHERE f.id = $1
+              AND EXISTS (SELECT 1 FROM estimation_session_formats sf WHERE sf.session_id = $2 AND sf.format_id = f.id)
+            FOR UPDATE`,
+          [formatId, id],
+        );
+        if (
+          !before.rows[0] ||
+          !isPublicFormat(await loadTaxonomy(client), before.rows[0]) ||
+          !(await isFormatAdmin(client, req.admin, formatId))
+        ) {
+          return null;
+        }
+        const { rows } = await client.query<FormatRow>(
+          `UPDATE formats SET estimate = $1 WHERE id = $2 RETURNING ${FORMAT_COLUMNS}`,
+          [estimate, formatId],
+        );
+        await writeAudit(client, req, {
+          action: "format.estimate",
+          entityType: "format",
+          entityId: formatId,
+          before: before.rows[0],
+          after: { ...rows[0], session_id: id },
+        });
+        return rows[0];
+      });
+      if (!updated) return sendError(res, 404, "not_found");
+      broadcastSession(id, "estimated");
+      void broadcastFormat(formatId, "format.updated");
+      return res.json(updated);
+    } catch (err) {
+      console.error("POST /api/sessions/:id/estimate error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/sessions/:id/close (admin of the session's formats)
+ */
+app.post(
+  "/api/sessions/:id/close",
+  requireSessionAdmin,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    try {
+      const updated = await updateSessionAudited(
+        req,
+        id,
+        "session.close",
+        `UPDATE estimation_sessions SET status = 'closed', closed_at = now()
+          WHERE id = $1 AND status = 'open'
+          RETURNING ${SESSION_COLUMNS}`,
+      );
+      if (!updated) return sendError(res, 404, "not_found");
+      broadcastSession(id, "closed");
+      return res.json(updated);
+    } catch (err) {
+      console.error("POST /api/sessions/:id/close error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Notification inbox --- */
+
+/**
+ * PUT /api/formats/:id/subscription
+ * body: { deviceToken: string, subscribed: boolean }
+ * Turns "notify me" on or off. Only devices that voted for the format may
+ * subscribe. Returns { subscribed }.
+ */
+app.put(
+  boardPaths("/formats/:id/subscription"),
+  requireDevice,
+  loadFormatBoard,
+  async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const deviceId = req.deviceId!;
+    if (typeof req.body?.subscribed !== "boolean") {
+      return sendError(res, 400, "missing_subscribed");
+    }
+
+    try {
+      if (!req.body.subscribed) {
+        await pool.query(
+          "DELETE FROM notification_subscriptions WHERE device_id = $1 AND format_id = $2",
+          [deviceId, id],
+        );
+        return res.json({ subscribed: false });
+      }
+      const { rowCount } = await pool.query(
+        `INSERT INTO notification_subscriptions (device_id, format_id)
+         SELECT device_id, format_id FROM votes
+          WHERE device_id = $1 AND format_id = $2
+         ON CONFLICT DO NOTHING`,
+        [deviceId, id],
+      );
+      if (!rowCount) {
+        const voted = await pool.query(
+          "SELECT 1 FROM votes WHERE device_id = $1 AND format_id = $2",
+          [deviceId, id],
+        );
+        if (!voted.rowCount) return sendError(res, 409, "not_voted");
+      }
+      return res.json({ subscribed: true });
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("PUT /api/formats/:id/subscription error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/notifications/settings (device)
+ * Returns { subscriptions, email, emailEnabled }: the format IDs the caller's
+ * device is subscribed to, the address it left (or null) and whether this server
+ * sends email at all.
+ */
+app.get(
+  "/api/notifications/settings",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId!;
+    try {
+      const [subscriptions, contact] = await Promise.all([
+        pool.query<{ format_id: string }>(
+          "SELECT format_id FROM notification_subscriptions WHERE device_id = $1",
+          [deviceId],
+        ),
+        pool.query<{ email: string }>(
+          "SELECT email FROM notification_contacts WHERE device_id = $1",
+          [deviceId],
+        ),
+      ]);
+      return res.json({
+        subscriptions: subscriptions.rows.map((r) => r.format_id),
+        email: contact.rows[0]?.email ?? null,
+        emailEnabled: mailTransport !== null,
+      });
+    } catch (err) {
+      console.error("GET /api/notifications/settings error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/notifications/email
+ * body: { deviceToken: string, email: string | null }
+ * Sets the address future notifications are mailed to; null or "" stops
+ * email delivery. Returns { email }.
+ */
+app.put(
+  "/api/notifications/email",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId!;
+    const email =
+      typeof req.body?.email === "string" ? req.body.email.trim() : "";
+    if (email && !isEmail(email)) return sendError(res, 400, "invalid_email");
+    if (email && !mailTransport) return sendError(res, 409, "email_disabled");
+
+    try {
+      if (email) {
+        await pool.query(
+          `INSERT INTO notification_contacts (device_id, email) VALUES ($1, $2)
+         ON CONFLICT (device_id) DO UPDATE SET email = $2, updated_at = now()`,
+          [deviceId, email],
+        );
+      } else {
+        await pool.query(
+          "DELETE FROM notification_contacts WHERE device_id = $1",
+          [deviceId],
+        );
+      }
+      return res.json({ email: email || null });
+    } catch (err) {
+      console.error("PUT /api/notifications/email error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/notifications (device)
+ * Query params:
+ *   - before: only entries older than this notification id (paging)
+ *   - limit: page size, 1..200 (default 50)
+ * Returns { items, unread }, newest first; unread counts the whole inbox.
+ */
+app.get(
+  "/api/notifications",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId!;
+    const before =
+      typeof req.query.before === "string" ? Number(req.query.before) : NaN;
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || NOTIFICATION_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    try {
+      const [items, unread] = await Promise.all([
+        pool.query<NotificationRow>(
+          `SELECT ${NOTIFICATION_COLUMNS} FROM notifications
+          WHERE device_id = $1 AND ($2::bigint IS NULL OR id < $2)
+          ORDER BY id DESC
+          LIMIT $3`,
+          [deviceId, Number.isInteger(before) ? before : null, limit],
+        ),
+        pool.query<{ count: number }>(
+          "SELECT count(*)::int AS count FROM notifications WHERE device_id = $1 AND read_at IS NULL",
+          [deviceId],
+        ),
+      ]);
+      return res.json({ items: items.rows, unread: unread.rows[0].count });
+    } catch (err) {
+      console.error("GET /api/notifications error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/notifications/read
+ * body: { deviceToken: string, ids?: string[] }
+ * Marks the listed notifications (or, without ids, the whole inbox) as read.
+ * Returns { unread }.
+ */
+app.post(
+  "/api/notifications/read",
+  requireDevice,
+  async (req: Request, res: Response) => {
+    const deviceId = req.deviceId!;
+    const ids = req.body?.ids;
+    if (
+      ids !== undefined &&
+      !(
+        Array.isArray(ids) &&
+        ids.every((v: unknown) => typeof v === "string" && /^\d+$/.test(v))
+      )
+    ) {
+      return sendError(res, 400, "invalid_ids");
     }
 
-    const vres = await client.query<{ votes: number }>(
-      "SELECT votes FROM formats WHERE id = $1",
-      [id],
+    try {
+      await pool.query(
+        `UPDATE notifications SET read_at = now()
+        WHERE device_id = $1 AND read_at IS NULL
+          AND ($2::bigint[] IS NULL OR id = ANY($2::bigint[]))`,
+        [deviceId, ids ?? null],
+      );
+      const { rows } = await pool.query<{ count: number }>(
+        "SELECT count(*)::int AS count FROM notifications WHERE device_id = $1 AND read_at IS NULL",
+        [deviceId],
+      );
+      return res.json({ unread: rows[0].count });
+    } catch (err) {
+      console.error("POST /api/notifications/read error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Taxonomy management --- */
+type TaxonomyType = "kinds" | "statuses";
+
+const TAXONOMY_TABLES: Record<
+  TaxonomyType,
+  { columns: string; entity: string }
+> = {
+  kinds: { columns: KIND_COLUMNS, entity: "kind" },
+  statuses: { columns: STATUS_COLUMNS, entity: "status" },
+};
+
+function isTaxonomyType(value: string): value is TaxonomyType {
+  return Object.hasOwn(TAXONOMY_TABLES, value);
+}
+
+/**
+ * Validate a kind/status create or update body. Only fields that are present
+ * are returned. `transitions` and `initial` only apply to statuses, and
+ * transitions must name existing statuses other than the entry itself.
+ */
+function parseTaxonomyInput(
+  body: unknown,
+  type: TaxonomyType,
+  taxonomy: Taxonomy,
+  currentKey?: string,
+): { entry: Partial<StatusRow> } | { error: MetadataError } {
+  const fields = bodyFields(body);
+  const entry: Partial<StatusRow> = {};
+  const texts: ["key" | "label", number][] = [
+    ["key", MAX_TAXONOMY_KEY_LENGTH],
+    ["label", MAX_TAXONOMY_LABEL_LENGTH],
+  ];
+  for (const [field, max] of texts) {
+    const raw = fields[field];
+    if (raw === undefined) continue;
+    const value = typeof raw === "string" ? raw.trim() : "";
+    if (!value || value.length > max) return { error: { field, value: raw } };
+    entry[field] = value;
+  }
+  if (fields.color !== undefined) {
+    const color =
+      typeof fields.color === "string" ? fields.color.trim().toLowerCase() : "";
+    if (!TAXONOMY_COLOR_RE.test(color)) {
+      return { error: { field: "color", value: fields.color } };
+    }
+    entry.color = color;
+  }
+  if (fields.position !== undefined) {
+    if (
+      typeof fields.position !== "number" ||
+      !Number.isInteger(fields.position)
+    ) {
+      return { error: { field: "position", value: fields.position } };
+    }
+    entry.position = fields.position;
+  }
+  const flags: ["votingOpen" | "visible" | "initial", keyof StatusRow][] = [
+    ["votingOpen", "voting_open"],
+    ["visible", "visible"],
+    ["initial", "initial"],
+  ];
+  for (const [field, column] of flags) {
+    const raw = fields[field];
+    if (raw === undefined) continue;
+    if (
+      typeof raw !== "boolean" ||
+      (field === "initial" && type !== "statuses")
+    ) {
+      return { error: { field, value: raw } };
+    }
+    (entry as Record<string, unknown>)[column] = raw;
+  }
+  if (fields.transitions !== undefined) {
+    const raw = fields.transitions;
+    const valid =
+      type === "statuses" &&
+      Array.isArray(raw) &&
+      raw.every(
+        (v: unknown) =>
+          typeof v === "string" &&
+          v !== (currentKey ?? entry.key) &&
+          taxonomy.statuses.some((s) => s.key === v),
+      );
+    if (!valid) return { error: { field: "transitions", value: raw } };
+    entry.transitions = Array.from(new Set<string>(raw));
+  }
+  return { entry };
+}
+
+/*
+ * Make `key` the initial status: the flag moves off the previous one, and
+ * boards that do not use the status yet take it on so submissions keep
+ * working everywhere.
+ */
+async function setInitialStatus(client: PoolClient, key: string) {
+  await client.query(
+    "UPDATE statuses SET initial = false WHERE initial AND key <> $1",
+    [key],
+  );
+  await client.query(
+    `UPDATE boards SET statuses = array_append(statuses, $1)
+      WHERE NOT ($1 = ANY(statuses))`,
+    [key],
+  );
+}
+
+/**
+ * GET /api/admin/taxonomy (owner)
+ * Every kind and status, in display order: { kinds, statuses }.
+ */
+app.get(
+  "/api/admin/taxonomy",
+  requireOwner,
+  async (_req: Request, res: Response) => {
+    try {
+      return res.json(await loadTaxonomy());
+    } catch (err) {
+      console.error("GET /api/admin/taxonomy error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/taxonomy/:type (owner), type = kinds | statuses
+ * body: { key, label, color?, position?, votingOpen?, visible? } and, for
+ * statuses, { transitions?: string[], initial? }
+ * `key` is the value stored on formats and cannot change later. New entries
+ * go last unless given a position; boards opt in to them (PUT
+ * /api/boards/:board).
+ */
+app.post(
+  "/api/admin/taxonomy/:type",
+  requireOwner,
+  attachTaxonomy,
+  async (req: Request, res: Response) => {
+    const type = req.params.type;
+    if (!isTaxonomyType(type)) return sendError(res, 404, "not_found");
+    const parsed = parseTaxonomyInput(req.body, type, req.taxonomy!);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_taxonomy", parsed.error);
+    }
+    const entry = parsed.entry;
+    if (!entry.key || !entry.label) {
+      return sendError(res, 400, "missing_fields");
+    }
+    const { columns, entity } = TAXONOMY_TABLES[type];
+
+    try {
+      const row = await withTransaction(async (client) => {
+        if (entry.initial) await setInitialStatus(client, entry.key!);
+        const values: unknown[] = [
+          entry.key,
+          entry.label,
+          entry.color ?? null,
+          entry.position ?? null,
+          entry.voting_open ?? null,
+          entry.visible ?? null,
+        ];
+        const statusValues =
+          type === "statuses"
+            ? [entry.transitions ?? [], entry.initial ?? false]
+            : [];
+        const { rows } = await client.query<StatusRow>(
+          `INSERT INTO ${type} (key, label, color, position, voting_open, visible${
+            type === "statuses" ? ", transitions, initial" : ""
+          })
+           VALUES ($1, $2, COALESCE($3, '#555555'),
+                   COALESCE($4, (SELECT COALESCE(max(position), 0) + 1 FROM ${type})),
+                   COALESCE($5, true), COALESCE($6, true)${
+                     type === "statuses" ? ", $7, $8" : ""
+                   })
+           RETURNING ${columns}`,
+          [...values, ...statusValues],
+        );
+        await writeAudit(client, req, {
+          action: "taxonomy.create",
+          entityType: entity,
+          entityId: rows[0].key,
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      return res.status(201).json(row);
+    } catch (err: any) {
+      if (err?.code === "23505") return sendError(res, 409, "duplicate_key");
+      console.error("POST /api/admin/taxonomy/:type error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/admin/taxonomy/:type/:key (owner)
+ * body: any of { label, color, position, votingOpen, visible } and, for
+ * statuses, { transitions, initial }
+ * The key is fixed once created. Setting `initial` moves the flag off the
+ * previous initial status; unsetting it is refused, as public submissions
+ * always need one.
+ */
+app.put(
+  "/api/admin/taxonomy/:type/:key",
+  requireOwner,
+  attachTaxonomy,
+  async (req: Request, res: Response) => {
+    const { type, key } = req.params;
+    if (!isTaxonomyType(type)) return sendError(res, 404, "not_found");
+    if (req.body?.key !== undefined) {
+      return sendError(res, 400, "key_not_patchable");
+    }
+    const parsed = parseTaxonomyInput(req.body, type, req.taxonomy!, key);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_taxonomy", parsed.error);
+    }
+    const entry = parsed.entry;
+    if (Object.keys(entry).length === 0) {
+      return sendError(res, 400, "missing_fields");
+    }
+    const current = req.taxonomy!.statuses.find((s) => s.key === key);
+    if (entry.initial === false && current?.initial) {
+      return sendError(res, 400, "invalid_taxonomy", {
+        field: "initial",
+        value: false,
+      });
+    }
+    const { columns, entity } = TAXONOMY_TABLES[type];
+
+    try {
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<StatusRow>(
+          `SELECT ${columns} FROM ${type} WHERE key = $1 FOR UPDATE`,
+          [key],
+        );
+        if (!before.rows[0]) return null;
+        if (entry.initial) await setInitialStatus(client, key);
+        const statusSql =
+          type === "statuses"
+            ? `, transitions = COALESCE($7, transitions),
+                 initial = COALESCE($8, initial)`
+            : "";
+        const { rows } = await client.query<StatusRow>(
+          `UPDATE ${type}
+              SET label = COALESCE($2, label),
+                  color = COALESCE($3, color),
+                  position = COALESCE($4, position),
+                  voting_open = COALESCE($5, voting_open),
+                  visible = COALESCE($6, visible)${statusSql}
+            WHERE key = $1
+           RETURNING ${columns}`,
+          [
+            key,
+            entry.label ?? null,
+            entry.color ?? null,
+            entry.position ?? null,
+            entry.voting_open ?? null,
+            entry.visible ?? null,
+            ...(type === "statuses"
+              ? [entry.transitions ?? null, entry.initial ?? null]
+              : []),
+          ],
+        );
+        await writeAudit(client, req, {
+          action: "taxonomy.update",
+          entityType: entity,
+          entityId: key,
+          before: before.rows[0],
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      return res.json(row);
+    } catch (err) {
+      console.error("PUT /api/admin/taxonomy/:type/:key error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Board management --- */
+
+/* Admin accounts assigned to a board; only shown to owners */
+const BOARD_ADMIN_IDS_SQL =
+  "ARRAY(SELECT a.user_id FROM board_admins a WHERE a.board_id = boards.id ORDER BY a.user_id) AS admin_ids";
+
+function boardColumns(req: Request): string {
+  return req.admin?.role === "owner"
+    ? `${BOARD_COLUMNS}, ${BOARD_ADMIN_IDS_SQL}`
+    : BOARD_COLUMNS;
+}
+
+/* Rolls back a board write and is answered as `status` / `error` */
+class BoardWriteError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    readonly details: Record<string, unknown>,
+  ) {
+    super(error);
+  }
+}
+
+/* Replace the admins of a board; every ID must be an existing account */
+async function setBoardAdmins(
+  client: PoolClient,
+  boardId: string,
+  adminIds: string[],
+) {
+  const found = await client.query<{ id: string }>(
+    "SELECT id FROM admin_users WHERE id = ANY($1::uuid[])",
+    [adminIds],
+  );
+  const missing = adminIds.find((v) => !found.rows.some((r) => r.id === v));
+  if (missing) {
+    throw new BoardWriteError(400, "unknown_admin", { value: missing });
+  }
+  await client.query("DELETE FROM board_admins WHERE board_id = $1", [boardId]);
+  await client.query(
+    `INSERT INTO board_admins (board_id, user_id)
+     SELECT $1, unnest($2::uuid[])`,
+    [boardId, adminIds],
+  );
+}
+
+/**
+ * GET /api/boards
+ * Every board, the default one first. Owners also get each board's
+ * `admin_ids`.
+ */
+app.get("/api/boards", async (req: Request, res: Response) => {
+  try {
+    const { rows } = await pool.query<BoardRow>(
+      `SELECT ${boardColumns(req)} FROM boards
+        ORDER BY slug = $1 DESC, lower(title), slug`,
+      [DEFAULT_BOARD_SLUG],
     );
-    await client.query("COMMIT");
-    const votes = vres.rows[0] ? Number(vres.rows[0].votes || 0) : 0;
-    broadcastVote(id, votes);
-    return res.json({ voted, votes });
+    return res.json(rows);
   } catch (err) {
-    if (client) {
-      try {
-        await client.query("ROLLBACK");
-      } catch {
-        // ignore rollback errors
-      }
-    }
-    console.error("POST /api/formats/:id/vote error:", err);
+    console.error("GET /api/boards error:", err);
+    return sendError(res, 500, "db_error");
+  }
+});
+
+/**
+ * GET /api/boards/:board
+ * One board: { id, slug, title, kinds, statuses, created_at }, plus
+ * `admin_ids` for owners.
+ */
+app.get("/api/boards/:board", async (req: Request, res: Response) => {
+  try {
+    const { rows } = await pool.query<BoardRow>(
+      `SELECT ${boardColumns(req)} FROM boards WHERE slug = $1`,
+      [req.params.board],
+    );
+    if (!rows[0]) return sendError(res, 404, "board_not_found");
+    return res.json(rows[0]);
+  } catch (err) {
+    console.error("GET /api/boards/:board error:", err);
     return sendError(res, 500, "db_error");
-  } finally {
-    if (client) client.release();
   }
 });
 
+/**
+ * POST /api/boards (owner)
+ * body: { slug, title, kinds: string[], statuses?: string[],
+ *         adminIds?: string[] }
+ * Slugs are lowercase letters, digits and dashes and appear in URLs.
+ * Kinds and statuses are taxonomy keys; statuses default to all of them.
+ * adminIds are the accounts that may moderate the board.
+ */
+app.post(
+  "/api/boards",
+  requireOwner,
+  attachTaxonomy,
+  async (req: Request, res: Response) => {
+    const parsed = parseBoardInput(req.body, req.taxonomy!);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_board", parsed.error);
+    }
+    const input = parsed.board;
+    if (!input.slug || !input.title || !input.kinds) {
+      return sendError(res, 400, "missing_fields");
+    }
+
+    try {
+      const board = await withTransaction(async (client) => {
+        const { rows } = await client.query<BoardRow>(
+          `INSERT INTO boards (slug, title, kinds, statuses)
+         VALUES ($1, $2, $3, $4) RETURNING ${BOARD_COLUMNS}`,
+          [
+            input.slug,
+            input.title,
+            input.kinds,
+            input.statuses ?? req.taxonomy!.statuses.map((s) => s.key),
+          ],
+        );
+        await setBoardAdmins(client, rows[0].id, input.adminIds ?? []);
+        const created = await client.query<BoardRow>(
+          `SELECT ${boardColumns(req)} FROM boards WHERE id = $1`,
+          [rows[0].id],
+        );
+        await writeAudit(client, req, {
+          action: "board.create",
+          entityType: "board",
+          entityId: rows[0].id,
+          after: created.rows[0],
+        });
+        return created.rows[0];
+      });
+      return res.status(201).json(board);
+    } catch (err: any) {
+      if (err instanceof BoardWriteError) {
+        return sendError(res, err.status, err.error, err.details);
+      }
+      if (err?.code === "23505") return sendError(res, 409, "duplicate_slug");
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("POST /api/boards error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/boards/:board (owner)
+ * body: any of { title, kinds, statuses, adminIds }
+ * Fields present replace the stored ones. Kinds and statuses still used by
+ * the board's formats cannot be removed (409 `kind_in_use` /
+ * `status_in_use`). The slug is fixed once created.
+ */
+app.put(
+  "/api/boards/:board",
+  requireOwner,
+  attachTaxonomy,
+  async (req: Request, res: Response) => {
+    if (req.body?.slug !== undefined) {
+      return sendError(res, 400, "slug_not_patchable");
+    }
+    const parsed = parseBoardInput(req.body, req.taxonomy!);
+    if ("error" in parsed) {
+      return sendError(res, 400, "invalid_board", parsed.error);
+    }
+    const input = parsed.board;
+    if (Object.keys(input).length === 0) {
+      return sendError(res, 400, "missing_fields");
+    }
+
+    try {
+      const board = await withTransaction(async (client) => {
+        const before = await client.query<BoardRow>(
+          `SELECT ${boardColumns(req)} FROM boards WHERE slug = $1 FOR UPDATE`,
+          [req.params.board],
+        );
+        if (!before.rows[0]) return null;
+        const id = before.rows[0].id;
+        const inUse: [string, string, string[] | undefined][] = [
+          ["kind", "kind_in_use", input.kinds],
+          ["status", "status_in_use", input.statuses],
+        ];
+        for (const [column, error, values] of inUse) {
+          if (!values) continue;
+          const used = await client.query<{ value: string }>(
+            `SELECT ${column} AS value FROM formats
+              WHERE board_id = $1 AND ${column} <> ALL($2::text[])
+              LIMIT 1`,
+            [id, values],
+          );
+          if (used.rows[0]) {
+            throw new BoardWriteError(409, error, {
+              value: used.rows[0].value,
+            });
+          }
+        }
+        await client.query(
+          `UPDATE boards
+              SET title = COALESCE($2, title),
+                  kinds = COALESCE($3, kinds),
+                  statuses = COALESCE($4, statuses)
+            WHERE id = $1`,
+          [
+            id,
+            input.title ?? null,
+            input.kinds ?? null,
+            input.statuses ?? null,
+          ],
+        );
+        if (input.adminIds) await setBoardAdmins(client, id, input.adminIds);
+        const after = await client.query<BoardRow>(
+          `SELECT ${boardColumns(req)} FROM boards WHERE id = $1`,
+          [id],
+        );
+        await writeAudit(client, req, {
+          action: "board.update",
+          entityType: "board",
+          entityId: id,
+          before: before.rows[0],
+          after: after.rows[0],
+        });
+        return after.rows[0];
+      });
+      if (!board) return sendError(res, 404, "board_not_found");
+      return res.json(board);
+    } catch (err: any) {
+      if (err instanceof BoardWriteError) {
+        return sendError(res, err.status, err.error, err.details);
+      }
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("PUT /api/boards/:board error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/* --- Webhook subscriptions --- */
+
+/* Validate the writable webhook fields present in `body` */
+function parseWebhookBody(body: unknown):
+  | {
+      url?: string;
+      description?: string | null;
+      events?: WebhookEvent[];
+      voteThreshold?: number;
+      active?: boolean;
+    }
+  | { error: string } {
+  const { url, description, events, voteThreshold, active } = bodyFields(body);
+  const out: {
+    url?: string;
+    description?: string | null;
+    events?: WebhookEvent[];
+    voteThreshold?: number;
+    active?: boolean;
+  } = {};
+  if (url !== undefined) {
+    const normalized = typeof url === "string" ? normalizeHttpUrl(url) : null;
+    if (!normalized) return { error: "invalid_url" };
+    out.url = normalized;
+  }
+  if (description !== undefined) {
+    if (description !== null && typeof description !== "string") {
+      return { error: "invalid_description" };
+    }
+    out.description = description?.trim() || null;
+  }
+  if (events !== undefined) {
+    if (!Array.isArray(events) || !events.every(isWebhookEvent)) {
+      return { error: "invalid_events" };
+    }
+    out.events = Array.from(new Set<WebhookEvent>(events));
+  }
+  if (voteThreshold !== undefined) {
+    if (
+      typeof voteThreshold !== "number" ||
+      !Number.isInteger(voteThreshold) ||
+      voteThreshold < 1
+    ) {
+      return { error: "invalid_voteThreshold" };
+    }
+    out.voteThreshold = voteThreshold;
+  }
+  if (active !== undefined) {
+    if (typeof active !== "boolean") return { error: "invalid_active" };
+    out.active = active;
+  }
+  return out;
+}
+
+/**
+ * GET /api/admin/webhooks (owner)
+ * Subscriptions with their delivery counts; secrets are never returned here.
+ */
+app.get(
+  "/api/admin/webhooks",
+  requireOwner,
+  async (_req: Request, res: Response) => {
+    try {
+      const { rows } = await pool.query(
+        `SELECT ${WEBHOOK_COLUMNS},
+                (SELECT count(*) FROM webhook_deliveries d WHERE d.webhook_id = webhooks.id AND d.status = 'pending')::int AS pending,
+                (SELECT count(*) FROM webhook_deliveries d WHERE d.webhook_id = webhooks.id AND d.status = 'failed')::int AS failed
+           FROM webhooks
+          ORDER BY created_at ASC`,
+      );
+      return res.json({ events: WEBHOOK_EVENTS, webhooks: rows });
+    } catch (err) {
+      console.error("GET /api/admin/webhooks error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/webhooks (owner)
+ * body: { url, description?, events?: string[] (empty = all), voteThreshold? }
+ * Responds with the webhook and its signing `secret`, which is not shown again.
+ * URLs whose host resolves to a loopback or private address are refused (400
+ * `url_not_allowed`), unless WEBHOOK_ALLOW_PRIVATE is set.
+ */
+app.post(
+  "/api/admin/webhooks",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const parsed = parseWebhookBody(req.body);
+    if ("error" in parsed) return sendError(res, 400, parsed.error);
+    if (!parsed.url) return sendError(res, 400, "missing_url");
+    if (!(await isPublicUrl(parsed.url))) {
+      return sendError(res, 400, "url_not_allowed");
+    }
+    const secret = crypto.randomBytes(32).toString("hex");
+
+    try {
+      const row = await withTransaction(async (client) => {
+        const { rows } = await client.query<WebhookRow>(
+          `INSERT INTO webhooks (url, description, events, vote_threshold, secret, created_by)
+           VALUES ($1, $2, $3, COALESCE($4, 10), $5, $6)
+           RETURNING ${WEBHOOK_COLUMNS}`,
+          [
+            parsed.url,
+            parsed.description ?? null,
+            parsed.events ?? [],
+            parsed.voteThreshold ?? null,
+            secret,
+            req.admin!.username,
+          ],
+        );
+        await writeAudit(client, req, {
+          action: "webhook.create",
+          entityType: "webhook",
+          entityId: rows[0].id,
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      return res.status(201).json({ ...row, secret });
+    } catch (err) {
+      console.error("POST /api/admin/webhooks error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * PUT /api/admin/webhooks/:id (owner)
+ * body: any of { url, description, events, voteThreshold, active }
+ * A new url is checked like on POST.
+ */
+app.put(
+  "/api/admin/webhooks/:id",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const parsed = parseWebhookBody(req.body);
+    if ("error" in parsed) return sendError(res, 400, parsed.error);
+    if (Object.keys(parsed).length === 0) {
+      return sendError(res, 400, "missing_fields");
+    }
+    if (parsed.url && !(await isPublicUrl(parsed.url))) {
+      return sendError(res, 400, "url_not_allowed");
+    }
+
+    try {
+      const row = await withTransaction(async (client) => {
+        const before = await client.query<WebhookRow>(
+          `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1 FOR UPDATE`,
+          [id],
+        );
+        if (!before.rows[0]) return null;
+        const { rows } = await client.query<WebhookRow>(
+          `UPDATE webhooks
+              SET url = COALESCE($2, url),
+                  description = CASE WHEN $3 THEN $4 ELSE description END,
+                  events = COALESCE($5, events),
+                  vote_threshold = COALESCE($6, vote_threshold),
+                  active = COALESCE($7, active)
+            WHERE id = $1
+           RETURNING ${WEBHOOK_COLUMNS}`,
+          [
+            id,
+            parsed.url ?? null,
+            parsed.description !== undefined,
+            parsed.description ?? null,
+            parsed.events ?? null,
+            parsed.voteThreshold ?? null,
+            parsed.active ?? null,
+          ],
+        );
+        await writeAudit(client, req, {
+          action: "webhook.update",
+          entityType: "webhook",
+          entityId: id,
+          before: before.rows[0],
+          after: rows[0],
+        });
+        return rows[0];
+      });
+      if (!row) return sendError(res, 404, "not_found");
+      return res.json(row);
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("PUT /api/admin/webhooks/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * DELETE /api/admin/webhooks/:id (owner)
+ * Removes the subscription together with its queued and logged deliveries.
+ */
+app.delete(
+  "/api/admin/webhooks/:id",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    try {
+      const deleted = await withTransaction(async (client) => {
+        const { rows } = await client.query<WebhookRow>(
+          `DELETE FROM webhooks WHERE id = $1 RETURNING ${WEBHOOK_COLUMNS}`,
+          [id],
+        );
+        if (!rows[0]) return false;
+        await writeAudit(client, req, {
+          action: "webhook.delete",
+          entityType: "webhook",
+          entityId: id,
+          before: rows[0],
+        });
+        return true;
+      });
+      if (!deleted) return sendError(res, 404, "not_found");
+      return res.json({ ok: true });
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("DELETE /api/admin/webhooks/:id error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/webhooks/:id/ping (owner)
+ * Queues a `ping` event for this webhook only, to test the receiver.
+ */
+app.post(
+  "/api/admin/webhooks/:id/ping",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const eventId = crypto.randomUUID();
+    const payload = {
+      id: eventId,
+      event: "ping",
+      created_at: new Date().toISOString(),
+      data: { webhook_id: id },
+    };
+    try {
+      const { rows } = await pool.query<WebhookDeliveryRow>(
+        `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload)
+         SELECT id, $2, 'ping', $3 FROM webhooks WHERE id = $1
+         RETURNING ${DELIVERY_COLUMNS}`,
+        [id, eventId, JSON.stringify(payload)],
+      );
+      if (!rows[0]) return sendError(res, 404, "not_found");
+      void dispatchWebhooks();
+      return res.status(202).json(rows[0]);
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("POST /api/admin/webhooks/:id/ping error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries (owner)
+ * Query params: status (pending|succeeded|failed), before (id cursor),
+ * limit (max 200, default 50). Newest first, with the payload sent and the
+ * last response code or error.
+ */
+app.get(
+  "/api/admin/webhooks/:id/deliveries",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const status =
+      typeof req.query.status === "string" ? req.query.status.trim() : "";
+    const before =
+      typeof req.query.before === "string" ? Number(req.query.before) : NaN;
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    try {
+      const { rows } = await pool.query<WebhookDeliveryRow>(
+        `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+          WHERE webhook_id = $1
+            AND ($2 = '' OR status = $2)
+            AND ($3::bigint IS NULL OR id < $3)
+          ORDER BY id DESC
+          LIMIT $4`,
+        [id, status, Number.isInteger(before) ? before : null, limit],
+      );
+      return res.json(rows);
+    } catch (err: any) {
+      if (err?.code === "22P02") return sendError(res, 400, "invalid_id");
+      console.error("GET /api/admin/webhooks/:id/deliveries error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
+/**
+ * POST /api/admin/webhook-deliveries/:id/retry (owner)
+ * Queues a delivery again right away, e.g. after fixing the receiver.
+ */
+app.post(
+  "/api/admin/webhook-deliveries/:id/retry",
+  requireOwner,
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) return sendError(res, 400, "invalid_id");
+    try {
+      const { rows } = await pool.query<WebhookDeliveryRow>(
+        `UPDATE webhook_deliveries
+            SET status = 'pending', attempts = 0, next_attempt_at = now()
+          WHERE id = $1 AND status <> 'succeeded'
+          RETURNING ${DELIVERY_COLUMNS}`,
+        [id],
+      );
+      if (!rows[0]) return sendError(res, 404, "not_found");
+      void dispatchWebhooks();
+      return res.json(rows[0]);
+    } catch (err) {
+      console.error("POST /api/admin/webhook-deliveries/:id/retry error:", err);
+      return sendError(res, 500, "db_error");
+    }
+  },
+);
+
 /* Healthcheck */
 app.get("/health", (_req: Request, res: Response) => res.json({ ok: true }));
 
+/* --- Format pages --- */
+/* The SPA's index.html with a page title and extra (escaped) <head> tags */
+function renderIndex(title = "", head = ""): string {
+  // fallback: a minimal HTML if index not available
+  let html =
+    indexHtml ||
+    '<!doctype html><html><head></head><body><div id="root"></div></body></html>';
+  if (title) {
+    const tag = `<title>${escapeXml(title)}</title>`;
+    if (/<title>[^<]*<\/title>/.test(html)) {
+      html = html.replace(/<title>[^<]*<\/title>/, tag);
+    } else {
+      head = `${tag}\n${head}`;
+    }
+  }
+  return head ? html.replace("</head>", `${head}\n</head>`) : html;
+}
+
+/* Page of a format in the SPA, under its board's page */
+function formatPageUrl(base: string, board: string, id: string): string {
+  return `${boardHomeUrl(base, { slug: board })}formats/${id}`;
+}
+
+type FormatPageRow = Pick<
+  FormatRow,
+  "id" | "name" | "kind" | "status" | "votes" | "mime_types" | "extensions"
+> & { board: string; board_title: string };
+
+/* One-line summary for link previews, e.g. "Image format · Requested · 12 votes" */
+function formatPageDescription(taxonomy: Taxonomy, f: FormatPageRow): string {
+  const label = (list: KindRow[], key: string) =>
+    list.find((e) => e.key === key)?.label ?? key;
+  const votes = Number(f.votes || 0);
+  const parts = [
+    `${label(taxonomy.kinds, f.kind)} format`,
+    label(taxonomy.statuses, f.status),
+    `${votes} ${votes === 1 ? "vote" : "votes"}`,
+  ];
+  const files = [
+    ...(f.extensions || []).map((e) => `.${e}`),
+    ...(f.mime_types || []),
+  ];
+  return parts.join(" · ") + (files.length ? ` (${files.join(", ")})` : "");
+}
+
+/**
+ * GET /formats/:id, GET /boards/:board/formats/:id
+ * Serve the SPA with Open Graph tags for the format, so shared links unfurl.
+ * Links to another board's path, or to a format that was merged away, are
+ * redirected to the canonical page; formats that are not public get no tags.
+ */
+app.get(
+  ["/formats/:id", "/boards/:board/formats/:id"],
+  async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const board = req.params.board ?? DEFAULT_BOARD_SLUG;
+    if (!UUID_RE.test(id)) return res.status(404).send(renderIndex());
+    try {
+      const { rows } = await pool.query<FormatPageRow>(
+        `SELECT f.id, f.name, f.kind, f.status, f.votes, f.mime_types,
+                f.extensions, b.slug AS board, b.title AS board_title
+           FROM formats f JOIN boards b ON b.id = f.board_id
+          WHERE f.id = COALESCE(
+            (SELECT format_id FROM format_redirects WHERE old_id = $1), $1)`,
+        [id],
+      );
+      const format = rows[0];
+      if (!format) return res.status(404).send(renderIndex());
+      if (format.id !== id || format.board !== board) {
+        return res.redirect(301, formatPageUrl("", format.board, format.id));
+      }
+      const taxonomy = await loadTaxonomy();
+      if (!isPublicFormat(taxonomy, format)) return res.send(renderIndex());
+      const url = formatPageUrl(feedBaseUrl(req), format.board, format.id);
+      const description = formatPageDescription(taxonomy, format);
+      const tags: [string, string, string][] = [
+        ["name", "description", description],
+        ["property", "og:type", "website"],
+        ["property", "og:site_name", format.board_title],
+        ["property", "og:title", format.name],
+        ["property", "og:description", description],
+        ["property", "og:url", url],
+        ["name", "twitter:card", "summary"],
+      ];
+      const head = [
+        `<link rel="canonical" href="${escapeXml(url)}" />`,
+        ...tags.map(
+          ([attr, key, value]) =>
+            `<meta ${attr}="${key}" content="${escapeXml(value)}" />`,
+        ),
+      ].join("\n");
+      return res.send(
+        renderIndex(`${format.name} · ${format.board_title}`, head),
+      );
+    } catch (err) {
+      // The page still works without the tags
+      console.error("GET /formats/:id error:", err);
+      return res.send(renderIndex());
+    }
+  },
+);
+
 // Serve static client files (built into dist/client)
 // This ensures the production server responds to "/" and serves the SPA.
 app.use(express.static(clientDist));
 
 // Fallback to index.html for client-side routing (SPA)
 app.get("*path", (_req: Request, res: Response) => {
-  if (indexHtml) {
-    return res.status(200).send(indexHtml);
-  }
-  // fallback: send a minimal HTML if index not available
-  res
-    .status(200)
-    .send(
-      '<!doctype html><html><head></head><body><div id="root"></div></body></html>',
-    );
+  res.status(200).send(renderIndex());
 });
 
 /* --- Start server --- */
 const server: Server = app.listen(PORT, () => {
   console.log(`Server listening on port ${PORT} (NODE_ENV=${NODE_ENV})`);
+  void ensureBootstrapAdmin();
+  setInterval(() => void dispatchWebhooks(), WEBHOOK_POLL_MS);
+  setInterval(() => void dispatchNotificationEmails(), MAIL_POLL_MS);
+  void listenForLiveEvents();
+  setInterval(() => void pruneLiveEvents(), 60 * 60 * 1000);
+  setInterval(() => void pruneRateLimits(), 60 * 60 * 1000);
 });
 
 /* Graceful shutdown */
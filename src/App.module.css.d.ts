@@ -3,6 +3,10 @@ declare const style: {
   readonly gridWrap: string;
   readonly grid: string;
   readonly footer: string;
+  readonly tabs: string;
+  readonly tab: string;
+  readonly tabActive: string;
+  readonly loadMore: string;
   readonly [className: string]: string;
 };
 export default style;
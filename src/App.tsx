@@ -11,6 +11,17 @@ import Toolbar from "./components/Toolbar/Toolbar.jsx";
 import AdminBar from "./components/AdminBar/AdminBar.jsx";
 import SubmitBar from "./components/SubmitBar/SubmitBar.jsx";
 import FormatCard from "./components/FormatCard/FormatCard.jsx";
+import EstimationPanel from "./components/EstimationPanel/EstimationPanel.jsx";
+import AuditPanel from "./components/AuditPanel/AuditPanel.jsx";
+import ImportExportBar from "./components/ImportExportBar/ImportExportBar.jsx";
+import WebhooksPanel from "./components/WebhooksPanel/WebhooksPanel.jsx";
+import NotificationInbox from "./components/NotificationInbox/NotificationInbox.jsx";
+import BoardsPanel from "./components/BoardsPanel/BoardsPanel.jsx";
+import TaxonomyPanel from "./components/TaxonomyPanel/TaxonomyPanel.jsx";
+import ModerationQueue from "./components/ModerationQueue/ModerationQueue.jsx";
+import MySubmissions from "./components/MySubmissions/MySubmissions.jsx";
+import VoteBursts from "./components/VoteBursts/VoteBursts.jsx";
+import OutboxBar from "./components/OutboxBar/OutboxBar.jsx";
 import * as style from "./App.module.css";
 import { seed } from "./data/seed";
 import {
@@ -19,7 +30,40 @@ import {
   getVotesSet,
   setVotesSet,
   deviceId,
+  getDeviceToken,
+  getDisplayName,
+  setDisplayName,
 } from "./data/local.js";
+import { localRelevance } from "./data/search.js";
+import { priorityScore } from "./data/priority.js";
+import { solveChallenge } from "./data/pow.js";
+import {
+  loadOutbox,
+  saveOutbox,
+  createEntry,
+  isOffline,
+  describeFailure,
+  requestSync,
+} from "./data/outbox.js";
+import {
+  boardHref,
+  currentBoard,
+  DEFAULT_BOARD,
+  FALLBACK_BOARD,
+} from "./data/board.js";
+import {
+  formatFromPath,
+  formatHref,
+  filtersFromSearch,
+  filtersToSearch,
+  isPlainClick,
+} from "./data/route.js";
+import {
+  FALLBACK_TAXONOMY,
+  initialStatus,
+  isPublic,
+  isVotable,
+} from "./data/taxonomy.js";
 
 // --- Types for App state and actions ---
 type Row = {
@@ -29,12 +73,223 @@ type Row = {
   status: string;
   created_at: string;
   votes: number;
+  estimate?: string | null;
+  mime_types?: string[];
+  extensions?: string[];
+  spec_urls?: string[];
+  comment_count?: number;
+  aliases?: string[];
+  codecs?: { id: string; name: string }[];
+  containers?: { id: string; name: string }[];
+  relevance?: number;
+  sparkline?: number[];
+  momentum?: number;
+  reach?: number | null;
+  impact?: number | null;
+  confidence?: number | null;
+  effort?: number | null;
+  priority?: number;
+};
+
+// Server momentum when the rows were sorted by trend; otherwise this week's
+// sparkline days minus last week's
+const localMomentum = (row: Row) => {
+  if (typeof row.momentum === "number") return row.momentum;
+  const days = row.sparkline || [];
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  return sum(days.slice(-7)) - sum(days.slice(-14, -7));
+};
+
+type FormatChanges = {
+  name: string;
+  kind: string;
+  mimeTypes: string[];
+  extensions: string[];
+  specUrls: string[];
+  aliases: string[];
+  codecIds: string[];
+  reach: number | null;
+  impact: number | null;
+  confidence: number | null;
+  effort: number | null;
+};
+
+type AdminUser = {
+  id: string;
+  username: string;
+  role: "owner" | "moderator";
+  // Slugs of the boards a moderator may manage
+  boards?: string[];
+};
+
+type KindEntry = {
+  key: string;
+  label: string;
+  color: string;
+  position?: number;
+  voting_open: boolean;
+  visible: boolean;
+};
+
+type StatusEntry = KindEntry & { transitions: string[]; initial: boolean };
+
+type Taxonomy = { kinds: KindEntry[]; statuses: StatusEntry[] };
+
+type Board = {
+  slug: string;
+  title: string;
+  kinds: string[];
+  statuses: string[];
+  admin_ids?: string[];
+};
+
+type SessionSummary = {
+  id: string;
+  title: string;
+  scale: string;
+  status: string;
+  current_format_id: string | null;
+  revealed: boolean;
+};
+
+type SessionView = SessionSummary & {
+  cards: string[];
+  formats: Row[];
+  participants: {
+    id: string;
+    display_name: string;
+    played: boolean;
+    card: string | null;
+  }[];
+  me: { id: string; display_name: string; card: string | null } | null;
+};
+
+type InboxEntry = {
+  id: string;
+  format_id: string | null;
+  format_name: string;
+  from_status: string | null;
+  to_status: string;
+  created_at: string;
+  read_at: string | null;
+};
+
+type AuditEntry = {
+  id: string;
+  actor_username: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+type AuditFilters = { action?: string; actor?: string; entityId?: string };
+
+type Webhook = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  vote_threshold: number;
+  active: boolean;
+  pending: number;
+  failed: number;
+};
+
+type WebhookDelivery = {
+  id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+};
+
+// Formats waiting in the initial status (GET /api/moderation) and where the
+// approve and reject actions may move them
+type ModerationView = {
+  approveStatuses: string[];
+  rejectStatus: string | null;
+  items: Row[];
+};
+
+type ModerationDecision = {
+  status?: string;
+  mergeInto?: string;
+  reason?: string;
+};
+
+// Votes one format got in one short window (GET /api/admin/vote-bursts);
+// `flags` say why it looks scripted
+type VoteBurst = {
+  format_id: string;
+  name: string;
+  window_start: string;
+  votes: number;
+  ips: number;
+  unknown_ips: number;
+  new_devices: number;
+  flags: string[];
+};
+
+type VoteBurstsView = { windowSeconds: number; items: VoteBurst[] };
+
+// One of this device's submissions and what became of it
+type Submission = {
+  id: string;
+  format_id: string | null;
+  board: string;
+  name: string;
+  kind: string;
+  status: string | null;
+  submitted_at: string;
+  decision: "pending" | "approved" | "merged" | "rejected" | "deleted";
+  reason: string | null;
+  merged_into: { id: string; name: string } | null;
+  decided_at: string | null;
 };
 
+// A request waiting in the outbox (src/data/outbox.js)
+type OutboxEntry = {
+  id: string;
+  type: "vote" | "submit" | "admin";
+  label: string;
+  path: string;
+  method: string;
+  body: Record<string, unknown>;
+  createdAt: string;
+  state: "pending" | "failed";
+  error: string | null;
+};
+
+type QueuedRequest = Pick<
+  OutboxEntry,
+  "type" | "label" | "path" | "method" | "body"
+>;
+
+type View = "grid" | "estimate" | "review" | "audit" | "webhooks" | "boards";
+
+const AUDIT_PAGE_SIZE = 50;
+
+// Same cut-off as the server's ranked search
+const SEARCH_MIN_RELEVANCE = 0.3;
+const SEARCH_DEBOUNCE_MS = 250;
+const FORMATS_PAGE_SIZE = 50;
+
+// Paging state of the rows loaded from GET /api/formats; `query` is the search
+// the server already applied, so the grid does not filter those rows again
+type Page = { total: number; nextCursor: string | null; query: string };
+
 type State = {
   admin: boolean;
+  adminUser: AdminUser | null;
   rows: Row[];
   votes: Set<string>;
+  page: Page | null;
   query: string;
   kind: string;
   status: string;
@@ -46,13 +301,16 @@ type Action =
       type: "setFilter";
       payload: Partial<Pick<State, "query" | "kind" | "status" | "sort">>;
     }
-  | { type: "toggleAdmin"; value: boolean }
+  | { type: "setAdmin"; user: AdminUser | null }
   | { type: "addRow"; row: Row }
+  | { type: "upsertRow"; row: Row }
   | { type: "updateStatus"; id: string; status: string }
   | { type: "deleteRow"; id: string }
   | { type: "voteToggle"; id: string }
   | { type: "voteUpdate"; id: string; votes: number }
-  | { type: "setRows"; rows: Row[]; votes: string[] };
+  | { type: "commentCount"; id: string; count: number }
+  | { type: "setRows"; rows: Row[]; votes: string[]; page?: Page }
+  | { type: "appendRows"; rows: Row[]; page: Page };
 
 // --- Configs ---
 const USE_API = true; // flip when wiring a backend
@@ -62,31 +320,107 @@ const API_BASE =
   ["localhost", "127.0.0.1"].includes(window.location.hostname)
     ? "http://localhost:3000"
     : "https://format-requests.onrender.com";
-const ADMIN_KEY = "change-me";
-const ADMIN_STORAGE_KEY = "adminToken";
+// Board-scoped routes of the board shown on this page
+const BOARD_API = `/api/boards/${currentBoard}`;
 
-const getStoredAdminKey = (): string => {
-  if (typeof window === "undefined") return "";
-  return sessionStorage.getItem(ADMIN_STORAGE_KEY) || "";
+// The admin session lives in an httpOnly cookie; only the CSRF token that
+// must accompany mutating requests is held here, in memory.
+let csrfToken = "";
+
+const adminFetch = (path: string, init: RequestInit = {}) =>
+  fetch(`${API_BASE}${path}`, {
+    ...init,
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      "x-csrf-token": csrfToken,
+      ...init.headers,
+    },
+  });
+
+// fetch for device routes: the device token travels in X-Device-Token, as
+// GETs have no body to carry it (the device is registered first if need be)
+const deviceFetch = async (path: string, init: RequestInit = {}) =>
+  fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Device-Token": await getDeviceToken(API_BASE),
+      ...init.headers,
+    },
+  });
+
+// Proof of work for a submission, when the server asks for it
+const proofOfWork = async () => {
+  const res = await fetch(`${API_BASE}/api/challenge`);
+  const { challenge, bits } = await res.json();
+  return challenge
+    ? { challenge, nonce: await solveChallenge(challenge, bits) }
+    : undefined;
 };
 
-const setStoredAdminKey = (value: string | null) => {
-  if (typeof window === "undefined") return;
-  if (value) sessionStorage.setItem(ADMIN_STORAGE_KEY, value);
-  else sessionStorage.removeItem(ADMIN_STORAGE_KEY);
+// Sends one outbox entry. Resolves to "sent", to "wait" while it cannot be
+// delivered yet, or to why the server turned it down.
+const replayEntry = async (entry: OutboxEntry) => {
+  let res: Response;
+  try {
+    if (entry.type === "admin") {
+      // Admin changes wait for a signed-in session
+      if (!csrfToken) return "wait";
+      res = await adminFetch(entry.path, {
+        method: entry.method,
+        body: JSON.stringify(entry.body),
+      });
+    } else {
+      const deviceToken = await getDeviceToken(API_BASE);
+      const pow = entry.type === "submit" ? await proofOfWork() : undefined;
+      res = await fetch(`${API_BASE}${entry.path}`, {
+        method: entry.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...entry.body, deviceToken, pow }),
+      });
+    }
+  } catch (err) {
+    console.warn("Could not replay queued request:", err);
+    return "wait";
+  }
+  if (res.ok) return "sent";
+  const body = await res.json().catch(() => ({}));
+  // Server trouble, rate limits and expired sessions pass; try again later
+  if (
+    res.status >= 500 ||
+    res.status === 429 ||
+    res.status === 401 ||
+    body.error === "invalid_csrf"
+  ) {
+    return "wait";
+  }
+  return describeFailure(body.error, res.status);
+};
+
+type Filters = Pick<State, "query" | "kind" | "status" | "sort">;
+
+// Filters a plain board URL stands for; the query string only holds changes
+const DEFAULT_FILTERS: Filters = {
+  query: "",
+  kind: "",
+  // Start on the statuses people can vote in
+  status: FALLBACK_TAXONOMY.statuses.find((s) => s.voting_open)?.key ?? "",
+  sort: "votes-desc",
 };
 
 const init = (): State => {
-  const rows = loadLocalRows(seed);
+  // The bundled seed only describes the default board
+  const rows = loadLocalRows(currentBoard === DEFAULT_BOARD ? seed : []);
   const votes = getVotesSet();
   return {
     admin: false,
+    adminUser: null,
     rows,
     votes,
-    query: "",
-    kind: "",
-    status: "Requested",
-    sort: "votes-desc",
+    page: null,
+    ...DEFAULT_FILTERS,
+    ...filtersFromSearch(window.location.search),
   };
 };
 
@@ -94,13 +428,31 @@ function reducer(state: State, action: Action): State {
   switch (action.type) {
     case "setFilter":
       return { ...state, ...action.payload };
-    case "toggleAdmin":
-      return { ...state, admin: action.value };
+    case "setAdmin": {
+      // Moderators only manage the boards they were assigned to
+      const user = action.user;
+      const admin =
+        !!user &&
+        (user.role === "owner" || !!user.boards?.includes(currentBoard));
+      return { ...state, admin, adminUser: user };
+    }
     case "addRow": {
       const rows = [...state.rows, action.row];
       saveLocalRows(rows);
       return { ...state, rows };
     }
+    case "upsertRow": {
+      // Live format.created / format.updated: keep client-side extras such as
+      // the search relevance of a row that is already loaded
+      const known = state.rows.some((r) => r.id === action.row.id);
+      const rows = known
+        ? state.rows.map((r) =>
+            r.id === action.row.id ? { ...r, ...action.row } : r,
+          )
+        : [...state.rows, action.row];
+      saveLocalRows(rows);
+      return { ...state, rows };
+    }
     case "updateStatus": {
       const rows = state.rows.map((r) =>
         r.id === action.id ? { ...r, status: action.status } : r,
@@ -136,13 +488,35 @@ function reducer(state: State, action: Action): State {
       saveLocalRows(rows);
       return { ...state, rows };
     }
+    case "commentCount": {
+      const rows = state.rows.map((r) =>
+        r.id === action.id ? { ...r, comment_count: action.count } : r,
+      );
+      saveLocalRows(rows);
+      return { ...state, rows };
+    }
     case "setRows": {
       // Replace rows and votes (votes array contains format ids the current device has voted for)
       const votesSet = new Set(action.votes || []);
       // Save the rows locally so offline usage still works
       saveLocalRows(action.rows);
       setVotesSet(votesSet);
-      return { ...state, rows: action.rows, votes: votesSet };
+      return {
+        ...state,
+        rows: action.rows,
+        votes: votesSet,
+        page: action.page ?? state.page,
+      };
+    }
+    case "appendRows": {
+      // A row can shift into the next page when its votes change; keep one copy
+      const known = new Set(state.rows.map((r) => r.id));
+      const rows = [
+        ...state.rows,
+        ...action.rows.filter((r) => !known.has(r.id)),
+      ];
+      saveLocalRows(rows);
+      return { ...state, rows, page: action.page };
     }
     default:
       return state;
@@ -159,6 +533,59 @@ export default function App() {
   const [reflowPending, setReflowPending] = useState(false);
   const reflowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastOrderRef = useRef<string[]>([]);
+  const [view, setView] = useState<View>("grid");
+  // Format shown on its own page (/formats/:id), or null for the board
+  const [formatId, setFormatId] = useState<string | null>(() =>
+    formatFromPath(window.location.pathname),
+  );
+  const formatIdRef = useRef(formatId);
+  formatIdRef.current = formatId;
+  // The format as GET /api/formats/:id returned it, which need not be among
+  // the loaded rows
+  const [detailRow, setDetailRow] = useState<Row | null>(null);
+  const [detailMissing, setDetailMissing] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [session, setSession] = useState<SessionView | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // Kinds and statuses of this board; `transitions` are limited to it
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(FALLBACK_TAXONOMY);
+  // Bumped per format when a live comment event arrives so open threads reload
+  const [commentRevisions, setCommentRevisions] = useState<
+    Record<string, number>
+  >({});
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [auditHasMore, setAuditHasMore] = useState(false);
+  const auditFiltersRef = useRef<AuditFilters>({});
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [webhookEvents, setWebhookEvents] = useState<string[]>([]);
+  // Signing secret of the webhook just created; the API shows it only once
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const deliveriesWebhookRef = useRef<string | null>(null);
+  const [notifications, setNotifications] = useState<InboxEntry[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [inboxOpen, setInboxOpen] = useState(false);
+  // Formats this device asked to be notified about ("Notify me")
+  const [subscriptions, setSubscriptions] = useState<Set<string>>(new Set());
+  const subscriptionsRef = useRef(subscriptions);
+  subscriptionsRef.current = subscriptions;
+  // Read by the live event handlers, which outlive a single render
+  const adminRef = useRef(state.admin);
+  adminRef.current = state.admin;
+  const [notifyEmail, setNotifyEmail] = useState<string | null>(null);
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [board, setBoard] = useState<Board>(FALLBACK_BOARD);
+  const [boards, setBoards] = useState<Board[]>([]);
+  // Accounts listed as possible board moderators (owners only)
+  const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  // Every kind and status, not just this board's (owners only)
+  const [allTaxonomy, setAllTaxonomy] = useState<Taxonomy>(FALLBACK_TAXONOMY);
+  const [moderation, setModeration] = useState<ModerationView | null>(null);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [bursts, setBursts] = useState<VoteBurstsView | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(loadOutbox);
+  const [online, setOnline] = useState(navigator.onLine);
+  const flushingRef = useRef(false);
   const css = style as Record<string, string>;
 
   const scheduleReflow = useCallback(() => {
@@ -180,29 +607,78 @@ export default function App() {
     };
   }, []);
 
+  // Latest filters for fetchFormats, read through a ref so the callback (and
+  // the SSE subscription depending on it) stays stable while typing
+  const filtersRef = useRef({
+    query: state.query,
+    kind: state.kind,
+    status: state.status,
+    sort: state.sort,
+  });
+  filtersRef.current = {
+    query: state.query,
+    kind: state.kind,
+    status: state.status,
+    sort: state.sort,
+  };
+  const pageRef = useRef<Page | null>(null);
+  pageRef.current = state.page;
+  // Only the newest request may update the rows
+  const formatsRequestRef = useRef(0);
+
+  // Loads the first page for the current filters, or the next one on `more`
   const fetchFormats = useCallback(
-    async (adminKey?: string) => {
+    async (more = false) => {
       if (!USE_API) return;
+      const cursor = more ? pageRef.current?.nextCursor : null;
+      if (more && !cursor) return;
+      const { query, kind, status, sort } = filtersRef.current;
+      const params = new URLSearchParams({
+        sort,
+        limit: String(FORMATS_PAGE_SIZE),
+      });
+      if (query.trim()) params.set("q", query.trim());
+      if (kind) params.set("kind", kind);
+      if (status) params.set("status", status);
+      if (cursor) params.set("cursor", cursor);
+      const requestId = ++formatsRequestRef.current;
       try {
-        const headers: HeadersInit = {};
-        if (adminKey) headers["x-admin-key"] = adminKey;
         const [rowsRes, votesRes] = await Promise.all([
-          fetch(`${API_BASE}/api/formats`, { headers }),
-          fetch(`${API_BASE}/api/votes/${deviceId}`),
+          fetch(`${API_BASE}${BOARD_API}/formats?${params}`, {
+            credentials: "include",
+          }),
+          more || !deviceId
+            ? null
+            : deviceFetch("/api/votes").catch(() => null),
         ]);
         if (!rowsRes.ok) {
           console.warn("Failed to fetch formats from API:", rowsRes.status);
           return;
         }
-        const rows = await rowsRes.json();
+        const body = await rowsRes.json();
+        if (requestId !== formatsRequestRef.current) return;
+        const page: Page = {
+          total: body.total,
+          nextCursor: body.nextCursor,
+          query: query.trim(),
+        };
+        if (more) {
+          dispatch({ type: "appendRows", rows: body.items, page });
+          return;
+        }
         let votes: string[] = [];
-        if (votesRes.ok) {
+        if (votesRes?.ok) {
           votes = await votesRes.json();
         } else {
           votes = Array.from(getVotesSet());
         }
         const votesSet = new Set(votes);
-        dispatch({ type: "setRows", rows, votes: Array.from(votesSet) });
+        dispatch({
+          type: "setRows",
+          rows: body.items,
+          votes: Array.from(votesSet),
+          page,
+        });
       } catch (err) {
         console.error("Error fetching formats:", err);
       }
@@ -210,88 +686,483 @@ export default function App() {
     [dispatch],
   );
 
+  // Filters are applied by the server, so changing them reloads the first
+  // page (debounced while typing a search)
   useEffect(() => {
     if (!USE_API) return;
-    const storedKey = getStoredAdminKey();
-    void fetchFormats(storedKey || undefined);
-  }, [fetchFormats]);
+    const timer = setTimeout(() => void fetchFormats(), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [
+    fetchFormats,
+    state.query,
+    state.kind,
+    state.status,
+    state.sort,
+    state.admin,
+  ]);
 
-  useEffect(() => {
+  const fetchSessions = useCallback(async () => {
     if (!USE_API) return;
-    const es = new EventSource(`${API_BASE}/api/live`);
-    es.onmessage = (e: MessageEvent) => {
-      try {
-        const data = JSON.parse(e.data);
-        if (
-          data &&
-          typeof data.id === "string" &&
-          typeof data.votes === "number"
-        ) {
-          dispatch({ type: "voteUpdate", id: data.id, votes: data.votes });
-        }
-      } catch (err) {
-        console.error("SSE parse error:", err);
+    try {
+      const res = await fetch(`${API_BASE}/api/sessions`);
+      if (!res.ok) {
+        console.warn("Failed to fetch sessions from API:", res.status);
+        return;
       }
-    };
-    return () => es.close();
+      setSessions(await res.json());
+    } catch (err) {
+      console.error("Error fetching sessions:", err);
+    }
+  }, []);
+
+  const fetchSession = useCallback(async (id: string) => {
+    if (!USE_API) return;
+    try {
+      const res = await deviceFetch(`/api/sessions/${id}`);
+      if (!res.ok) {
+        console.warn("Failed to fetch session from API:", res.status);
+        return;
+      }
+      const view: SessionView = await res.json();
+      if (sessionIdRef.current === view.id) setSession(view);
+    } catch (err) {
+      console.error("Error fetching session:", err);
+    }
   }, []);
 
-  const onAdminActivate = useCallback(
-    async (key: string) => {
-      if (!USE_API) {
-        const ok = key === ADMIN_KEY;
-        if (ok) setStoredAdminKey(key);
-        else setStoredAdminKey(null);
-        dispatch({ type: "toggleAdmin", value: ok });
+  useEffect(() => {
+    void fetchSessions();
+  }, [fetchSessions]);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!USE_API || !deviceId) return;
+    try {
+      const res = await deviceFetch("/api/notifications");
+      if (!res.ok) {
+        console.warn("Failed to fetch notifications from API:", res.status);
+        return;
+      }
+      const body = await res.json();
+      setNotifications(body.items);
+      setUnread(body.unread);
+    } catch (err) {
+      console.error("Error fetching notifications:", err);
+    }
+  }, []);
+
+  const fetchNotificationSettings = useCallback(async () => {
+    if (!USE_API || !deviceId) return;
+    try {
+      const res = await deviceFetch("/api/notifications/settings");
+      if (!res.ok) {
+        console.warn("Failed to fetch notification settings:", res.status);
         return;
       }
+      const body = await res.json();
+      setSubscriptions(new Set(body.subscriptions));
+      setNotifyEmail(body.email);
+      setEmailEnabled(body.emailEnabled);
+    } catch (err) {
+      console.error("Error fetching notification settings:", err);
+    }
+  }, []);
+
+  // A device without an ID yet gets one now rather than on its first vote
+  useEffect(() => {
+    if (!USE_API) return;
+    getDeviceToken(API_BASE).catch((err: unknown) =>
+      console.error("Error registering device:", err),
+    );
+  }, []);
+
+  useEffect(() => {
+    void fetchNotifications();
+    void fetchNotificationSettings();
+  }, [fetchNotifications, fetchNotificationSettings]);
+
+  const fetchSubmissions = useCallback(async () => {
+    if (!USE_API || !deviceId) return;
+    try {
+      const res = await deviceFetch("/api/submissions");
+      if (!res.ok) {
+        console.warn("Failed to fetch submissions from API:", res.status);
+        return;
+      }
+      setSubmissions(await res.json());
+    } catch (err) {
+      console.error("Error fetching submissions:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  const fetchTaxonomy = useCallback(async () => {
+    if (!USE_API) return;
+    try {
+      const res = await fetch(`${API_BASE}${BOARD_API}/taxonomy`);
+      if (res.ok) setTaxonomy(await res.json());
+    } catch (err) {
+      console.error("Error fetching taxonomy:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchTaxonomy();
+  }, [fetchTaxonomy]);
 
-      const trimmed = key.trim();
-      if (!trimmed) {
-        setStoredAdminKey(null);
-        dispatch({ type: "toggleAdmin", value: false });
+  const fetchDetail = useCallback(async (id: string) => {
+    if (!USE_API) return;
+    try {
+      const res = await fetch(
+        `${API_BASE}${BOARD_API}/formats/${encodeURIComponent(id)}`,
+        { credentials: "include" },
+      );
+      if (formatIdRef.current !== id) return;
+      if (!res.ok) {
+        console.warn("Failed to fetch format from API:", res.status);
+        if (res.status === 404 || res.status === 400) setDetailMissing(true);
         return;
       }
+      const row: Row = await res.json();
+      // IDs of merged formats answer with the format they were merged into
+      if (row.id !== id) {
+        window.history.replaceState(null, "", formatHref(currentBoard, row.id));
+        setFormatId(row.id);
+      }
+      setDetailRow(row);
+    } catch (err) {
+      console.error("Error fetching format:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    setDetailMissing(false);
+    if (formatId) void fetchDetail(formatId);
+  }, [formatId, fetchDetail]);
 
+  // Back and forward between the board and format pages. Format URLs carry
+  // no filters, so the board keeps the ones it had.
+  useEffect(() => {
+    const onPopState = () => {
+      const id = formatFromPath(window.location.pathname);
+      setFormatId(id);
+      if (!id) {
+        dispatch({
+          type: "setFilter",
+          payload: {
+            ...DEFAULT_FILTERS,
+            ...filtersFromSearch(window.location.search),
+          },
+        });
+      }
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [dispatch]);
+
+  // Filters and sort are mirrored into the query string so a filtered board
+  // can be bookmarked or shared
+  useEffect(() => {
+    if (formatId) return;
+    const search = filtersToSearch(
+      {
+        query: state.query,
+        kind: state.kind,
+        status: state.status,
+        sort: state.sort,
+      },
+      DEFAULT_FILTERS,
+    );
+    if (search !== window.location.search) {
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${window.location.pathname}${search}${window.location.hash}`,
+      );
+    }
+  }, [formatId, state.query, state.kind, state.status, state.sort]);
+
+  const openFormat = (id: string) => {
+    window.history.pushState(null, "", formatHref(currentBoard, id));
+    setDetailRow(null);
+    setFormatId(id);
+    window.scrollTo(0, 0);
+  };
+
+  const closeFormat = () => {
+    window.history.pushState(
+      null,
+      "",
+      boardHref(currentBoard) +
+        filtersToSearch(filtersRef.current, DEFAULT_FILTERS),
+    );
+    setFormatId(null);
+  };
+
+  // Live changes to the format on its page, when it is not a loaded row
+  const patchDetail = (id: string, changes: Partial<Row>) =>
+    setDetailRow((current) =>
+      current?.id === id ? { ...current, ...changes } : current,
+    );
+
+  useEffect(() => {
+    if (!USE_API) return;
+    // EventSource resends the last event ID when it reconnects, so the
+    // server replays what was missed (or sends a reset)
+    const es = new EventSource(`${API_BASE}${BOARD_API}/live`);
+    // A status change lands in the inbox of every subscribed device
+    const refreshInbox = (id: string) => {
+      if (subscriptionsRef.current.has(id)) void fetchNotifications();
+    };
+    const listen = (event: string, handle: (data: any) => void) =>
+      es.addEventListener(event, (e: MessageEvent) => {
+        try {
+          const data = JSON.parse(e.data);
+          if (data) handle(data);
+        } catch (err) {
+          console.error("SSE parse error:", err);
+        }
+      });
+    listen("vote", (data) => {
+      if (typeof data.id === "string" && typeof data.votes === "number") {
+        dispatch({ type: "voteUpdate", id: data.id, votes: data.votes });
+        patchDetail(data.id, { votes: data.votes });
+      }
+    });
+    listen("format.created", (data) => {
+      if (typeof data.id !== "string") return;
+      dispatch({ type: "upsertRow", row: data });
+    });
+    listen("format.updated", (data) => {
+      if (typeof data.id !== "string") return;
+      dispatch({ type: "upsertRow", row: data });
+      patchDetail(data.id, data);
+      refreshInbox(data.id);
+    });
+    listen("format.deleted", (data) => {
+      if (typeof data.id !== "string") return;
+      // Admins keep seeing formats that moved to a hidden status
+      if (!(data.hidden && adminRef.current)) {
+        dispatch({ type: "deleteRow", id: data.id });
+        if (data.id === formatIdRef.current) setDetailMissing(true);
+      }
+      refreshInbox(data.id);
+    });
+    // Events were missed and cannot be replayed: start over
+    listen("reset", () => {
+      void fetchFormats();
+    });
+    listen("session", (data) => {
+      void fetchSessions();
+      if (data.id === sessionIdRef.current) void fetchSession(data.id);
+    });
+    listen("comment", (data) => {
+      if (typeof data.formatId !== "string") return;
+      dispatch({
+        type: "commentCount",
+        id: data.formatId,
+        count: Number(data.comment_count) || 0,
+      });
+      setCommentRevisions((current) => ({
+        ...current,
+        [data.formatId]: (current[data.formatId] || 0) + 1,
+      }));
+    });
+    // Merges move votes between rows, so reload rows and this device's votes
+    es.addEventListener("merge", () => {
+      void fetchFormats();
+      void fetchNotificationSettings();
+      if (formatIdRef.current) void fetchDetail(formatIdRef.current);
+    });
+    return () => es.close();
+  }, [
+    fetchSessions,
+    fetchSession,
+    fetchFormats,
+    fetchNotifications,
+    fetchNotificationSettings,
+    fetchDetail,
+  ]);
+
+  const onAdminLogin = useCallback(
+    async (username: string, password: string) => {
+      if (!USE_API) return false;
       try {
-        const res = await fetch(`${API_BASE}/api/admin/verify`, {
+        const res = await fetch(`${API_BASE}/api/admin/login`, {
           method: "POST",
+          credentials: "include",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ adminKey: trimmed }),
+          body: JSON.stringify({ username, password }),
         });
-        if (res.ok) {
-          setStoredAdminKey(trimmed);
-          dispatch({ type: "toggleAdmin", value: true });
-          await fetchFormats(trimmed);
-        } else {
-          setStoredAdminKey(null);
-          dispatch({ type: "toggleAdmin", value: false });
+        if (!res.ok) {
+          console.warn("Admin login failed:", res.status);
+          return false;
         }
+        const body = await res.json();
+        csrfToken = body.csrfToken;
+        dispatch({ type: "setAdmin", user: body.user });
+        await fetchFormats();
+        return true;
       } catch (err) {
-        console.error("Error verifying admin key:", err);
-        setStoredAdminKey(null);
-        dispatch({ type: "toggleAdmin", value: false });
+        console.error("Error signing in:", err);
+        return false;
       }
     },
     [dispatch, fetchFormats],
   );
 
+  const onAdminLogout = useCallback(async () => {
+    try {
+      await adminFetch("/api/admin/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Error signing out:", err);
+    }
+    csrfToken = "";
+    dispatch({ type: "setAdmin", user: null });
+    await fetchFormats();
+  }, [dispatch, fetchFormats]);
+
+  // Restore an existing admin session (cookie) after a reload
   useEffect(() => {
     if (!USE_API) return;
-    const storedKey = getStoredAdminKey();
-    if (storedKey) {
-      void onAdminActivate(storedKey);
+    (async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/admin/me`, {
+          credentials: "include",
+        });
+        if (!res.ok) return;
+        const body = await res.json();
+        csrfToken = body.csrfToken;
+        dispatch({ type: "setAdmin", user: body.user });
+        await fetchFormats();
+      } catch (err) {
+        console.error("Error restoring admin session:", err);
+      }
+    })();
+  }, [dispatch, fetchFormats]);
+
+  // The outbox is read back from storage on every change so other tabs'
+  // entries are kept
+  const updateOutbox = useCallback(
+    (change: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+      const next = change(loadOutbox());
+      saveOutbox(next);
+      setOutbox(next);
+    },
+    [],
+  );
+
+  // Replays pending entries oldest first, stopping at the first one that
+  // cannot be delivered yet so later ones never overtake it
+  const flushOutbox = useCallback(async () => {
+    if (!USE_API || flushingRef.current) return;
+    flushingRef.current = true;
+    let settled = 0;
+    try {
+      for (const entry of loadOutbox() as OutboxEntry[]) {
+        if (entry.state !== "pending") continue;
+        const result = await replayEntry(entry);
+        if (result === "wait") break;
+        settled++;
+        updateOutbox((entries) =>
+          result === "sent"
+            ? entries.filter((e) => e.id !== entry.id)
+            : entries.map((e) =>
+                e.id === entry.id
+                  ? { ...e, state: "failed", error: result }
+                  : e,
+              ),
+        );
+      }
+    } finally {
+      flushingRef.current = false;
     }
-  }, [onAdminActivate]);
+    // The server's view replaces what was applied locally while queued
+    if (settled) {
+      void fetchFormats();
+      void fetchSubmissions();
+    }
+  }, [updateOutbox, fetchFormats, fetchSubmissions]);
+
+  // Admin entries also wait for the session restore above
+  useEffect(() => {
+    void flushOutbox();
+  }, [flushOutbox, state.admin]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      void flushOutbox();
+    };
+    const goOffline = () => setOnline(false);
+    // Relayed Background Sync (src/sw.js)
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "outbox-sync") void flushOutbox();
+    };
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, [flushOutbox]);
+
+  // Once something waits in the outbox, new requests queue behind it
+  const outboxBusy = () =>
+    (loadOutbox() as OutboxEntry[]).some((e) => e.state === "pending");
+
+  // Keeps a request for replay and applies its effect locally meanwhile
+  const enqueue = (request: QueuedRequest, applyLocally: () => void) => {
+    updateOutbox((entries) => [
+      ...entries,
+      createEntry(request) as OutboxEntry,
+    ]);
+    applyLocally();
+    requestSync();
+    if (navigator.onLine) void flushOutbox();
+  };
+
+  const onRetryOutbox = (id: string) => {
+    updateOutbox((entries) =>
+      entries.map((e) =>
+        e.id === id ? { ...e, state: "pending", error: null } : e,
+      ),
+    );
+    void flushOutbox();
+  };
+
+  const onDismissOutbox = (id: string) =>
+    updateOutbox((entries) => entries.filter((e) => e.id !== id));
 
   const filtered = useMemo(() => {
-    const q = state.query.trim().toLowerCase();
+    const q = state.query.trim();
+    // Rows the server searched carry its (typo-tolerant) relevance; anything
+    // else, e.g. offline or before the search returns, is ranked locally
+    const searchedByServer = !!q && state.page?.query === q;
+    const relevance = new Map<string, number>();
+    if (q) {
+      for (const r of state.rows) {
+        relevance.set(
+          r.id,
+          searchedByServer && r.relevance != null
+            ? r.relevance
+            : localRelevance(r, q),
+        );
+      }
+    }
     const filteredRows: Row[] = state.rows.filter(
       (r) =>
-        (state.admin || r.status !== "In Review") &&
-        (!q || r.name.toLowerCase().includes(q)) &&
+        (state.admin || isPublic(taxonomy, r)) &&
+        (!q || (relevance.get(r.id) ?? 0) >= SEARCH_MIN_RELEVANCE) &&
         (!state.kind || r.kind === state.kind) &&
-        (!state.status || r.status === state.status),
+        // Without a status filter, submissions are left to the review queue
+        (state.status
+          ? r.status === state.status
+          : r.status !== initialStatus(taxonomy)),
     );
 
     const sortKey = state.sort;
@@ -317,6 +1188,29 @@ export default function App() {
               new Date(a.created_at).getTime(),
           );
           break;
+        case "relevance":
+          sortedRows.sort(
+            (a, b) =>
+              (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0) ||
+              Number(b.votes) - Number(a.votes),
+          );
+          break;
+        case "priority":
+          sortedRows.sort(
+            (a, b) =>
+              priorityScore(b) - priorityScore(a) ||
+              Number(b.votes) - Number(a.votes) ||
+              a.name.localeCompare(b.name),
+          );
+          break;
+        case "trending":
+          sortedRows.sort(
+            (a, b) =>
+              localMomentum(b) - localMomentum(a) ||
+              Number(b.votes) - Number(a.votes) ||
+              a.name.localeCompare(b.name),
+          );
+          break;
         default:
           break;
       }
@@ -349,20 +1243,45 @@ export default function App() {
     applySort();
     lastOrderRef.current = sortedRows.map((r) => r.id);
     return sortedRows;
-  }, [state, reflowPending]);
+  }, [state, taxonomy, reflowPending]);
+
+  const mergeTargets = useMemo(
+    () =>
+      state.rows
+        .map((r) => ({ id: r.id, name: r.name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [state.rows],
+  );
 
   const onVote = async (id: string) => {
-    const target = state.rows.find((r) => r.id === id);
-    if (!target || target.status !== "Requested") return; // block votes on Planned/Supported
+    const target =
+      state.rows.find((r) => r.id === id) ??
+      (detailRow?.id === id ? detailRow : undefined);
+    if (!target || !isVotable(taxonomy, target)) return; // voting closed for its kind or status
 
     if (USE_API) {
+      const isCurrentlyVoted = state.votes.has(id);
+      // Replays set the vote rather than toggle it
+      const queued: QueuedRequest = {
+        type: "vote",
+        label: `${isCurrentlyVoted ? "Remove vote for" : "Vote for"} ${target.name}`,
+        path: `${BOARD_API}/formats/${id}/vote`,
+        method: "POST",
+        body: { voted: !isCurrentlyVoted },
+      };
+      const applyLocally = () => {
+        dispatch({ type: "voteToggle", id });
+        patchDetail(id, { votes: target.votes + (isCurrentlyVoted ? -1 : 1) });
+        scheduleReflow();
+      };
+      if (outboxBusy()) return enqueue(queued, applyLocally);
       try {
-        const isCurrentlyVoted = state.votes.has(id);
         const method = "POST";
-        const res = await fetch(`${API_BASE}/api/formats/${id}/vote`, {
+        const deviceToken = await getDeviceToken(API_BASE);
+        const res = await fetch(`${API_BASE}${BOARD_API}/formats/${id}/vote`, {
           method,
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ deviceId }),
+          body: JSON.stringify({ deviceToken, voted: !isCurrentlyVoted }),
         });
         if (!res.ok) {
           console.warn("Failed to update vote via API:", res.status);
@@ -376,6 +1295,7 @@ export default function App() {
           updatedRows = state.rows.map((r) =>
             r.id === id ? { ...r, votes: body.votes } : r,
           );
+          patchDetail(id, { votes: body.votes });
         } else if (body && body.id) {
           updatedRows = state.rows.map((r) => (r.id === id ? body : r));
         }
@@ -385,6 +1305,12 @@ export default function App() {
         const votesSet = new Set(state.votes);
         if (voted) votesSet.add(id);
         else votesSet.delete(id);
+        // The server drops the subscription together with the vote
+        if (!voted && subscriptions.has(id)) {
+          const next = new Set(subscriptions);
+          next.delete(id);
+          setSubscriptions(next);
+        }
 
         // Persist and update state
         saveLocalRows(updatedRows);
@@ -396,6 +1322,7 @@ export default function App() {
         });
         scheduleReflow();
       } catch (err) {
+        if (isOffline(err)) return enqueue(queued, applyLocally);
         console.error("Error updating vote:", err);
       }
       return;
@@ -406,23 +1333,104 @@ export default function App() {
     scheduleReflow();
   };
 
-  const onSubmitFormat = async (name: string, kind: string) => {
+  const onToggleSubscription = async (id: string) => {
+    const subscribed = !subscriptions.has(id);
+    try {
+      const res = await deviceFetch(`${BOARD_API}/formats/${id}/subscription`, {
+        method: "PUT",
+        body: JSON.stringify({ subscribed }),
+      });
+      if (!res.ok) {
+        console.warn("Failed to update subscription via API:", res.status);
+        return;
+      }
+      const next = new Set(subscriptions);
+      if (subscribed) next.add(id);
+      else next.delete(id);
+      setSubscriptions(next);
+    } catch (err) {
+      console.error("Error updating subscription:", err);
+    }
+  };
+
+  const onMarkNotificationsRead = async (ids?: string[]) => {
+    try {
+      const res = await deviceFetch("/api/notifications/read", {
+        method: "POST",
+        body: JSON.stringify({ ids }),
+      });
+      if (!res.ok) {
+        console.warn("Failed to mark notifications read:", res.status);
+        return;
+      }
+      await fetchNotifications();
+    } catch (err) {
+      console.error("Error marking notifications read:", err);
+    }
+  };
+
+  const onSaveNotifyEmail = async (email: string) => {
+    try {
+      const res = await deviceFetch("/api/notifications/email", {
+        method: "PUT",
+        body: JSON.stringify({ email: email || null }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        return body.error === "invalid_email"
+          ? "That does not look like an email address."
+          : "Could not save the address.";
+      }
+      setNotifyEmail((await res.json()).email);
+      return null;
+    } catch (err) {
+      console.error("Error saving notification email:", err);
+      return "Could not save the address.";
+    }
+  };
+
+  // `website` is the honeypot field, left empty by people. Resolves to
+  // "queued" when the submission waits in the outbox.
+  const onSubmitFormat = async (name: string, kind: string, website = "") => {
     if (USE_API) {
+      const queued: QueuedRequest = {
+        type: "submit",
+        label: `Submit ${name.trim()}`,
+        path: `${BOARD_API}/formats/submit`,
+        method: "POST",
+        body: { name: name.trim(), kind, website },
+      };
+      if (outboxBusy()) {
+        enqueue(queued, () => {});
+        return "queued";
+      }
       try {
-        const res = await fetch(`${API_BASE}/api/formats/submit`, {
+        const [deviceToken, pow] = await Promise.all([
+          getDeviceToken(API_BASE),
+          proofOfWork(),
+        ]);
+        const res = await fetch(`${API_BASE}${BOARD_API}/formats/submit`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             name: name.trim(),
             kind,
+            deviceToken,
+            pow,
+            website,
           }),
         });
         if (!res.ok) {
           console.warn("Failed to submit format for review:", res.status);
           return false;
         }
+        void fetchSubmissions();
         return true;
       } catch (err) {
+        if (isOffline(err)) {
+          enqueue(queued, () => {});
+          return "queued";
+        }
         console.error("Error submitting format:", err);
         return false;
       }
@@ -431,7 +1439,7 @@ export default function App() {
       id: crypto.randomUUID(),
       name: name.trim(),
       kind,
-      status: "In Review",
+      status: initialStatus(taxonomy) ?? "",
       created_at: new Date().toISOString(),
       votes: 0,
     };
@@ -439,63 +1447,88 @@ export default function App() {
     return true;
   };
 
-  const onAdd = async (name: string, kind: string, status: string) => {
+  const onAdd = async (
+    name: string,
+    kind: string,
+    status: string,
+    metadata: Partial<FormatChanges> = {},
+  ) => {
+    // Local stand-in, also shown while the request waits in the outbox
+    const row: Row = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      kind,
+      status,
+      created_at: new Date().toISOString(),
+      votes: 0,
+      mime_types: metadata.mimeTypes || [],
+      extensions: (metadata.extensions || []).map((e) =>
+        e.toLowerCase().replace(/^\./, ""),
+      ),
+      spec_urls: metadata.specUrls || [],
+    };
     if (USE_API) {
+      const queued: QueuedRequest = {
+        type: "admin",
+        label: `Add ${name.trim()}`,
+        path: `${BOARD_API}/formats`,
+        method: "POST",
+        body: { name: name.trim(), kind, status, ...metadata },
+      };
+      const applyLocally = () => dispatch({ type: "addRow", row });
+      if (outboxBusy()) return enqueue(queued, applyLocally);
       try {
-        const adminKey = getStoredAdminKey();
-        if (!adminKey) {
-          console.warn("Cannot add format: missing admin key");
-          return;
-        }
-        const res = await fetch(`${API_BASE}/api/formats`, {
+        const res = await adminFetch(queued.path, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: name.trim(),
-            kind,
-            status,
-            adminKey,
-          }),
+          body: JSON.stringify(queued.body),
         });
         if (!res.ok) {
           console.warn("Failed to add format via API:", res.status);
           return;
         }
-        const row = await res.json();
+        const created = await res.json();
         // Append returned row to local state (and persist locally)
-        dispatch({ type: "addRow", row });
+        dispatch({ type: "addRow", row: created });
       } catch (err) {
+        if (isOffline(err)) return enqueue(queued, applyLocally);
         console.error("Error adding format:", err);
       }
       return;
     }
-    const row: Row = {
-      id: crypto.randomUUID(),
-      name: name.trim(),
-      kind,
-      status,
-      created_at: new Date().toISOString(),
-      votes: 0,
-    };
     dispatch({ type: "addRow", row });
   };
 
+  const nameOf = (id: string) =>
+    state.rows.find((r) => r.id === id)?.name ?? id;
+
   const onSaveStatus = async (id: string, status: string) => {
     if (USE_API) {
+      const queued: QueuedRequest = {
+        type: "admin",
+        label: `Move ${nameOf(id)} to ${status}`,
+        path: `${BOARD_API}/formats/${id}/status`,
+        method: "PUT",
+        body: { status },
+      };
+      const applyLocally = () => dispatch({ type: "updateStatus", id, status });
+      if (outboxBusy()) {
+        enqueue(queued, applyLocally);
+        return null;
+      }
       try {
-        const adminKey = getStoredAdminKey();
-        if (!adminKey) {
-          console.warn("Cannot update status: missing admin key");
-          return;
-        }
-        const res = await fetch(`${API_BASE}/api/formats/${id}/status`, {
+        const res = await adminFetch(`${BOARD_API}/formats/${id}/status`, {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ status, adminKey }),
+          body: JSON.stringify({ status }),
         });
         if (!res.ok) {
           console.warn("Failed to update status via API:", res.status);
-          return;
+          const body = await res.json().catch(() => ({}));
+          if (body.error === "invalid_transition") {
+            return `Cannot move from ${body.from} to ${body.to}. Allowed: ${
+              body.allowed.join(", ") || "none"
+            }.`;
+          }
+          return "Could not update status.";
         }
         const updated = await res.json();
         // Update local rows to reflect updated status and persist
@@ -503,24 +1536,264 @@ export default function App() {
         saveLocalRows(rows);
         dispatch({ type: "setRows", rows, votes: Array.from(state.votes) });
       } catch (err) {
+        if (isOffline(err)) {
+          enqueue(queued, applyLocally);
+          return null;
+        }
         console.error("Error updating status:", err);
+        return "Could not update status.";
       }
-      return;
+      return null;
     }
     dispatch({ type: "updateStatus", id, status });
+    return null;
   };
+
+  const onLoadHistory = async (id: string) => {
+    if (!USE_API) return [];
+    try {
+      const res = await fetch(`${API_BASE}${BOARD_API}/formats/${id}/history`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        console.warn("Failed to fetch status history:", res.status);
+        return [];
+      }
+      return await res.json();
+    } catch (err) {
+      console.error("Error fetching status history:", err);
+      return [];
+    }
+  };
+  const onMerge = async (sourceId: string, canonicalId: string) => {
+    if (!USE_API) return;
+    const queued: QueuedRequest = {
+      type: "admin",
+      label: `Merge ${nameOf(sourceId)} into ${nameOf(canonicalId)}`,
+      path: `${BOARD_API}/formats/${canonicalId}/merge`,
+      method: "POST",
+      body: { sourceIds: [sourceId] },
+    };
+    const applyLocally = () => dispatch({ type: "deleteRow", id: sourceId });
+    if (outboxBusy()) return enqueue(queued, applyLocally);
+    try {
+      const res = await adminFetch(
+        `${BOARD_API}/formats/${canonicalId}/merge`,
+        {
+          method: "POST",
+          body: JSON.stringify({ sourceIds: [sourceId] }),
+        },
+      );
+      if (!res.ok) {
+        console.warn("Failed to merge formats via API:", res.status);
+        return;
+      }
+      await fetchFormats();
+    } catch (err) {
+      if (isOffline(err)) return enqueue(queued, applyLocally);
+      console.error("Error merging formats:", err);
+    }
+  };
+
+  // Resolves to an error message, or null once the changes are saved
+  const onUpdateFormat = async (id: string, changes: FormatChanges) => {
+    if (!USE_API) return "Editing formats needs the API.";
+    const queued: QueuedRequest = {
+      type: "admin",
+      label: `Edit ${changes.name}`,
+      path: `${BOARD_API}/formats/${id}`,
+      method: "PATCH",
+      body: changes,
+    };
+    // Relations and metadata show once the replay reloads the rows
+    const applyLocally = () => {
+      const row = state.rows.find((r) => r.id === id);
+      if (row) {
+        dispatch({
+          type: "upsertRow",
+          row: { ...row, name: changes.name, kind: changes.kind },
+        });
+      }
+    };
+    if (outboxBusy()) {
+      enqueue(queued, applyLocally);
+      return null;
+    }
+    try {
+      const res = await adminFetch(`${BOARD_API}/formats/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) {
+        console.warn("Failed to update format via API:", res.status);
+        const body = await res.json().catch(() => ({}));
+        if (body.error === "duplicate_name") {
+          return `Another format is already called ${changes.name}.`;
+        }
+        if (
+          body.error === "invalid_metadata" ||
+          body.error === "invalid_priority"
+        ) {
+          return `Invalid value in ${body.field}: ${body.value}`;
+        }
+        if (body.error === "metadata_conflict") {
+          return `${body.value} is already used by another format.`;
+        }
+        return "Could not save changes.";
+      }
+      // Names and relations show up on other formats too, so reload them all
+      await fetchFormats();
+      return null;
+    } catch (err) {
+      if (isOffline(err)) {
+        enqueue(queued, applyLocally);
+        return null;
+      }
+      console.error("Error updating format:", err);
+      return "Could not save changes.";
+    }
+  };
+
+  const onExport = async (format: "csv" | "json") => {
+    try {
+      const res = await adminFetch(
+        `${BOARD_API}/admin/formats/export?format=${format}`,
+      );
+      if (!res.ok) {
+        console.warn("Failed to export catalog:", res.status);
+        return;
+      }
+      // Save through a temporary link so the cookie-authenticated response
+      // downloads like a regular file
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `formats-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting catalog:", err);
+    }
+  };
+
+  // Resolves to the server's import report, or { message } when it failed
+  const onImport = async (
+    file: File,
+    options: { mode: string; dryRun: boolean },
+  ) => {
+    const isJson = file.name.toLowerCase().endsWith(".json");
+    try {
+      const res = await adminFetch(
+        `${BOARD_API}/admin/formats/import?mode=${options.mode}&dryRun=${options.dryRun}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": isJson ? "application/json" : "text/csv" },
+          body: await file.text(),
+        },
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok && body.error !== "invalid_rows") {
+        console.warn("Failed to import catalog:", res.status);
+        return { message: `Import failed (${body.error || res.status}).` };
+      }
+      if (!options.dryRun && res.ok) await fetchFormats();
+      return body;
+    } catch (err) {
+      console.error("Error importing catalog:", err);
+      return { message: "Import failed." };
+    }
+  };
+
+  const onLoadComments = async (formatId: string) => {
+    if (!USE_API) return [];
+    try {
+      const res = await deviceFetch(
+        `${BOARD_API}/formats/${formatId}/comments`,
+        {
+          credentials: "include",
+        },
+      );
+      if (!res.ok) {
+        console.warn("Failed to fetch comments:", res.status);
+        return [];
+      }
+      return await res.json();
+    } catch (err) {
+      console.error("Error fetching comments:", err);
+      return [];
+    }
+  };
+
+  // Comment mutations resolve to true on success so the thread can refresh
+  const commentRequest = async (
+    path: string,
+    init: RequestInit,
+    admin = false,
+  ) => {
+    if (!USE_API) return false;
+    try {
+      const res = admin
+        ? await adminFetch(path, init)
+        : await deviceFetch(path, {
+            ...init,
+            // Admins may comment on formats that are still hidden
+            credentials: "include",
+          });
+      if (!res.ok) {
+        console.warn(`Failed comment request ${path}:`, res.status);
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error(`Error on comment request ${path}:`, err);
+      return false;
+    }
+  };
+
+  const onPostComment = (
+    formatId: string,
+    body: string,
+    parentId: string | null,
+  ) =>
+    commentRequest(`${BOARD_API}/formats/${formatId}/comments`, {
+      method: "POST",
+      body: JSON.stringify({
+        body,
+        parentId,
+        authorName: getDisplayName() || undefined,
+      }),
+    });
+
+  const onEditComment = (id: string, body: string) =>
+    commentRequest(`/api/comments/${id}`, {
+      method: "PUT",
+      body: JSON.stringify({ body }),
+    });
+
+  const onHideComment = (id: string, hidden: boolean) =>
+    commentRequest(
+      `/api/comments/${id}/hidden`,
+      { method: "PUT", body: JSON.stringify({ hidden }) },
+      true,
+    );
+
+  const onDeleteComment = (id: string) =>
+    commentRequest(`/api/comments/${id}`, { method: "DELETE" }, true);
+
   const onDelete = async (id: string) => {
     if (USE_API) {
+      const queued: QueuedRequest = {
+        type: "admin",
+        label: `Delete ${nameOf(id)}`,
+        path: `${BOARD_API}/formats/${id}`,
+        method: "DELETE",
+        body: {},
+      };
+      const applyLocally = () => dispatch({ type: "deleteRow", id });
+      if (outboxBusy()) return enqueue(queued, applyLocally);
       try {
-        const adminKey = getStoredAdminKey();
-        if (!adminKey) {
-          console.warn("Cannot delete format: missing admin key");
-          return;
-        }
-        const res = await fetch(`${API_BASE}/api/formats/${id}`, {
+        const res = await adminFetch(`${BOARD_API}/formats/${id}`, {
           method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ adminKey }),
         });
         if (!res.ok) {
           console.warn("Failed to delete via API:", res.status);
@@ -534,6 +1807,7 @@ export default function App() {
         setVotesSet(votes);
         dispatch({ type: "setRows", rows, votes: Array.from(votes) });
       } catch (err) {
+        if (isOffline(err)) return enqueue(queued, applyLocally);
         console.error("Error deleting format:", err);
       }
       return;
@@ -541,40 +1815,692 @@ export default function App() {
     dispatch({ type: "deleteRow", id });
   };
 
+  // Loads the first page of audit entries, or the next one when `before` is set
+  const fetchAudit = useCallback(async (before?: string) => {
+    if (!USE_API) return;
+    const params = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE) });
+    for (const [key, value] of Object.entries(auditFiltersRef.current)) {
+      if (value) params.set(key, value);
+    }
+    if (before) params.set("before", before);
+    try {
+      const res = await adminFetch(`/api/audit?${params}`);
+      if (!res.ok) {
+        console.warn("Failed to fetch audit log from API:", res.status);
+        return;
+      }
+      const entries: AuditEntry[] = await res.json();
+      setAudit((current) => (before ? [...current, ...entries] : entries));
+      setAuditHasMore(entries.length === AUDIT_PAGE_SIZE);
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (view === "audit" && state.admin) void fetchAudit();
+  }, [view, state.admin, fetchAudit]);
+
+  const fetchModeration = useCallback(async () => {
+    if (!USE_API) return;
+    try {
+      const res = await adminFetch(`${BOARD_API}/moderation`);
+      if (!res.ok) {
+        console.warn("Failed to fetch moderation queue:", res.status);
+        return;
+      }
+      setModeration(await res.json());
+    } catch (err) {
+      console.error("Error fetching moderation queue:", err);
+    }
+  }, []);
+
+  // Also refreshed on other tabs so the Review tab shows the queue length
+  useEffect(() => {
+    if (state.admin) void fetchModeration();
+  }, [view, state.admin, fetchModeration]);
+
+  const fetchBursts = useCallback(async () => {
+    if (!USE_API) return;
+    try {
+      const res = await adminFetch(`${BOARD_API}/admin/vote-bursts`);
+      if (!res.ok) {
+        console.warn("Failed to fetch vote bursts:", res.status);
+        return;
+      }
+      setBursts(await res.json());
+    } catch (err) {
+      console.error("Error fetching vote bursts:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (view === "review" && state.admin) void fetchBursts();
+  }, [view, state.admin, fetchBursts]);
+
+  // Voids the votes of one burst (optionally blocking the devices), then
+  // reloads the bursts; the new count arrives as a live vote event
+  const onVoidBurst = async (burst: VoteBurst, block: boolean) => {
+    const from = new Date(burst.window_start);
+    const to = new Date(from.getTime() + (bursts?.windowSeconds ?? 0) * 1000);
+    try {
+      const res = await adminFetch(
+        `${BOARD_API}/formats/${burst.format_id}/votes/void`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            from: from.toISOString(),
+            to: to.toISOString(),
+            block,
+          }),
+        },
+      );
+      if (!res.ok) {
+        console.warn("Failed to void votes:", res.status);
+        const body = await res.json().catch(() => ({}));
+        return `Could not void the votes (${body.error || res.status}).`;
+      }
+      await fetchBursts();
+      return null;
+    } catch (err) {
+      console.error("Error voiding votes:", err);
+      return "Could not void the votes (network_error).";
+    }
+  };
+
+  // Approves or rejects a queued format, then reloads the queue; resolves to
+  // an error message, or null
+  const onModerate = async (
+    id: string,
+    action: "approve" | "reject",
+    decision: ModerationDecision,
+  ) => {
+    try {
+      const res = await adminFetch(`${BOARD_API}/formats/${id}/${action}`, {
+        method: "POST",
+        body: JSON.stringify(decision),
+      });
+      if (!res.ok) {
+        console.warn(`Failed to ${action} format:`, res.status);
+        const body = await res.json().catch(() => ({}));
+        return `Could not ${action} it (${body.error || res.status}).`;
+      }
+      await fetchModeration();
+      return null;
+    } catch (err) {
+      console.error(`Error on ${action}:`, err);
+      return `Could not ${action} it (network_error).`;
+    }
+  };
+
+  useEffect(() => {
+    if (!state.admin && (view === "audit" || view === "review")) {
+      setView("grid");
+    }
+    if (
+      state.adminUser?.role !== "owner" &&
+      (view === "webhooks" || view === "boards")
+    ) {
+      setView("grid");
+    }
+  }, [state.admin, state.adminUser, view]);
+
+  const fetchWebhooks = useCallback(async () => {
+    if (!USE_API) return;
+    try {
+      const res = await adminFetch("/api/admin/webhooks");
+      if (!res.ok) {
+        console.warn("Failed to fetch webhooks from API:", res.status);
+        return;
+      }
+      const body = await res.json();
+      setWebhooks(body.webhooks);
+      setWebhookEvents(body.events);
+    } catch (err) {
+      console.error("Error fetching webhooks:", err);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async (webhookId: string) => {
+    deliveriesWebhookRef.current = webhookId;
+    try {
+      const res = await adminFetch(
+        `/api/admin/webhooks/${webhookId}/deliveries`,
+      );
+      if (!res.ok) {
+        console.warn("Failed to fetch webhook deliveries:", res.status);
+        return;
+      }
+      setDeliveries(await res.json());
+    } catch (err) {
+      console.error("Error fetching webhook deliveries:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (view !== "webhooks") return;
+    setWebhookSecret(null);
+    setDeliveries(null);
+    void fetchWebhooks();
+  }, [view, fetchWebhooks]);
+
+  // Runs a webhook mutation, then refreshes the list (and the open log)
+  const webhookRequest = async (path: string, init: RequestInit) => {
+    try {
+      const res = await adminFetch(path, init);
+      if (!res.ok) {
+        console.warn("Webhook request failed:", res.status);
+        const body = await res.json().catch(() => ({}));
+        return { error: body.error || String(res.status) };
+      }
+      const body = await res.json();
+      await fetchWebhooks();
+      if (deliveriesWebhookRef.current) {
+        await fetchDeliveries(deliveriesWebhookRef.current);
+      }
+      return body;
+    } catch (err) {
+      console.error("Error calling webhook API:", err);
+      return { error: "network_error" };
+    }
+  };
+
+  const onCreateWebhook = async (webhook: Partial<Webhook>) => {
+    const body = await webhookRequest("/api/admin/webhooks", {
+      method: "POST",
+      body: JSON.stringify(webhook),
+    });
+    if (body.error) return `Could not add the webhook (${body.error}).`;
+    setWebhookSecret(body.secret);
+    return null;
+  };
+
+  // Owners also receive each board's moderators, so refetch on sign-in
+  const fetchBoards = useCallback(async () => {
+    if (!USE_API) return;
+    try {
+      const res = await fetch(`${API_BASE}/api/boards`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        console.warn("Failed to fetch boards from API:", res.status);
+        return;
+      }
+      const body: Board[] = await res.json();
+      setBoards(body);
+      const current = body.find((b) => b.slug === currentBoard);
+      if (current) setBoard(current);
+    } catch (err) {
+      console.error("Error fetching boards:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchBoards();
+  }, [fetchBoards, state.adminUser]);
+
+  // Loaded rows get live updates; the fetched copy covers the others
+  const detail = formatId
+    ? (state.rows.find((r) => r.id === formatId) ?? detailRow)
+    : null;
+
+  useEffect(() => {
+    document.title = detail ? `${detail.name} · ${board.title}` : board.title;
+  }, [detail?.name, board.title]);
+
+  const fetchAllTaxonomy = useCallback(async () => {
+    try {
+      const res = await adminFetch("/api/admin/taxonomy");
+      if (!res.ok) {
+        console.warn("Failed to fetch taxonomy:", res.status);
+        return;
+      }
+      setAllTaxonomy(await res.json());
+    } catch (err) {
+      console.error("Error fetching taxonomy:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (view !== "boards") return;
+    void fetchAllTaxonomy();
+    (async () => {
+      try {
+        const res = await adminFetch("/api/admin/users");
+        if (!res.ok) {
+          console.warn("Failed to fetch admin users:", res.status);
+          return;
+        }
+        setAdminUsers(await res.json());
+      } catch (err) {
+        console.error("Error fetching admin users:", err);
+      }
+    })();
+  }, [view, fetchAllTaxonomy]);
+
+  // Runs a board or taxonomy write, then refreshes both; resolves to an
+  // error message, or null
+  const settingsRequest = async (
+    what: string,
+    path: string,
+    init: RequestInit,
+  ) => {
+    try {
+      const res = await adminFetch(path, init);
+      if (!res.ok) {
+        console.warn("Settings request failed:", res.status);
+        const body = await res.json().catch(() => ({}));
+        return `Could not save the ${what} (${body.error || res.status}).`;
+      }
+      await Promise.all([fetchBoards(), fetchAllTaxonomy(), fetchTaxonomy()]);
+      return null;
+    } catch (err) {
+      console.error("Error calling settings API:", err);
+      return `Could not save the ${what} (network_error).`;
+    }
+  };
+
+  const onSelectSession = (id: string) => {
+    sessionIdRef.current = id;
+    void fetchSession(id);
+  };
+
+  // Posts to a session route and swaps in the returned session view
+  const sessionAction = async (
+    path: string,
+    body: Record<string, unknown>,
+    admin = false,
+  ) => {
+    const id = sessionIdRef.current;
+    if (!USE_API || !id) return;
+    try {
+      const url = `/api/sessions/${id}/${path}`;
+      const res = admin
+        ? await adminFetch(url, { method: "POST", body: JSON.stringify(body) })
+        : await deviceFetch(url, {
+            method: "POST",
+            body: JSON.stringify(body),
+          });
+      if (!res.ok) {
+        console.warn(`Failed to ${path} session via API:`, res.status);
+        return;
+      }
+      // Admin routes reply with partial data; refetch to keep `me` filled in
+      if (admin) await fetchSession(id);
+      else setSession(await res.json());
+    } catch (err) {
+      console.error(`Error on session ${path}:`, err);
+    }
+  };
+
+  const onJoinSession = (name: string) => {
+    setDisplayName(name);
+    void sessionAction("join", { displayName: name });
+  };
+
+  const onCreateSession = async (
+    title: string,
+    scale: string,
+    formatIds: string[],
+  ) => {
+    if (!USE_API) return false;
+    try {
+      const res = await adminFetch("/api/sessions", {
+        method: "POST",
+        body: JSON.stringify({ title, scale, formatIds }),
+      });
+      if (!res.ok) {
+        console.warn("Failed to create session via API:", res.status);
+        return false;
+      }
+      const created: SessionSummary = await res.json();
+      await fetchSessions();
+      onSelectSession(created.id);
+      return true;
+    } catch (err) {
+      console.error("Error creating session:", err);
+      return false;
+    }
+  };
+
+  const onAgreeEstimate = async (estimate: string) => {
+    await sessionAction("estimate", { estimate }, true);
+    const formatId = session?.current_format_id;
+    if (formatId) {
+      const rows = state.rows.map((r) =>
+        r.id === formatId ? { ...r, estimate } : r,
+      );
+      dispatch({ type: "setRows", rows, votes: Array.from(state.votes) });
+    }
+  };
+
+  // Grid cards, and the expanded card of a format page
+  const renderCard = (r: Row, expanded = false) => (
+    <FormatCard
+      key={r.id}
+      row={r}
+      expanded={expanded}
+      href={formatHref(currentBoard, r.id)}
+      onOpen={expanded ? undefined : () => openFormat(r.id)}
+      voted={state.votes.has(r.id)}
+      subscribed={subscriptions.has(r.id)}
+      admin={state.admin}
+      canDelete={state.adminUser?.role === "owner"}
+      onVote={() => onVote(r.id)}
+      onToggleSubscription={
+        USE_API ? () => onToggleSubscription(r.id) : undefined
+      }
+      taxonomy={taxonomy}
+      onSaveStatus={(s: string) => onSaveStatus(r.id, s)}
+      onDelete={() => onDelete(r.id)}
+      mergeTargets={mergeTargets.filter((t) => t.id !== r.id)}
+      onMergeInto={(canonicalId: string) => onMerge(r.id, canonicalId)}
+      onLoadHistory={() => onLoadHistory(r.id)}
+      relatedOptions={mergeTargets.filter((t) => t.id !== r.id)}
+      onUpdate={(changes: FormatChanges) => onUpdateFormat(r.id, changes)}
+      commentRevision={commentRevisions[r.id] || 0}
+      onLoadComments={() => onLoadComments(r.id)}
+      onPostComment={(body: string, parentId: string | null) =>
+        onPostComment(r.id, body, parentId)
+      }
+      onEditComment={onEditComment}
+      onHideComment={onHideComment}
+      onDeleteComment={onDeleteComment}
+    />
+  );
+
   return (
     <div className={css.app}>
       <Header
+        title={board.title}
+        board={currentBoard}
+        boards={boards}
         count={filtered.length}
-        adminActive={state.admin}
-        onAdminActivate={onAdminActivate}
-      />
-      <Toolbar
-        query={state.query}
-        kind={state.kind}
-        status={state.status}
-        sort={state.sort}
-        admin={state.admin}
-        onChange={(
-          payload: Partial<Pick<State, "query" | "kind" | "status" | "sort">>,
-        ) => dispatch({ type: "setFilter", payload })}
+        adminUser={state.adminUser}
+        onAdminLogin={onAdminLogin}
+        onAdminLogout={onAdminLogout}
+        unread={unread}
+        inboxOpen={inboxOpen}
+        onToggleInbox={USE_API ? () => setInboxOpen((v) => !v) : undefined}
       />
-      <AdminBar visible={state.admin} onAdd={onAdd} />
-      <main className={css.gridWrap}>
-        <div className={css.grid}>
-          {filtered.map((r) => (
-            <FormatCard
-              key={r.id}
-              row={r}
-              voted={state.votes.has(r.id)}
-              admin={state.admin}
-              onVote={() => onVote(r.id)}
-              onSaveStatus={(s: string) => onSaveStatus(r.id, s)}
-              onDelete={() => onDelete(r.id)}
-            />
-          ))}
-        </div>
-      </main>
-      <SubmitBar onSubmit={onSubmitFormat} />
+      {USE_API && (
+        <OutboxBar
+          entries={outbox}
+          online={online}
+          onSync={() => void flushOutbox()}
+          onRetry={onRetryOutbox}
+          onDismiss={onDismissOutbox}
+        />
+      )}
+      {inboxOpen && (
+        <NotificationInbox
+          notifications={notifications}
+          email={notifyEmail}
+          emailEnabled={emailEnabled}
+          onMarkRead={onMarkNotificationsRead}
+          onSaveEmail={onSaveNotifyEmail}
+          onClose={() => setInboxOpen(false)}
+        />
+      )}
+      {!formatId && (
+        <>
+          <Toolbar
+            query={state.query}
+            kind={state.kind}
+            status={state.status}
+            sort={state.sort}
+            admin={state.admin}
+            kinds={taxonomy.kinds}
+            statuses={taxonomy.statuses}
+            onChange={(
+              payload: Partial<
+                Pick<State, "query" | "kind" | "status" | "sort">
+              >,
+            ) => dispatch({ type: "setFilter", payload })}
+          />
+          <nav className={css.tabs}>
+            <button
+              className={`${css.tab} ${view === "grid" ? css.tabActive : ""}`}
+              onClick={() => setView("grid")}
+            >
+              Formats
+            </button>
+            <button
+              className={`${css.tab} ${view === "estimate" ? css.tabActive : ""}`}
+              onClick={() => setView("estimate")}
+            >
+              Estimation{sessions.length ? ` (${sessions.length})` : ""}
+            </button>
+            {state.admin && USE_API && (
+              <button
+                className={`${css.tab} ${view === "review" ? css.tabActive : ""}`}
+                onClick={() => setView("review")}
+              >
+                Review
+                {moderation?.items.length
+                  ? ` (${moderation.items.length})`
+                  : ""}
+              </button>
+            )}
+            {state.admin && (
+              <button
+                className={`${css.tab} ${view === "audit" ? css.tabActive : ""}`}
+                onClick={() => setView("audit")}
+              >
+                History
+              </button>
+            )}
+            {state.adminUser?.role === "owner" && (
+              <button
+                className={`${css.tab} ${view === "webhooks" ? css.tabActive : ""}`}
+                onClick={() => setView("webhooks")}
+              >
+                Webhooks
+              </button>
+            )}
+            {state.adminUser?.role === "owner" && (
+              <button
+                className={`${css.tab} ${view === "boards" ? css.tabActive : ""}`}
+                onClick={() => setView("boards")}
+              >
+                Boards
+              </button>
+            )}
+          </nav>
+        </>
+      )}
+      {formatId ? (
+        <main className={css.detail}>
+          <a
+            className={css.back}
+            href={boardHref(currentBoard)}
+            onClick={(e) => {
+              if (!isPlainClick(e)) return;
+              e.preventDefault();
+              closeFormat();
+            }}
+          >
+            ← {board.title}
+          </a>
+          {detailMissing ? (
+            <p className={css.notice}>
+              This format does not exist, or it was removed.
+            </p>
+          ) : detail ? (
+            renderCard(detail, true)
+          ) : (
+            <p className={css.notice}>Loading…</p>
+          )}
+        </main>
+      ) : view === "boards" ? (
+        <>
+          <BoardsPanel
+            boards={boards}
+            admins={adminUsers}
+            taxonomy={allTaxonomy}
+            onCreate={(fields: Partial<Board>) =>
+              settingsRequest("board", "/api/boards", {
+                method: "POST",
+                body: JSON.stringify(fields),
+              })
+            }
+            onUpdate={(slug: string, fields: Partial<Board>) =>
+              settingsRequest("board", `/api/boards/${slug}`, {
+                method: "PUT",
+                body: JSON.stringify(fields),
+              })
+            }
+          />
+          <TaxonomyPanel
+            taxonomy={allTaxonomy}
+            onCreate={(type: string, fields: Record<string, unknown>) =>
+              settingsRequest("entry", `/api/admin/taxonomy/${type}`, {
+                method: "POST",
+                body: JSON.stringify(fields),
+              })
+            }
+            onUpdate={(
+              type: string,
+              key: string,
+              fields: Record<string, unknown>,
+            ) =>
+              settingsRequest(
+                "entry",
+                `/api/admin/taxonomy/${type}/${encodeURIComponent(key)}`,
+                { method: "PUT", body: JSON.stringify(fields) },
+              )
+            }
+          />
+        </>
+      ) : view === "webhooks" ? (
+        <WebhooksPanel
+          webhooks={webhooks}
+          events={webhookEvents}
+          secret={webhookSecret}
+          deliveries={deliveries}
+          onCreate={onCreateWebhook}
+          onUpdate={(id: string, changes: Partial<Webhook>) =>
+            webhookRequest(`/api/admin/webhooks/${id}`, {
+              method: "PUT",
+              body: JSON.stringify(changes),
+            })
+          }
+          onDelete={(id: string) => {
+            if (deliveriesWebhookRef.current === id) {
+              deliveriesWebhookRef.current = null;
+              setDeliveries(null);
+            }
+            return webhookRequest(`/api/admin/webhooks/${id}`, {
+              method: "DELETE",
+            });
+          }}
+          onPing={(id: string) =>
+            webhookRequest(`/api/admin/webhooks/${id}/ping`, { method: "POST" })
+          }
+          onShowDeliveries={fetchDeliveries}
+          onRetry={(id: string) =>
+            webhookRequest(`/api/admin/webhook-deliveries/${id}/retry`, {
+              method: "POST",
+            })
+          }
+        />
+      ) : view === "review" ? (
+        <>
+          <ModerationQueue
+            queue={moderation}
+            taxonomy={taxonomy}
+            mergeTargets={mergeTargets}
+            onApprove={(id: string, decision: ModerationDecision) =>
+              onModerate(id, "approve", decision)
+            }
+            onReject={(id: string, reason: string) =>
+              onModerate(id, "reject", { reason })
+            }
+          />
+          <VoteBursts bursts={bursts} onVoid={onVoidBurst} />
+        </>
+      ) : view === "audit" ? (
+        <AuditPanel
+          entries={audit}
+          hasMore={auditHasMore}
+          onFilter={(filters: AuditFilters) => {
+            auditFiltersRef.current = filters;
+            void fetchAudit();
+          }}
+          onLoadMore={() => fetchAudit(audit[audit.length - 1]?.id)}
+        />
+      ) : view === "estimate" ? (
+        <EstimationPanel
+          sessions={sessions}
+          session={session}
+          admin={state.admin}
+          rows={state.rows.filter((r) => isPublic(taxonomy, r))}
+          displayName={getDisplayName()}
+          onSelect={onSelectSession}
+          onJoin={onJoinSession}
+          onPlay={(card: string) => sessionAction("cards", { card })}
+          onReveal={() => sessionAction("reveal", {}, true)}
+          onSetCurrent={(formatId: string) =>
+            sessionAction("current", { formatId }, true)
+          }
+          onAgree={onAgreeEstimate}
+          onCreate={onCreateSession}
+          onClose={() => sessionAction("close", {}, true)}
+        />
+      ) : (
+        <>
+          <AdminBar
+            visible={state.admin}
+            kinds={taxonomy.kinds}
+            statuses={taxonomy.statuses}
+            onAdd={onAdd}
+          />
+          <ImportExportBar
+            visible={state.admin && USE_API}
+            onExport={onExport}
+            onImport={onImport}
+          />
+          <main className={css.gridWrap}>
+            <div className={css.grid}>{filtered.map((r) => renderCard(r))}</div>
+            {state.page?.nextCursor && (
+              <button
+                className={css.loadMore}
+                onClick={() => void fetchFormats(true)}
+              >
+                Load more · {state.rows.length} of {state.page.total}
+              </button>
+            )}
+            {USE_API && (
+              <footer className={css.footer}>
+                Follow new formats and status changes:{" "}
+                {[
+                  ["atom", "Atom"],
+                  ["rss", "RSS"],
+                  ["json", "JSON Feed"],
+                ].map(([ext, label], i) => (
+                  <React.Fragment key={ext}>
+                    {i > 0 && " · "}
+                    <a
+                      href={`${API_BASE}${BOARD_API}/changelog.${ext}${
+                        state.kind
+                          ? `?kind=${encodeURIComponent(state.kind)}`
+                          : ""
+                      }`}
+                    >
+                      {label}
+                    </a>
+                  </React.Fragment>
+                ))}
+              </footer>
+            )}
+          </main>
+          <SubmitBar
+            kinds={taxonomy.kinds.filter((k) => k.visible)}
+            onSubmit={onSubmitFormat}
+          />
+          <MySubmissions submissions={submissions} taxonomy={taxonomy} />
+        </>
+      )}
     </div>
   );
 }
@@ -1,13 +1,32 @@
 import React, { useState } from "react";
 import * as styles from "./AdminBar.module.css";
 
-export default function AdminBar({ visible, onAdd }) {
+// Comma separated input -> list of trimmed, non-empty values
+const toList = (text) =>
+  text
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export default function AdminBar({ visible, kinds, statuses, onAdd }) {
   const [name, setName] = useState("");
-  const [kind, setKind] = useState("image");
-  const [status, setStatus] = useState("Requested");
+  const [kindChoice, setKind] = useState("");
+  const [statusChoice, setStatus] = useState("");
+  const [mimeTypes, setMimeTypes] = useState("");
+  const [extensions, setExtensions] = useState("");
+  const [specUrls, setSpecUrls] = useState("");
 
   if (!visible) return null;
 
+  // The board's lists load after the first render and differ per board; new
+  // formats default to the first status that takes votes
+  const kind = kinds.some((k) => k.key === kindChoice)
+    ? kindChoice
+    : kinds[0]?.key;
+  const status = statuses.some((s) => s.key === statusChoice)
+    ? statusChoice
+    : (statuses.find((s) => s.voting_open) || statuses[0])?.key;
+
   return (
     <div className={styles.bar}>
       <input
@@ -21,26 +40,54 @@ export default function AdminBar({ visible, onAdd }) {
         value={kind}
         onChange={(e) => setKind(e.target.value)}
       >
-        <option>image</option>
-        <option>video</option>
-        <option>audio</option>
+        {kinds.map((k) => (
+          <option key={k.key} value={k.key}>
+            {k.label}
+          </option>
+        ))}
       </select>
       <select
         className={styles.select}
         value={status}
         onChange={(e) => setStatus(e.target.value)}
       >
-        <option>Requested</option>
-        <option>Planned</option>
-        <option>Supported</option>
-        <option>In Review</option>
+        {statuses.map((s) => (
+          <option key={s.key} value={s.key}>
+            {s.label}
+          </option>
+        ))}
       </select>
+      <input
+        className={styles.input}
+        placeholder="MIME types e.g., 'video/mp4'"
+        value={mimeTypes}
+        onChange={(e) => setMimeTypes(e.target.value)}
+      />
+      <input
+        className={styles.input}
+        placeholder="Extensions e.g., '.mp4, .m4v'"
+        value={extensions}
+        onChange={(e) => setExtensions(e.target.value)}
+      />
+      <input
+        className={styles.input}
+        placeholder="Spec links (comma separated)"
+        value={specUrls}
+        onChange={(e) => setSpecUrls(e.target.value)}
+      />
       <button
         className={styles.btn}
         onClick={() => {
           if (name.trim()) {
-            onAdd(name, kind, status);
+            onAdd(name, kind, status, {
+              mimeTypes: toList(mimeTypes),
+              extensions: toList(extensions),
+              specUrls: toList(specUrls),
+            });
             setName("");
+            setMimeTypes("");
+            setExtensions("");
+            setSpecUrls("");
           }
         }}
       >
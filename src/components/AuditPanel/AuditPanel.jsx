@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import * as styles from "./AuditPanel.module.css";
+
+const ACTIONS = [
+  "format.create",
+  "format.status",
+  "format.approve",
+  "format.reject",
+  "format.delete",
+  "format.estimate",
+  "format.merge",
+  "format.metadata",
+  "format.update",
+  "format.import",
+  "vote.void",
+  "comment.hide",
+  "comment.unhide",
+  "comment.delete",
+  "session.create",
+  "session.current",
+  "session.reveal",
+  "session.close",
+  "admin_user.create",
+  "admin_user.update",
+  "admin_user.password",
+  "admin_user.delete",
+  "webhook.create",
+  "webhook.update",
+  "webhook.delete",
+  "board.create",
+  "board.update",
+  "taxonomy.create",
+  "taxonomy.update",
+];
+
+const show = (v) => (v === null || v === undefined ? "—" : String(v));
+
+// Human label for the entity an entry refers to
+const entityLabel = (entry) => {
+  const snapshot = entry.after || entry.before || {};
+  return (
+    snapshot.name || snapshot.title || snapshot.username || entry.entity_id
+  );
+};
+
+// Fields that differ between the before/after snapshots
+const changes = (entry) => {
+  if (!entry.before) return ["created"];
+  if (!entry.after) return ["deleted"];
+  return Object.keys({ ...entry.before, ...entry.after })
+    .filter(
+      (k) => JSON.stringify(entry.before[k]) !== JSON.stringify(entry.after[k]),
+    )
+    .map((k) => `${k}: ${show(entry.before[k])} → ${show(entry.after[k])}`);
+};
+
+export default function AuditPanel({ entries, hasMore, onFilter, onLoadMore }) {
+  const [action, setAction] = useState("");
+  const [actor, setActor] = useState("");
+  const [entityId, setEntityId] = useState("");
+
+  const apply = (event) => {
+    event.preventDefault();
+    onFilter({ action, actor: actor.trim(), entityId: entityId.trim() });
+  };
+
+  return (
+    <section className={styles.panel}>
+      <form className={styles.filters} onSubmit={apply}>
+        <select
+          className={styles.select}
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+        >
+          <option value="">All actions</option>
+          {ACTIONS.map((a) => (
+            <option key={a}>{a}</option>
+          ))}
+        </select>
+        <input
+          className={styles.input}
+          placeholder="Admin username"
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+        />
+        <input
+          className={styles.input}
+          placeholder="Entity id"
+          value={entityId}
+          onChange={(e) => setEntityId(e.target.value)}
+        />
+        <button className={styles.btn} type="submit">
+          Filter
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <div className={styles.empty}>No matching admin activity.</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Who</th>
+              <th>Action</th>
+              <th>Target</th>
+              <th>Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td>{new Date(entry.created_at).toLocaleString()}</td>
+                <td>{entry.actor_username}</td>
+                <td>
+                  <code>{entry.action}</code>
+                </td>
+                <td title={entry.entity_id || ""}>{entityLabel(entry)}</td>
+                <td>
+                  {changes(entry).map((c) => (
+                    <div key={c}>{c}</div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {hasMore && (
+        <button className={styles.btn} onClick={onLoadMore}>
+          Load older entries
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useState } from "react";
+import { boardHref } from "../../data/board.js";
+import { labelOf } from "../../data/taxonomy.js";
+import * as styles from "./BoardsPanel.module.css";
+
+const toggle = (list, value) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+// Checkboxes over taxonomy entries; keeps the taxonomy order
+function Choices({ legend, entries, selected, locked, onChange }) {
+  return (
+    <fieldset className={styles.choices}>
+      <legend>{legend}</legend>
+      {entries.map((e) => (
+        <label key={e.key}>
+          <input
+            type="checkbox"
+            checked={selected.includes(e.key)}
+            disabled={locked?.(e)}
+            onChange={() =>
+              onChange(
+                entries
+                  .map((x) => x.key)
+                  .filter((k) => toggle(selected, e.key).includes(k)),
+              )
+            }
+          />{" "}
+          {e.label}
+        </label>
+      ))}
+    </fieldset>
+  );
+}
+
+function BoardEditor({ board, taxonomy, moderators, onSave, onClose }) {
+  const [title, setTitle] = useState(board.title);
+  const [kinds, setKinds] = useState(board.kinds);
+  const [statuses, setStatuses] = useState(board.statuses);
+  const [adminIds, setAdminIds] = useState(board.admin_ids || []);
+  const [error, setError] = useState("");
+
+  const save = async (event) => {
+    event.preventDefault();
+    const message = await onSave(board.slug, {
+      title: title.trim(),
+      kinds,
+      statuses,
+      adminIds,
+    });
+    setError(message || "");
+    if (!message) onClose();
+  };
+
+  return (
+    <form className={styles.editor} onSubmit={save}>
+      <label className={styles.field}>
+        Title
+        <input
+          className={styles.input}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </label>
+      <Choices
+        legend="Kinds"
+        entries={taxonomy.kinds}
+        selected={kinds}
+        onChange={setKinds}
+      />
+      <Choices
+        legend="Statuses"
+        entries={taxonomy.statuses}
+        selected={statuses}
+        // Public submissions always land in the initial status
+        locked={(s) => s.initial}
+        onChange={setStatuses}
+      />
+      <fieldset className={styles.choices}>
+        <legend>Moderators</legend>
+        {moderators.length === 0 && (
+          <span className={styles.muted}>No moderator accounts yet.</span>
+        )}
+        {moderators.map((m) => (
+          <label key={m.id}>
+            <input
+              type="checkbox"
+              checked={adminIds.includes(m.id)}
+              onChange={() => setAdminIds((current) => toggle(current, m.id))}
+            />{" "}
+            {m.username}
+          </label>
+        ))}
+      </fieldset>
+      <div className={styles.actions}>
+        <button
+          className={styles.btn}
+          type="submit"
+          disabled={!title.trim() || !kinds.length}
+        >
+          Save
+        </button>
+        <button className={styles.link} type="button" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+    </form>
+  );
+}
+
+export default function BoardsPanel({
+  boards,
+  admins,
+  taxonomy,
+  onCreate,
+  onUpdate,
+}) {
+  const [slug, setSlug] = useState("");
+  const [title, setTitle] = useState("");
+  const [kinds, setKinds] = useState([]);
+  const [error, setError] = useState("");
+  const [editing, setEditing] = useState(null);
+  const moderators = admins.filter((a) => a.role === "moderator");
+  const names = new Map(admins.map((a) => [a.id, a.username]));
+
+  const create = async (event) => {
+    event.preventDefault();
+    const message = await onCreate({
+      slug: slug.trim(),
+      title: title.trim(),
+      kinds,
+    });
+    setError(message || "");
+    if (!message) {
+      setSlug("");
+      setTitle("");
+      setKinds([]);
+    }
+  };
+
+  return (
+    <section className={styles.panel}>
+      <form className={styles.editor} onSubmit={create}>
+        <div className={styles.form}>
+          <input
+            className={styles.input}
+            placeholder="Slug e.g., 'video'"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value.toLowerCase())}
+          />
+          <input
+            className={styles.input}
+            placeholder="Title e.g., 'Video Format Requests'"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <button
+            className={styles.btn}
+            type="submit"
+            disabled={!slug.trim() || !title.trim() || !kinds.length}
+          >
+            Add board
+          </button>
+        </div>
+        <Choices
+          legend="Kinds"
+          entries={taxonomy.kinds}
+          selected={kinds}
+          onChange={setKinds}
+        />
+      </form>
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Board</th>
+            <th>Kinds</th>
+            <th>Statuses</th>
+            <th>Moderators</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {boards.map((b) =>
+            editing === b.slug ? (
+              <tr key={b.slug}>
+                <td colSpan={5}>
+                  <BoardEditor
+                    board={b}
+                    taxonomy={taxonomy}
+                    moderators={moderators}
+                    onSave={onUpdate}
+                    onClose={() => setEditing(null)}
+                  />
+                </td>
+              </tr>
+            ) : (
+              <tr key={b.slug}>
+                <td>
+                  <a href={boardHref(b.slug)}>{b.title}</a>
+                  <div className={styles.muted}>{b.slug}</div>
+                </td>
+                <td>
+                  {b.kinds.map((k) => labelOf(taxonomy.kinds, k)).join(", ")}
+                </td>
+                <td>
+                  {b.statuses
+                    .map((s) => labelOf(taxonomy.statuses, s))
+                    .join(", ")}
+                </td>
+                <td>
+                  {(b.admin_ids || []).length
+                    ? b.admin_ids.map((id) => names.get(id) || id).join(", ")
+                    : "owners only"}
+                </td>
+                <td>
+                  <button
+                    className={styles.link}
+                    onClick={() => setEditing(b.slug)}
+                  >
+                    Edit
+                  </button>
+                </td>
+              </tr>
+            ),
+          )}
+        </tbody>
+      </table>
+    </section>
+  );
+}
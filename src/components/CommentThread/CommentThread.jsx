@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from "react";
+import * as styles from "./CommentThread.module.css";
+
+function CommentForm({
+  initial = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) {
+  const [body, setBody] = useState(initial);
+  const [pending, setPending] = useState(false);
+
+  const submit = async (event) => {
+    event.preventDefault();
+    if (!body.trim() || pending) return;
+    setPending(true);
+    const ok = await onSubmit(body.trim());
+    setPending(false);
+    if (ok) setBody("");
+  };
+
+  return (
+    <form className={styles.form} onSubmit={submit}>
+      <textarea
+        className={styles.textarea}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={2000}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className={styles.formActions}>
+        <button
+          className={styles.btn}
+          type="submit"
+          disabled={pending || !body.trim()}
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button className={styles.link} type="button" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function Comment({ comment, childrenByParent, admin, actions }) {
+  const [mode, setMode] = useState(null); // null | "reply" | "edit"
+  const replies = childrenByParent.get(comment.id) || [];
+
+  return (
+    <li className={styles.comment}>
+      <div className={styles.head}>
+        <span className={styles.author}>
+          {comment.author_name || "Anonymous"}
+        </span>
+        <span className={styles.when}>
+          {new Date(comment.created_at).toLocaleString()}
+          {comment.edited_at ? " · edited" : ""}
+        </span>
+      </div>
+      {mode === "edit" ? (
+        <CommentForm
+          initial={comment.body}
+          submitLabel="Save"
+          onSubmit={async (body) => {
+            const ok = await actions.edit(comment.id, body);
+            if (ok) setMode(null);
+            return ok;
+          }}
+          onCancel={() => setMode(null)}
+        />
+      ) : (
+        <div className={comment.hidden ? styles.hiddenBody : styles.body}>
+          {comment.hidden && !admin ? "Hidden by a moderator." : comment.body}
+        </div>
+      )}
+      <div className={styles.actions}>
+        <button className={styles.link} onClick={() => setMode("reply")}>
+          Reply
+        </button>
+        {comment.mine && !comment.hidden && (
+          <button className={styles.link} onClick={() => setMode("edit")}>
+            Edit
+          </button>
+        )}
+        {admin && (
+          <>
+            <button
+              className={styles.link}
+              onClick={() => actions.hide(comment.id, !comment.hidden)}
+            >
+              {comment.hidden ? "Unhide" : "Hide"}
+            </button>
+            <button
+              className={`${styles.link} ${styles.danger}`}
+              onClick={() => actions.remove(comment.id)}
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+      {mode === "reply" && (
+        <CommentForm
+          placeholder="Write a reply…"
+          submitLabel="Reply"
+          onSubmit={async (body) => {
+            const ok = await actions.post(body, comment.id);
+            if (ok) setMode(null);
+            return ok;
+          }}
+          onCancel={() => setMode(null)}
+        />
+      )}
+      {replies.length > 0 && (
+        <ul className={styles.replies}>
+          {replies.map((r) => (
+            <Comment
+              key={r.id}
+              comment={r}
+              childrenByParent={childrenByParent}
+              admin={admin}
+              actions={actions}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function CommentThread({
+  admin,
+  revision,
+  onLoad,
+  onPost,
+  onEdit,
+  onHide,
+  onDelete,
+}) {
+  const [comments, setComments] = useState(null);
+
+  const reload = useCallback(async () => {
+    setComments((await onLoad()) || []);
+  }, [onLoad]);
+
+  // Reload on mount and whenever `revision` bumps (a live update arrived for
+  // this format); `onLoad` is a fresh closure on every render so it is not a dep.
+  useEffect(() => {
+    void reload();
+  }, [revision]);
+
+  // Run an action, then refresh the thread if it succeeded
+  const withReload =
+    (fn) =>
+    async (...args) => {
+      const ok = await fn(...args);
+      if (ok) await reload();
+      return ok;
+    };
+
+  const actions = {
+    post: withReload(onPost),
+    edit: withReload(onEdit),
+    hide: withReload(onHide),
+    remove: withReload(onDelete),
+  };
+
+  if (!comments) return <div className={styles.empty}>Loading comments…</div>;
+
+  const childrenByParent = new Map();
+  for (const c of comments) {
+    const key = c.parent_id || "root";
+    if (!childrenByParent.has(key)) childrenByParent.set(key, []);
+    childrenByParent.get(key).push(c);
+  }
+  const roots = childrenByParent.get("root") || [];
+
+  return (
+    <div className={styles.thread}>
+      {roots.length === 0 ? (
+        <div className={styles.empty}>
+          No comments yet. Tell us why you need this format.
+        </div>
+      ) : (
+        <ul className={styles.list}>
+          {roots.map((c) => (
+            <Comment
+              key={c.id}
+              comment={c}
+              childrenByParent={childrenByParent}
+              admin={admin}
+              actions={actions}
+            />
+          ))}
+        </ul>
+      )}
+      <CommentForm
+        placeholder="Which workflow would this unblock?"
+        submitLabel="Comment"
+        onSubmit={(body) => actions.post(body, null)}
+      />
+    </div>
+  );
+}
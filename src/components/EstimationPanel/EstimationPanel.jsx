@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from "react";
+import * as styles from "./EstimationPanel.module.css";
+
+function CreateSession({ rows, onCreate }) {
+  const [title, setTitle] = useState("");
+  const [scale, setScale] = useState("fibonacci");
+  const [picked, setPicked] = useState([]);
+
+  const toggle = (id) =>
+    setPicked((current) =>
+      current.includes(id) ? current.filter((v) => v !== id) : [...current, id],
+    );
+
+  return (
+    <div className={styles.create}>
+      <div className={styles.heading}>New session</div>
+      <input
+        className={styles.input}
+        placeholder="Session title e.g., 'Q3 video backlog'"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <select
+        className={styles.select}
+        value={scale}
+        onChange={(e) => setScale(e.target.value)}
+      >
+        <option value="fibonacci">Fibonacci</option>
+        <option value="tshirt">T-shirt</option>
+      </select>
+      <div className={styles.picker}>
+        {rows.map((r) => (
+          <label key={r.id} className={styles.pick}>
+            <input
+              type="checkbox"
+              checked={picked.includes(r.id)}
+              onChange={() => toggle(r.id)}
+            />
+            {r.name}
+          </label>
+        ))}
+      </div>
+      <button
+        className={styles.btn}
+        disabled={!title.trim() || picked.length === 0}
+        onClick={async () => {
+          const ok = await onCreate(title.trim(), scale, picked);
+          if (ok) {
+            setTitle("");
+            setPicked([]);
+          }
+        }}
+      >
+        Open session
+      </button>
+    </div>
+  );
+}
+
+export default function EstimationPanel({
+  sessions,
+  session,
+  admin,
+  rows,
+  displayName,
+  onSelect,
+  onJoin,
+  onPlay,
+  onReveal,
+  onSetCurrent,
+  onAgree,
+  onCreate,
+  onClose,
+}) {
+  const [name, setName] = useState(displayName);
+  const [agreed, setAgreed] = useState("");
+
+  useEffect(() => {
+    setAgreed("");
+  }, [session?.id, session?.current_format_id]);
+
+  const current = session?.formats.find(
+    (f) => f.id === session.current_format_id,
+  );
+
+  return (
+    <section className={styles.panel}>
+      <aside className={styles.sidebar}>
+        <div className={styles.heading}>Open sessions</div>
+        {sessions.length === 0 && (
+          <div className={styles.empty}>No estimation sessions right now.</div>
+        )}
+        {sessions.map((s) => (
+          <button
+            key={s.id}
+            className={`${styles.sessionLink} ${
+              session?.id === s.id ? styles.active : ""
+            }`}
+            onClick={() => onSelect(s.id)}
+          >
+            {s.title}
+          </button>
+        ))}
+        {admin && <CreateSession rows={rows} onCreate={onCreate} />}
+      </aside>
+
+      <div className={styles.main}>
+        {!session ? (
+          <div className={styles.empty}>
+            Pick a session to join the estimate.
+          </div>
+        ) : (
+          <>
+            <div className={styles.sessionHead}>
+              <div>
+                <div className={styles.title}>{session.title}</div>
+                <div className={styles.meta}>
+                  {session.scale} · {session.participants.length} participants
+                </div>
+              </div>
+              {admin && session.status === "open" && (
+                <button className={styles.btn} onClick={onClose}>
+                  Close session
+                </button>
+              )}
+            </div>
+
+            {!session.me ? (
+              <form
+                className={styles.join}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (name.trim()) onJoin(name.trim());
+                }}
+              >
+                <input
+                  className={styles.input}
+                  placeholder="Your name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <button className={styles.btn} type="submit">
+                  Join
+                </button>
+              </form>
+            ) : null}
+
+            <ol className={styles.formats}>
+              {session.formats.map((f) => (
+                <li
+                  key={f.id}
+                  className={
+                    f.id === session.current_format_id ? styles.current : ""
+                  }
+                >
+                  <span>{f.name}</span>
+                  {f.estimate && (
+                    <span className={styles.estimate}>{f.estimate}</span>
+                  )}
+                  {admin &&
+                    session.status === "open" &&
+                    f.id !== session.current_format_id && (
+                      <button
+                        className={styles.link}
+                        onClick={() => onSetCurrent(f.id)}
+                      >
+                        Estimate
+                      </button>
+                    )}
+                </li>
+              ))}
+            </ol>
+
+            {current && (
+              <div className={styles.round}>
+                <div className={styles.heading}>Estimating {current.name}</div>
+                <div className={styles.deck}>
+                  {session.cards.map((c) => (
+                    <button
+                      key={c}
+                      className={`${styles.card} ${
+                        session.me?.card === c ? styles.picked : ""
+                      }`}
+                      disabled={
+                        !session.me ||
+                        session.revealed ||
+                        session.status !== "open"
+                      }
+                      aria-pressed={session.me?.card === c ? "true" : "false"}
+                      onClick={() => onPlay(c)}
+                    >
+                      {c}
+                    </button>
+                  ))}
+                </div>
+
+                <ul className={styles.table}>
+                  {session.participants.map((p) => (
+                    <li key={p.id}>
+                      <span>{p.display_name}</span>
+                      <span
+                        className={`${styles.played} ${
+                          session.revealed ? styles.shown : ""
+                        }`}
+                      >
+                        {session.revealed
+                          ? (p.card ?? "—")
+                          : p.played
+                            ? "✓"
+                            : "…"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {admin && session.status === "open" && (
+                  <div className={styles.controls}>
+                    {!session.revealed ? (
+                      <button className={styles.btn} onClick={onReveal}>
+                        Reveal cards
+                      </button>
+                    ) : (
+                      <>
+                        <select
+                          className={styles.select}
+                          value={agreed}
+                          onChange={(e) => setAgreed(e.target.value)}
+                        >
+                          <option value="">Agreed estimate…</option>
+                          {session.cards.map((c) => (
+                            <option key={c}>{c}</option>
+                          ))}
+                        </select>
+                        <button
+                          className={styles.btn}
+                          disabled={!agreed}
+                          onClick={() => onAgree(agreed)}
+                        >
+                          Save estimate
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
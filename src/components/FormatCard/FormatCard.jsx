@@ -1,39 +1,155 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import CommentThread from "../CommentThread/CommentThread.jsx";
+import FormatEditor from "../FormatEditor/FormatEditor.jsx";
+import Sparkline from "../Sparkline/Sparkline.jsx";
+import { priorityBreakdown, priorityScore } from "../../data/priority.js";
+import { isPlainClick } from "../../data/route.js";
+import {
+  badgeStyle,
+  colorOf,
+  isVotable,
+  labelOf,
+} from "../../data/taxonomy.js";
 import * as styles from "./FormatCard.module.css";
 
-const statusClass = (s) =>
-  ({
-    Supported: styles.supported,
-    Planned: styles.planned,
-    Requested: styles.requested,
-    "In Review": styles.review,
-  })[s] || styles.requested;
+// Compact "3d 4h" style duration for the status timeline
+const formatDuration = (seconds) => {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(minutes, 1)}m`;
+};
 
+// `expanded` is the card on the format's own page (`href`), with its history
+// and discussion open; grid cards link there through `onOpen`
 export default function FormatCard({
   row,
+  expanded,
+  href,
+  onOpen,
   voted,
+  subscribed,
   admin,
+  canDelete,
+  taxonomy,
+  mergeTargets,
   onVote,
+  onToggleSubscription,
   onSaveStatus,
   onDelete,
+  onMergeInto,
+  onLoadHistory,
+  relatedOptions,
+  onUpdate,
+  commentRevision,
+  onLoadComments,
+  onPostComment,
+  onEditComment,
+  onHideComment,
+  onDeleteComment,
 }) {
   const [edit, setEdit] = useState(row.status);
-  const isRequestable = row.status === "Requested";
+  const [error, setError] = useState("");
+  const [history, setHistory] = useState(null);
+  const [discussing, setDiscussing] = useState(!!expanded);
+  const [editing, setEditing] = useState(false);
+  const { kinds, statuses } = taxonomy;
+  const isRequestable = isVotable(taxonomy, row);
+  const transitions =
+    statuses.find((s) => s.key === row.status)?.transitions || [];
+
+  useEffect(() => {
+    setEdit(row.status);
+    setError("");
+    setHistory(null);
+    if (expanded) onLoadHistory().then((h) => setHistory(h || []));
+  }, [row.status, expanded]);
+
+  const toggleHistory = async () => {
+    if (history) {
+      setHistory(null);
+      return;
+    }
+    setHistory((await onLoadHistory()) || []);
+  };
+
+  const save = async () => {
+    if (edit === row.status) return;
+    setError((await onSaveStatus(edit)) || "");
+  };
+
   return (
     <div className={styles.card}>
       <div className={styles.title}>
         <div>
-          <div className={styles.name}>{row.name}</div>
-          <div className={styles.meta}>{row.kind}</div>
+          {onOpen ? (
+            <a
+              className={`${styles.name} ${styles.nameLink}`}
+              href={href}
+              onClick={(e) => {
+                if (!isPlainClick(e)) return;
+                e.preventDefault();
+                onOpen();
+              }}
+            >
+              {row.name}
+            </a>
+          ) : (
+            <h1 className={styles.name}>{row.name}</h1>
+          )}
+          <div className={styles.meta}>{labelOf(kinds, row.kind)}</div>
+          {row.aliases?.length > 0 && (
+            <div className={styles.aliases}>
+              Also known as {row.aliases.join(", ")}
+            </div>
+          )}
+          <Sparkline values={row.sparkline} />
         </div>
         <div
-          className={`${styles.status} ${statusClass(row.status)}`}
+          className={styles.status}
+          style={badgeStyle(statuses, row.status)}
           data-s={row.status}
         >
-          {row.status}
+          {labelOf(statuses, row.status)}
         </div>
       </div>
 
+      {(row.extensions?.length > 0 ||
+        row.mime_types?.length > 0 ||
+        row.spec_urls?.length > 0 ||
+        row.codecs?.length > 0 ||
+        row.containers?.length > 0) && (
+        <div className={styles.details}>
+          {(row.extensions?.length > 0 || row.mime_types?.length > 0) && (
+            <div className={styles.chips}>
+              {(row.extensions || []).map((e) => (
+                <span key={e} className={styles.chip}>
+                  .{e}
+                </span>
+              ))}
+              {(row.mime_types || []).map((m) => (
+                <span key={m} className={styles.chip}>
+                  {m}
+                </span>
+              ))}
+            </div>
+          )}
+          {row.codecs?.length > 0 && (
+            <div>Carries {row.codecs.map((c) => c.name).join(", ")}</div>
+          )}
+          {row.containers?.length > 0 && (
+            <div>Found in {row.containers.map((c) => c.name).join(", ")}</div>
+          )}
+          {(row.spec_urls || []).map((url) => (
+            <a key={url} href={url} target="_blank" rel="noreferrer">
+              {new URL(url).hostname} spec
+            </a>
+          ))}
+        </div>
+      )}
+
       <div className={styles.actions}>
         {isRequestable ? (
           <button
@@ -49,7 +165,30 @@ export default function FormatCard({
           ""
         )}
 
-        <span className={styles.pill}>{row.kind}</span>
+        {isRequestable && voted && onToggleSubscription && (
+          <button
+            className={styles.link}
+            aria-pressed={subscribed ? "true" : "false"}
+            title="Get notified when this format changes status"
+            onClick={onToggleSubscription}
+          >
+            {subscribed ? "Notifying you" : "Notify me"}
+          </button>
+        )}
+
+        <span className={styles.pill} style={badgeStyle(kinds, row.kind)}>
+          {labelOf(kinds, row.kind)}
+        </span>
+
+        {row.estimate && (
+          <span className={styles.pill} title="Agreed effort estimate">
+            Effort {row.estimate}
+          </span>
+        )}
+
+        <span className={styles.pill} title={priorityBreakdown(row)}>
+          Priority {priorityScore(row)}
+        </span>
 
         {admin && (
           <div className={styles.admin}>
@@ -58,23 +197,126 @@ export default function FormatCard({
               value={edit}
               onChange={(e) => setEdit(e.target.value)}
             >
-              <option>Requested</option>
-              <option>Planned</option>
-              <option>Supported</option>
-              <option>In Review</option>
+              {[row.status, ...transitions].map((s) => (
+                <option key={s} value={s}>
+                  {labelOf(statuses, s)}
+                </option>
+              ))}
             </select>
-            <button className={styles.btn} onClick={() => onSaveStatus(edit)}>
-              Save
-            </button>
             <button
-              className={`${styles.btn} ${styles.danger}`}
-              onClick={onDelete}
+              className={styles.btn}
+              disabled={edit === row.status}
+              onClick={save}
             >
-              Delete
+              Save
             </button>
+            {canDelete && (
+              <button
+                className={`${styles.btn} ${styles.danger}`}
+                onClick={onDelete}
+              >
+                Delete
+              </button>
+            )}
           </div>
         )}
       </div>
+
+      {admin && mergeTargets?.length > 0 && (
+        <select
+          className={styles.select}
+          value=""
+          aria-label={`Merge ${row.name} into another format`}
+          onChange={(e) => {
+            const target = mergeTargets.find((t) => t.id === e.target.value);
+            if (
+              target &&
+              window.confirm(
+                `Merge "${row.name}" into "${target.name}"? Its votes and comments move over and its name becomes an alias.`,
+              )
+            ) {
+              onMergeInto(target.id);
+            }
+          }}
+        >
+          <option value="">Merge duplicate into…</option>
+          {mergeTargets.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className={styles.links}>
+        <button className={styles.link} onClick={toggleHistory}>
+          {history ? "Hide history" : "Status history"}
+        </button>
+        <button
+          className={styles.link}
+          aria-expanded={discussing ? "true" : "false"}
+          onClick={() => setDiscussing((v) => !v)}
+        >
+          {discussing ? "Hide discussion" : "Discuss"} ·{" "}
+          {row.comment_count ?? 0}
+        </button>
+        {admin && (
+          <button
+            className={styles.link}
+            aria-expanded={editing ? "true" : "false"}
+            onClick={() => setEditing((v) => !v)}
+          >
+            {editing ? "Close editor" : "Edit"}
+          </button>
+        )}
+      </div>
+      {admin && editing && (
+        <FormatEditor
+          row={row}
+          options={relatedOptions || []}
+          kinds={kinds}
+          onSave={onUpdate}
+          onClose={() => setEditing(false)}
+        />
+      )}
+      {history && (
+        <ol className={styles.history}>
+          {history.map((h) => (
+            <li key={h.id}>
+              <span
+                className={styles.dot}
+                style={{ background: colorOf(statuses, h.to_status) }}
+                aria-hidden="true"
+              />
+              <span className={styles.stage}>
+                {labelOf(statuses, h.to_status)}
+              </span>
+              <span className={styles.when}>
+                {new Date(h.changed_at).toLocaleDateString()} ·{" "}
+                {formatDuration(h.duration_seconds)}
+                {h.left_at ? "" : " so far"}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {discussing && (
+        <CommentThread
+          admin={admin}
+          revision={commentRevision}
+          onLoad={onLoadComments}
+          onPost={onPostComment}
+          onEdit={onEditComment}
+          onHide={onHideComment}
+          onDelete={onDeleteComment}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { PRIORITY_DEFAULTS } from "../../data/priority.js";
+import * as styles from "./FormatEditor.module.css";
+
+const PRIORITY_FIELDS = [
+  ["reach", "Reach", "votes"],
+  ["impact", "Impact", `${PRIORITY_DEFAULTS.impact}`],
+  ["confidence", "Confidence %", `${PRIORITY_DEFAULTS.confidence}`],
+  ["effort", "Effort (person-months)", `${PRIORITY_DEFAULTS.effort}`],
+];
+
+// Comma or newline separated text <-> list of trimmed, non-empty values
+const toList = (text) =>
+  text
+    .split(/[,\n]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export default function FormatEditor({ row, options, kinds, onSave, onClose }) {
+  const [name, setName] = useState(row.name);
+  const [kind, setKind] = useState(row.kind);
+  const [mimeTypes, setMimeTypes] = useState((row.mime_types || []).join(", "));
+  const [extensions, setExtensions] = useState(
+    (row.extensions || []).join(", "),
+  );
+  const [specUrls, setSpecUrls] = useState((row.spec_urls || []).join("\n"));
+  const [aliases, setAliases] = useState((row.aliases || []).join(", "));
+  const [codecIds, setCodecIds] = useState((row.codecs || []).map((c) => c.id));
+  // RICE inputs as typed; empty means "use the default"
+  const [priority, setPriority] = useState(
+    Object.fromEntries(PRIORITY_FIELDS.map(([f]) => [f, row[f] ?? ""])),
+  );
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    const message = await onSave({
+      name: name.trim(),
+      kind,
+      mimeTypes: toList(mimeTypes),
+      extensions: toList(extensions),
+      specUrls: toList(specUrls),
+      aliases: toList(aliases),
+      codecIds,
+      ...Object.fromEntries(
+        PRIORITY_FIELDS.map(([f]) => [
+          f,
+          String(priority[f]).trim() === "" ? null : Number(priority[f]),
+        ]),
+      ),
+    });
+    setSaving(false);
+    if (message) setError(message);
+    else onClose();
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.row}>
+        <label className={`${styles.field} ${styles.grow}`}>
+          <span>Name</span>
+          <input
+            className={styles.input}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Type</span>
+          <select
+            className={styles.input}
+            value={kind}
+            onChange={(e) => setKind(e.target.value)}
+          >
+            {(kinds.some((k) => k.key === row.kind)
+              ? kinds
+              : [{ key: row.kind, label: row.kind }, ...kinds]
+            ).map((k) => (
+              <option key={k.key} value={k.key}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className={styles.field}>
+        <span>MIME types</span>
+        <input
+          className={styles.input}
+          placeholder="audio/mp4, audio/aac"
+          value={mimeTypes}
+          onChange={(e) => setMimeTypes(e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Extensions</span>
+        <input
+          className={styles.input}
+          placeholder=".m4a, .aac"
+          value={extensions}
+          onChange={(e) => setExtensions(e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Aliases</span>
+        <input
+          className={styles.input}
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Spec links (one per line)</span>
+        <textarea
+          className={styles.input}
+          rows={2}
+          value={specUrls}
+          onChange={(e) => setSpecUrls(e.target.value)}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Carries codecs</span>
+        <select
+          className={styles.input}
+          multiple
+          value={codecIds}
+          onChange={(e) =>
+            setCodecIds(Array.from(e.target.selectedOptions, (o) => o.value))
+          }
+        >
+          {options.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className={styles.row}>
+        {PRIORITY_FIELDS.map(([field, label, placeholder]) => (
+          <label key={field} className={styles.field}>
+            <span>{label}</span>
+            <input
+              className={styles.input}
+              type="number"
+              min="0"
+              step="any"
+              placeholder={placeholder}
+              value={priority[field]}
+              onChange={(e) =>
+                setPriority((current) => ({
+                  ...current,
+                  [field]: e.target.value,
+                }))
+              }
+            />
+          </label>
+        ))}
+      </div>
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+      <div className={styles.actions}>
+        <button
+          className={styles.btn}
+          disabled={saving || !name.trim()}
+          onClick={save}
+        >
+          Save
+        </button>
+        <button className={styles.link} onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,31 @@
 import React, { useState, useEffect, useRef } from "react";
+import { boardHref } from "../../data/board.js";
 import * as styles from "./Header.module.css";
 
-export default function Header({ count, adminActive, onAdminActivate }) {
-  const [key, setKey] = useState("");
+export default function Header({
+  title,
+  board,
+  boards,
+  count,
+  adminUser,
+  onAdminLogin,
+  onAdminLogout,
+  unread,
+  inboxOpen,
+  onToggleInbox,
+}) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
   const [showLogin, setShowLogin] = useState(false);
   const inputRef = useRef(null);
+  const adminActive = !!adminUser;
 
   useEffect(() => {
     if (adminActive) {
       setShowLogin(false);
-      setKey("");
+      setPassword("");
+      setError("");
     }
   }, [adminActive]);
 
@@ -23,47 +39,97 @@ export default function Header({ count, adminActive, onAdminActivate }) {
     setShowLogin((current) => {
       const next = !current;
       if (!next) {
-        setKey("");
+        setPassword("");
+        setError("");
       }
       return next;
     });
   };
 
-  const triggerActivate = (event) => {
+  const triggerLogin = async (event) => {
     event.preventDefault();
-    const trimmedKey = key.trim();
-    if (!trimmedKey) {
+    const trimmedUser = username.trim();
+    if (!trimmedUser || !password) {
       return;
     }
-    onAdminActivate(trimmedKey);
+    const ok = await onAdminLogin(trimmedUser, password);
+    if (!ok) {
+      setPassword("");
+      setError("Invalid username or password");
+    }
   };
 
   return (
     <header className={styles.header}>
       <div className={styles.wrap}>
-        <h1 className={styles.title}>Squarespace Image Format Support</h1>
+        <h1 className={styles.title}>{title}</h1>
         <div className={styles.row}>
+          {boards.length > 1 && (
+            <select
+              className={styles.boards}
+              aria-label="Board"
+              value={board}
+              onChange={(e) =>
+                window.location.assign(boardHref(e.target.value))
+              }
+            >
+              {boards.map((b) => (
+                <option key={b.slug} value={b.slug}>
+                  {b.title}
+                </option>
+              ))}
+            </select>
+          )}
           <span className={styles.chip}>{count} formats</span>
           <span className={styles.chip}>
             Click to upvote. One vote per format per device.
           </span>
+          {onToggleInbox && (
+            <button
+              className={styles.bell}
+              onClick={onToggleInbox}
+              aria-pressed={inboxOpen}
+              aria-label={
+                unread > 0 ? `Notifications, ${unread} unread` : "Notifications"
+              }
+            >
+              🔔
+              {unread > 0 && (
+                <span className={styles.badge}>
+                  {unread > 99 ? "99+" : unread}
+                </span>
+              )}
+            </button>
+          )}
           <span className={styles.admin}>
             {showLogin && !adminActive ? (
-              <form className={styles.form} onSubmit={triggerActivate}>
-                <label className={styles.srOnly} htmlFor="admin-key">
-                  Admin access key
+              <form className={styles.form} onSubmit={triggerLogin}>
+                <label className={styles.srOnly} htmlFor="admin-username">
+                  Admin username
                 </label>
                 <input
                   ref={inputRef}
-                  id="admin-key"
+                  id="admin-username"
+                  autoComplete="username"
+                  className={styles.input}
+                  placeholder="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+                <label className={styles.srOnly} htmlFor="admin-password">
+                  Admin password
+                </label>
+                <input
+                  id="admin-password"
                   type="password"
+                  autoComplete="current-password"
                   className={styles.input}
-                  placeholder="enter key"
-                  value={key}
-                  onChange={(e) => setKey(e.target.value)}
+                  placeholder="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
                 />
                 <button className={styles.button} type="submit">
-                  Activate
+                  Sign in
                 </button>
                 <button
                   className={styles.cancel}
@@ -72,28 +138,42 @@ export default function Header({ count, adminActive, onAdminActivate }) {
                 >
                   Cancel
                 </button>
+                {error && (
+                  <span className={styles.error} role="alert">
+                    {error}
+                  </span>
+                )}
               </form>
             ) : (
               <>
                 {adminActive && (
-                  <span
-                    className={styles.status}
-                    role="status"
-                    aria-live="polite"
+                  <>
+                    <span
+                      className={styles.status}
+                      role="status"
+                      aria-live="polite"
+                    >
+                      Signed in as {adminUser.username} ({adminUser.role})
+                    </span>
+                    <button
+                      className={styles.cancel}
+                      type="button"
+                      onClick={onAdminLogout}
+                    >
+                      Sign out
+                    </button>
+                  </>
+                )}
+                {!adminActive && (
+                  <button
+                    className={styles.gear}
+                    onClick={toggleLogin}
+                    aria-label="Show admin login"
+                    aria-pressed={showLogin}
                   >
-                    Admin mode active
-                  </span>
+                    ⚙
+                  </button>
                 )}
-                <button
-                  className={styles.gear}
-                  onClick={toggleLogin}
-                  aria-label={
-                    adminActive ? "Hide admin login" : "Show admin login"
-                  }
-                  aria-pressed={showLogin}
-                >
-                  ⚙
-                </button>
               </>
             )}
           </span>
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import * as styles from "./ImportExportBar.module.css";
+
+const describeError = (e) =>
+  `Row ${e.row}: ${e.error}${e.field ? ` in ${e.field}` : ""}${
+    e.value !== undefined ? ` (${JSON.stringify(e.value)})` : ""
+  }`;
+
+export default function ImportExportBar({ visible, onExport, onImport }) {
+  const [file, setFile] = useState(null);
+  const [mode, setMode] = useState("insert");
+  const [dryRun, setDryRun] = useState(true);
+  const [result, setResult] = useState(null);
+  const [busy, setBusy] = useState(false);
+
+  if (!visible) return null;
+
+  const runImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    setResult(await onImport(file, { mode, dryRun }));
+    setBusy(false);
+  };
+
+  return (
+    <div className={styles.bar}>
+      <div className={styles.row}>
+        <span className={styles.label}>Catalog</span>
+        <button className={styles.btn} onClick={() => onExport("csv")}>
+          Export CSV
+        </button>
+        <button className={styles.btn} onClick={() => onExport("json")}>
+          Export JSON
+        </button>
+        <input
+          className={styles.file}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setResult(null);
+          }}
+        />
+        <select
+          className={styles.select}
+          value={mode}
+          onChange={(e) => setMode(e.target.value)}
+        >
+          <option value="insert">New formats only</option>
+          <option value="upsert">Update existing by name</option>
+        </select>
+        <label className={styles.check}>
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+          />
+          Dry run
+        </label>
+        <button
+          className={styles.btn}
+          disabled={!file || busy}
+          onClick={runImport}
+        >
+          Import
+        </button>
+      </div>
+      {result && (
+        <div
+          className={
+            result.message || result.errors?.length
+              ? styles.failed
+              : styles.summary
+          }
+          role="status"
+        >
+          {result.message ||
+            `${result.dryRun ? "Dry run: " : ""}${result.inserted} new, ${
+              result.updated
+            } updated of ${result.total} rows${
+              result.errors?.length
+                ? ` — nothing was written, ${result.errors.length} row(s) need fixing:`
+                : "."
+            }`}
+          {result.errors?.length > 0 && (
+            <ul className={styles.errors}>
+              {result.errors.map((e, i) => (
+                <li key={i}>{describeError(e)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
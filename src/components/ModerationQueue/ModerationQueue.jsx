@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { badgeStyle, labelOf } from "../../data/taxonomy.js";
+import * as styles from "./ModerationQueue.module.css";
+
+const when = (iso) => new Date(iso).toLocaleString();
+
+function QueueItem({
+  item,
+  queue,
+  taxonomy,
+  mergeTargets,
+  onApprove,
+  onReject,
+}) {
+  const [status, setStatus] = useState(queue.approveStatuses[0] || "");
+  const [mergeInto, setMergeInto] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [pending, setPending] = useState(false);
+
+  const run = async (action) => {
+    setPending(true);
+    const message = await action();
+    setPending(false);
+    setError(message || "");
+  };
+
+  const approve = () =>
+    run(() =>
+      onApprove(item.id, {
+        ...(mergeInto ? { mergeInto } : { status }),
+        reason: reason.trim() || undefined,
+      }),
+    );
+
+  return (
+    <tr>
+      <td>
+        <strong>{item.name}</strong>{" "}
+        <span
+          className={styles.badge}
+          style={badgeStyle(taxonomy.kinds, item.kind)}
+        >
+          {labelOf(taxonomy.kinds, item.kind)}
+        </span>
+        <div className={styles.muted}>
+          {item.submission
+            ? `Submitted ${when(item.submission.submitted_at)}`
+            : `Added ${when(item.created_at)}`}
+        </div>
+        {error && (
+          <div className={styles.error} role="alert">
+            {error}
+          </div>
+        )}
+      </td>
+      <td>
+        <select
+          className={styles.input}
+          aria-label="Merge into"
+          value={mergeInto}
+          onChange={(e) => setMergeInto(e.target.value)}
+        >
+          <option value="">Keep as a new format</option>
+          {mergeTargets.map((t) => (
+            <option key={t.id} value={t.id}>
+              Merge into {t.name}
+            </option>
+          ))}
+        </select>{" "}
+        {!mergeInto && (
+          <select
+            className={styles.input}
+            aria-label="Approve as"
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+          >
+            {queue.approveStatuses.map((s) => (
+              <option key={s} value={s}>
+                {labelOf(taxonomy.statuses, s)}
+              </option>
+            ))}
+          </select>
+        )}
+      </td>
+      <td>
+        <input
+          className={`${styles.input} ${styles.reason}`}
+          placeholder="Reason (required to reject)"
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </td>
+      <td className={styles.actions}>
+        <button
+          className={styles.btn}
+          disabled={pending || (!mergeInto && !status)}
+          onClick={approve}
+        >
+          {mergeInto ? "Merge" : "Approve"}
+        </button>
+        <button
+          className={styles.btn}
+          disabled={pending || !queue.rejectStatus || !reason.trim()}
+          title={
+            queue.rejectStatus
+              ? `Moves it to ${labelOf(taxonomy.statuses, queue.rejectStatus)}`
+              : "This board has no status to reject to"
+          }
+          onClick={() => run(() => onReject(item.id, reason.trim()))}
+        >
+          Reject
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function ModerationQueue({
+  queue,
+  taxonomy,
+  mergeTargets,
+  onApprove,
+  onReject,
+}) {
+  if (!queue) return <p className={styles.empty}>Loading the queue…</p>;
+
+  return (
+    <section className={styles.panel}>
+      {queue.items.length === 0 ? (
+        <p className={styles.empty}>Nothing waiting for review.</p>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Submission</th>
+              <th>Outcome</th>
+              <th>Reason</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {queue.items.map((item) => (
+              <QueueItem
+                key={item.id}
+                item={item}
+                queue={queue}
+                taxonomy={taxonomy}
+                mergeTargets={mergeTargets}
+                onApprove={onApprove}
+                onReject={onReject}
+              />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,50 @@
+import React from "react";
+import { boardHref } from "../../data/board.js";
+import { labelOf } from "../../data/taxonomy.js";
+import * as styles from "./MySubmissions.module.css";
+
+// What to tell the submitter about a decision
+function outcome(s, taxonomy) {
+  switch (s.decision) {
+    case "pending":
+      return "Waiting for review";
+    case "approved":
+      return s.status
+        ? `Accepted · now ${labelOf(taxonomy.statuses, s.status)}`
+        : "Accepted";
+    case "merged":
+      return s.merged_into
+        ? `Already requested as ${s.merged_into.name}`
+        : "Already requested";
+    case "rejected":
+      return "Not accepted";
+    default:
+      return "Removed";
+  }
+}
+
+export default function MySubmissions({ submissions, taxonomy }) {
+  if (submissions.length === 0) return null;
+
+  return (
+    <section className={styles.panel} aria-label="Your submissions">
+      <h2 className={styles.heading}>Your submissions</h2>
+      <ul className={styles.list}>
+        {submissions.map((s) => (
+          <li key={s.id} className={styles.item}>
+            <span>
+              <strong>{s.name}</strong>{" "}
+              <a className={styles.muted} href={boardHref(s.board)}>
+                {labelOf(taxonomy.kinds, s.kind)} · {s.board}
+              </a>
+            </span>
+            <span className={`${styles.outcome} ${styles[s.decision] || ""}`}>
+              {outcome(s, taxonomy)}
+            </span>
+            {s.reason && <span className={styles.reason}>“{s.reason}”</span>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
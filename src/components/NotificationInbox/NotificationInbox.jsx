@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from "react";
+import * as styles from "./NotificationInbox.module.css";
+
+const when = (iso) => new Date(iso).toLocaleString();
+
+export default function NotificationInbox({
+  notifications,
+  email,
+  emailEnabled,
+  onMarkRead,
+  onSaveEmail,
+  onClose,
+}) {
+  const [address, setAddress] = useState(email || "");
+  const [message, setMessage] = useState("");
+  const unread = notifications.filter((n) => !n.read_at);
+
+  useEffect(() => {
+    setAddress(email || "");
+  }, [email]);
+
+  const saveEmail = async (event) => {
+    event.preventDefault();
+    const error = await onSaveEmail(address.trim());
+    setMessage(error || (address.trim() ? "Saved." : "Email turned off."));
+  };
+
+  return (
+    <section className={styles.inbox} aria-label="Notifications">
+      <div className={styles.head}>
+        <strong>Notifications</strong>
+        <button
+          className={styles.link}
+          disabled={unread.length === 0}
+          onClick={() => onMarkRead()}
+        >
+          Mark all read
+        </button>
+        <button className={styles.link} onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {notifications.length === 0 ? (
+        <p className={styles.empty}>
+          Nothing yet. Vote for a format and choose “Notify me” to hear when its
+          status changes.
+        </p>
+      ) : (
+        <ul className={styles.list}>
+          {notifications.map((n) => (
+            <li
+              key={n.id}
+              className={`${styles.item} ${n.read_at ? "" : styles.unread}`}
+            >
+              <span>
+                <strong>{n.format_name}</strong> moved from {n.from_status} to{" "}
+                <strong>{n.to_status}</strong>
+              </span>
+              <span className={styles.when}>{when(n.created_at)}</span>
+              {!n.read_at && (
+                <button
+                  className={styles.link}
+                  onClick={() => onMarkRead([n.id])}
+                >
+                  Mark read
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {emailEnabled && (
+        <form className={styles.form} onSubmit={saveEmail}>
+          <label className={styles.field}>
+            Also email me at
+            <input
+              className={styles.input}
+              type="email"
+              placeholder="you@example.com"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+          </label>
+          <button className={styles.btn} type="submit">
+            Save
+          </button>
+          {message && <span className={styles.when}>{message}</span>}
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import * as styles from "./OutboxBar.module.css";
+
+// Requests waiting in the outbox (src/data/outbox.js) and the ones the server
+// turned down on replay
+export default function OutboxBar({
+  entries,
+  online,
+  onSync,
+  onRetry,
+  onDismiss,
+}) {
+  const pending = entries.filter((e) => e.state === "pending");
+  const failed = entries.filter((e) => e.state === "failed");
+  if (online && entries.length === 0) return null;
+
+  return (
+    <section className={styles.bar} aria-label="Offline changes" role="status">
+      {!online && (
+        <div className={styles.offline}>
+          You are offline. Votes and changes are kept on this device and sent
+          once you are back online.
+        </div>
+      )}
+      {pending.length > 0 && (
+        <div className={styles.row}>
+          <details className={styles.pending}>
+            <summary>
+              {pending.length === 1
+                ? "1 change waiting to be sent"
+                : `${pending.length} changes waiting to be sent`}
+            </summary>
+            <ul className={styles.list}>
+              {pending.map((e) => (
+                <li key={e.id}>{e.label}</li>
+              ))}
+            </ul>
+          </details>
+          <button className={styles.btn} disabled={!online} onClick={onSync}>
+            Send now
+          </button>
+        </div>
+      )}
+      {failed.length > 0 && (
+        <ul className={styles.list}>
+          {failed.map((e) => (
+            <li key={e.id} className={styles.failed}>
+              <span>
+                <strong>{e.label}</strong> was not saved: {e.error}
+              </span>
+              <button className={styles.link} onClick={() => onRetry(e.id)}>
+                Retry
+              </button>
+              <button className={styles.link} onClick={() => onDismiss(e.id)}>
+                Dismiss
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
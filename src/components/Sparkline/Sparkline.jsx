@@ -0,0 +1,36 @@
+import React from "react";
+import * as styles from "./Sparkline.module.css";
+
+const WIDTH = 84;
+const HEIGHT = 20;
+
+// Tiny line chart of daily vote counts, oldest first
+export default function Sparkline({ values }) {
+  if (!values?.length) return null;
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (total === 0) return null;
+  const max = Math.max(...values);
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  const points = values
+    .map((v, i) => {
+      const x = i * step;
+      const y = HEIGHT - 1 - (v / max) * (HEIGHT - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const label = `${total} vote${total === 1 ? "" : "s"} in the last ${values.length} days`;
+
+  return (
+    <span className={styles.sparkline} title={label}>
+      <svg
+        width={WIDTH}
+        height={HEIGHT}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={label}
+      >
+        <polyline className={styles.line} points={points} />
+      </svg>
+    </span>
+  );
+}
@@ -1,9 +1,15 @@
 import React, { useState } from "react";
 import * as styles from "./SubmitBar.module.css";
 
-export default function SubmitBar({ onSubmit }) {
+export default function SubmitBar({ kinds, onSubmit }) {
   const [name, setName] = useState("");
-  const [kind, setKind] = useState("image");
+  // Honeypot: hidden from people, filled in by form-filling bots
+  const [website, setWebsite] = useState("");
+  const [kindChoice, setKind] = useState("");
+  // The board's kinds load after the first render
+  const kind = kinds.some((k) => k.key === kindChoice)
+    ? kindChoice
+    : kinds[0]?.key;
   const [status, setStatus] = useState("idle"); // idle, success, error
   const [message, setMessage] = useState("");
   const [pending, setPending] = useState(false);
@@ -12,9 +18,13 @@ export default function SubmitBar({ onSubmit }) {
     const trimmed = name.trim();
     if (!trimmed || pending) return;
     setPending(true);
-    const ok = await onSubmit(trimmed, kind);
+    const ok = await onSubmit(trimmed, kind, website);
     setPending(false);
-    if (ok) {
+    if (ok === "queued") {
+      setStatus("success");
+      setMessage("Saved. It will be sent for review once you are back online.");
+      setName("");
+    } else if (ok) {
       setStatus("success");
       setMessage("Thanks! We'll review it shortly.");
       setName("");
@@ -37,14 +47,25 @@ export default function SubmitBar({ onSubmit }) {
           value={name}
           onChange={(e) => setName(e.target.value)}
         />
+        <input
+          className={styles.honeypot}
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          aria-hidden="true"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
         <select
           className={styles.select}
           value={kind}
           onChange={(e) => setKind(e.target.value)}
         >
-          <option value="image">image</option>
-          <option value="video">video</option>
-          <option value="audio">audio</option>
+          {kinds.map((k) => (
+            <option key={k.key} value={k.key}>
+              {k.label}
+            </option>
+          ))}
         </select>
         <button
           className={styles.btn}
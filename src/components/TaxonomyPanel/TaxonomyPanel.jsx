@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import * as styles from "./TaxonomyPanel.module.css";
+
+// Comma separated input -> list of trimmed, non-empty values
+const toList = (text) =>
+  text
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+function EntryRow({ type, entry, onSave }) {
+  const [label, setLabel] = useState(entry.label);
+  const [color, setColor] = useState(entry.color);
+  const [position, setPosition] = useState(String(entry.position));
+  const [votingOpen, setVotingOpen] = useState(entry.voting_open);
+  const [visible, setVisible] = useState(entry.visible);
+  const [transitions, setTransitions] = useState(
+    (entry.transitions || []).join(", "),
+  );
+  const [error, setError] = useState("");
+  const isStatus = type === "statuses";
+
+  const save = async () => {
+    const message = await onSave(type, entry.key, {
+      label: label.trim(),
+      color,
+      position: Number(position),
+      votingOpen,
+      visible,
+      ...(isStatus ? { transitions: toList(transitions) } : {}),
+    });
+    setError(message || "");
+  };
+
+  return (
+    <tr>
+      <td>
+        <code>{entry.key}</code>
+        {error && (
+          <div className={styles.error} role="alert">
+            {error}
+          </div>
+        )}
+      </td>
+      <td>
+        <input
+          className={styles.input}
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+      </td>
+      <td>
+        <input
+          type="color"
+          className={styles.color}
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+        />
+      </td>
+      <td>
+        <input
+          type="number"
+          className={`${styles.input} ${styles.position}`}
+          value={position}
+          onChange={(e) => setPosition(e.target.value)}
+        />
+      </td>
+      <td>
+        <input
+          type="checkbox"
+          aria-label="Voting open"
+          checked={votingOpen}
+          onChange={(e) => setVotingOpen(e.target.checked)}
+        />
+      </td>
+      <td>
+        <input
+          type="checkbox"
+          aria-label="Public"
+          checked={visible}
+          onChange={(e) => setVisible(e.target.checked)}
+        />
+      </td>
+      {isStatus && (
+        <td>
+          <input
+            className={styles.input}
+            placeholder="Planned, Rejected"
+            value={transitions}
+            onChange={(e) => setTransitions(e.target.value)}
+          />
+        </td>
+      )}
+      {isStatus && (
+        <td>
+          {entry.initial ? (
+            "Initial"
+          ) : (
+            <button
+              className={styles.link}
+              title="Public submissions land in this status"
+              onClick={() => onSave(type, entry.key, { initial: true })}
+            >
+              Make initial
+            </button>
+          )}
+        </td>
+      )}
+      <td>
+        <button
+          className={styles.btn}
+          disabled={!label.trim() || !Number.isInteger(Number(position))}
+          onClick={save}
+        >
+          Save
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function TaxonomyTable({ type, title, entries, onCreate, onUpdate }) {
+  const [key, setKey] = useState("");
+  const [label, setLabel] = useState("");
+  const [color, setColor] = useState("#555555");
+  const [error, setError] = useState("");
+  const isStatus = type === "statuses";
+
+  const create = async (event) => {
+    event.preventDefault();
+    const message = await onCreate(type, {
+      key: key.trim(),
+      label: label.trim(),
+      color,
+    });
+    setError(message || "");
+    if (!message) {
+      setKey("");
+      setLabel("");
+    }
+  };
+
+  return (
+    <div className={styles.group}>
+      <h2 className={styles.heading}>{title}</h2>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Key</th>
+            <th>Label</th>
+            <th>Colour</th>
+            <th>Order</th>
+            <th>Voting</th>
+            <th>Public</th>
+            {isStatus && <th>Moves to</th>}
+            {isStatus && <th />}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((e) => (
+            // Remount after a save so the inputs show the stored values
+            <EntryRow
+              key={`${e.key}:${JSON.stringify(e)}`}
+              type={type}
+              entry={e}
+              onSave={onUpdate}
+            />
+          ))}
+        </tbody>
+      </table>
+      <form className={styles.form} onSubmit={create}>
+        <input
+          className={styles.input}
+          placeholder={isStatus ? "Key e.g., 'Deprecated'" : "Key e.g., '3d'"}
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+        />
+        <input
+          className={styles.input}
+          placeholder={isStatus ? "Label" : "Label e.g., '3D model'"}
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <input
+          type="color"
+          className={styles.color}
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+        />
+        <button
+          className={styles.btn}
+          type="submit"
+          disabled={!key.trim() || !label.trim()}
+        >
+          Add
+        </button>
+      </form>
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function TaxonomyPanel({ taxonomy, onCreate, onUpdate }) {
+  return (
+    <section className={styles.panel}>
+      <TaxonomyTable
+        type="kinds"
+        title="Kinds"
+        entries={taxonomy.kinds}
+        onCreate={onCreate}
+        onUpdate={onUpdate}
+      />
+      <TaxonomyTable
+        type="statuses"
+        title="Statuses"
+        entries={taxonomy.statuses}
+        onCreate={onCreate}
+        onUpdate={onUpdate}
+      />
+    </section>
+  );
+}
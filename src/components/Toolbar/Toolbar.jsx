@@ -1,11 +1,14 @@
 import React from "react";
 import * as styles from "./Toolbar.module.css";
 
+// Statuses that are not public can only be filtered on by admins
 export default function Toolbar({
   query,
   kind,
   status,
   sort,
+  kinds,
+  statuses,
   admin = false,
   onChange,
 }) {
@@ -14,7 +17,7 @@ export default function Toolbar({
       <div className={styles.barInner}>
         <input
           type="search"
-          placeholder="Search formats (e.g., AV1, WebM, FLAC, HEIF)"
+          placeholder="Search formats (e.g., AV1, hevc, .m4a, audio/flac)"
           className={styles.input}
           value={query}
           onChange={(e) => onChange({ query: e.target.value })}
@@ -25,9 +28,11 @@ export default function Toolbar({
           onChange={(e) => onChange({ kind: e.target.value })}
         >
           <option value="">All types</option>
-          <option>audio</option>
-          <option>video</option>
-          <option>image</option>
+          {kinds.map((k) => (
+            <option key={k.key} value={k.key}>
+              {k.label}
+            </option>
+          ))}
         </select>
         <select
           className={styles.select}
@@ -35,10 +40,13 @@ export default function Toolbar({
           onChange={(e) => onChange({ status: e.target.value })}
         >
           <option value="">All statuses</option>
-          <option>Requested</option>
-          <option>Planned</option>
-          <option>Supported</option>
-          {admin && <option>In Review</option>}
+          {statuses
+            .filter((s) => admin || s.visible)
+            .map((s) => (
+              <option key={s.key} value={s.key}>
+                {s.label}
+              </option>
+            ))}
         </select>
         <select
           className={styles.select}
@@ -50,6 +58,9 @@ export default function Toolbar({
           <option value="name-asc">Sort: Name A→Z</option>
           <option value="name-desc">Sort: Name Z→A</option>
           <option value="newest">Sort: Newest</option>
+          <option value="relevance">Sort: Relevance</option>
+          <option value="trending">Sort: Trending</option>
+          <option value="priority">Sort: Priority</option>
         </select>
       </div>
     </div>
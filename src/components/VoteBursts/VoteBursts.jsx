@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import * as styles from "./VoteBursts.module.css";
+
+const when = (iso) => new Date(iso).toLocaleString();
+
+const FLAG_LABELS = {
+  few_addresses: "Many votes per address",
+  new_devices: "Mostly brand-new devices",
+};
+
+function BurstRow({ burst, onVoid }) {
+  const [error, setError] = useState("");
+  const [pending, setPending] = useState(false);
+  const suspicious = burst.flags.length > 0;
+
+  const voidVotes = async (block) => {
+    const what = block
+      ? "void these votes and block the devices"
+      : "void these votes";
+    if (!window.confirm(`Really ${what}? This cannot be undone.`)) return;
+    setPending(true);
+    const message = await onVoid(burst, block);
+    setPending(false);
+    setError(message || "");
+  };
+
+  return (
+    <tr className={suspicious ? styles.suspicious : ""}>
+      <td>
+        <strong>{burst.name}</strong>
+        <div className={styles.muted}>{when(burst.window_start)}</div>
+        {error && (
+          <div className={styles.error} role="alert">
+            {error}
+          </div>
+        )}
+      </td>
+      <td>{burst.votes}</td>
+      <td>
+        {burst.ips}
+        {burst.unknown_ips > 0 && (
+          <span className={styles.muted}> (+{burst.unknown_ips} unknown)</span>
+        )}
+      </td>
+      <td>{burst.new_devices}</td>
+      <td>
+        {suspicious
+          ? burst.flags.map((f) => FLAG_LABELS[f] || f).join(", ")
+          : "—"}
+      </td>
+      <td className={styles.actions}>
+        <button
+          className={styles.btn}
+          disabled={pending}
+          onClick={() => voidVotes(false)}
+        >
+          Void
+        </button>
+        <button
+          className={styles.btn}
+          disabled={pending}
+          onClick={() => voidVotes(true)}
+        >
+          Void &amp; block
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function VoteBursts({ bursts, onVoid }) {
+  if (!bursts) return null;
+  const minutes = Math.round(bursts.windowSeconds / 60);
+
+  return (
+    <section className={styles.panel}>
+      <h2 className={styles.heading}>Vote bursts</h2>
+      {bursts.items.length === 0 ? (
+        <p className={styles.empty}>
+          No format got an unusual number of votes within {minutes} minutes this
+          week.
+        </p>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Format · {minutes} min window</th>
+              <th>Votes</th>
+              <th>Addresses</th>
+              <th>New devices</th>
+              <th>Flags</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {bursts.items.map((b) => (
+              <BurstRow
+                key={`${b.format_id}:${b.window_start}`}
+                burst={b}
+                onVoid={onVoid}
+              />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
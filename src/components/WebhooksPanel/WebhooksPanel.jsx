@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import * as styles from "./WebhooksPanel.module.css";
+
+export default function WebhooksPanel({
+  webhooks,
+  events,
+  secret,
+  deliveries,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onPing,
+  onShowDeliveries,
+  onRetry,
+}) {
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [selected, setSelected] = useState([]);
+  const [threshold, setThreshold] = useState("10");
+  const [error, setError] = useState("");
+
+  const create = async (event) => {
+    event.preventDefault();
+    const message = await onCreate({
+      url: url.trim(),
+      description: description.trim() || null,
+      events: selected,
+      voteThreshold: Number(threshold) || 10,
+    });
+    setError(message || "");
+    if (!message) {
+      setUrl("");
+      setDescription("");
+      setSelected([]);
+    }
+  };
+
+  return (
+    <section className={styles.panel}>
+      <form className={styles.form} onSubmit={create}>
+        <input
+          className={styles.input}
+          placeholder="https://example.com/hooks/formats"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <input
+          className={styles.input}
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <select
+          className={styles.input}
+          multiple
+          aria-label="Events (none selected = all)"
+          value={selected}
+          onChange={(e) =>
+            setSelected(Array.from(e.target.selectedOptions, (o) => o.value))
+          }
+        >
+          {events
+            .filter((e) => e !== "ping")
+            .map((e) => (
+              <option key={e}>{e}</option>
+            ))}
+        </select>
+        <label className={styles.field}>
+          Vote threshold
+          <input
+            className={styles.input}
+            type="number"
+            min="1"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </label>
+        <button className={styles.btn} type="submit" disabled={!url.trim()}>
+          Add webhook
+        </button>
+      </form>
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+      {secret && (
+        <div className={styles.secret} role="status">
+          Signing secret (shown once): <code>{secret}</code>
+        </div>
+      )}
+
+      {webhooks.length === 0 ? (
+        <div className={styles.empty}>No webhooks yet.</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Endpoint</th>
+              <th>Events</th>
+              <th>Queue</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {webhooks.map((w) => (
+              <tr key={w.id} className={w.active ? "" : styles.inactive}>
+                <td>
+                  <div>{w.url}</div>
+                  {w.description && (
+                    <div className={styles.muted}>{w.description}</div>
+                  )}
+                </td>
+                <td>
+                  {w.events.length ? w.events.join(", ") : "all events"}
+                  <div className={styles.muted}>
+                    threshold {w.vote_threshold} votes
+                  </div>
+                </td>
+                <td>
+                  {w.pending} pending · {w.failed} failed
+                </td>
+                <td className={styles.actions}>
+                  <button
+                    className={styles.link}
+                    onClick={() => onUpdate(w.id, { active: !w.active })}
+                  >
+                    {w.active ? "Pause" : "Resume"}
+                  </button>
+                  <button className={styles.link} onClick={() => onPing(w.id)}>
+                    Ping
+                  </button>
+                  <button
+                    className={styles.link}
+                    onClick={() => onShowDeliveries(w.id)}
+                  >
+                    Deliveries
+                  </button>
+                  <button
+                    className={`${styles.link} ${styles.danger}`}
+                    onClick={() => {
+                      if (window.confirm(`Delete the webhook for ${w.url}?`)) {
+                        onDelete(w.id);
+                      }
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {deliveries && (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Queued</th>
+              <th>Event</th>
+              <th>Status</th>
+              <th>Attempts</th>
+              <th>Last result</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map((d) => (
+              <tr key={d.id}>
+                <td>{new Date(d.created_at).toLocaleString()}</td>
+                <td>
+                  <code>{d.event}</code>
+                </td>
+                <td>{d.status}</td>
+                <td>{d.attempts}</td>
+                <td>
+                  {d.last_error || d.last_status_code || "—"}
+                  {d.status === "pending" && d.attempts > 0 && (
+                    <div className={styles.muted}>
+                      next try {new Date(d.next_attempt_at).toLocaleString()}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  {d.status !== "succeeded" && (
+                    <button
+                      className={styles.link}
+                      onClick={() => onRetry(d.id)}
+                    >
+                      Retry now
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+import { FALLBACK_TAXONOMY } from "./taxonomy.js";
+
+// Boards live at /boards/:slug/; every other path shows the default board
+export const DEFAULT_BOARD = "default";
+
+export function boardFromPath(pathname) {
+  const match = /^\/boards\/([a-z0-9-]+)(?:\/|$)/.exec(pathname);
+  return match ? match[1] : DEFAULT_BOARD;
+}
+
+export const boardHref = (slug) =>
+  slug === DEFAULT_BOARD ? "/" : `/boards/${slug}/`;
+
+// Board shown on the current page
+export const currentBoard =
+  typeof window !== "undefined"
+    ? boardFromPath(window.location.pathname)
+    : DEFAULT_BOARD;
+
+// Stand-in until GET /api/boards/:board answers, and when offline
+export const FALLBACK_BOARD = {
+  slug: currentBoard,
+  title: "Squarespace Image Format Support",
+  kinds: FALLBACK_TAXONOMY.kinds.map((k) => k.key),
+  statuses: FALLBACK_TAXONOMY.statuses.map((s) => s.key),
+};
@@ -1,14 +1,43 @@
-export const deviceId = (() => {
-  const k = "device.id";
-  let v = localStorage.getItem(k);
-  if (!v) {
-    v = crypto.randomUUID();
-    localStorage.setItem(k, v);
+import { currentBoard, DEFAULT_BOARD } from "./board.js";
+
+const DEVICE_KEY = "device.id";
+const DEVICE_TOKEN_KEY = "device.token";
+
+// Issued by POST /api/devices (see getDeviceToken). Empty until the first
+// registration; an ID an install generated before device tokens existed is
+// replaced, as the API no longer adopts them.
+export let deviceId = localStorage.getItem(DEVICE_KEY) || "";
+
+let registering = null;
+
+// Resolves to the signed token device requests must carry, registering this
+// device with the API the first time
+export function getDeviceToken(apiBase) {
+  const token = localStorage.getItem(DEVICE_TOKEN_KEY);
+  if (deviceId && token?.startsWith(`${deviceId}.`)) {
+    return Promise.resolve(token);
   }
-  return v;
-})();
+  registering ??= (async () => {
+    const res = await fetch(`${apiBase}/api/devices`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    if (!res.ok) throw new Error(`Device registration failed: ${res.status}`);
+    const body = await res.json();
+    deviceId = body.deviceId;
+    localStorage.setItem(DEVICE_KEY, body.deviceId);
+    localStorage.setItem(DEVICE_TOKEN_KEY, body.token);
+    return body.token;
+  })().finally(() => {
+    registering = null;
+  });
+  return registering;
+}
 
-const ROWS_KEY = "formats.v1";
+// Rows are cached per board; the default board keeps the original key
+const ROWS_KEY =
+  currentBoard === DEFAULT_BOARD ? "formats.v1" : `formats.v1.${currentBoard}`;
 const VOTES_KEY = "votes.v1";
 
 export function loadLocalRows(seedTuples) {
@@ -45,3 +74,14 @@ export function setVotesSet(set) {
   for (const id of set) map[deviceId][id] = true;
   localStorage.setItem(VOTES_KEY, JSON.stringify(map));
 }
+
+const DISPLAY_NAME_KEY = "display.name";
+
+export function getDisplayName() {
+  return localStorage.getItem(DISPLAY_NAME_KEY) || "";
+}
+
+export function setDisplayName(name) {
+  if (name) localStorage.setItem(DISPLAY_NAME_KEY, name);
+  else localStorage.removeItem(DISPLAY_NAME_KEY);
+}
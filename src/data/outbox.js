@@ -0,0 +1,56 @@
+// Requests made while offline, kept until they can be replayed in order (see
+// flushOutbox in App.tsx). An entry is { id, type, label, path, method, body,
+// createdAt, state, error }: `type` is "vote", "submit" or "admin", `path` is
+// relative to the API base and `state` is "pending" or "failed". Votes and
+// submissions get their device token (and proof of work) when they are sent.
+const OUTBOX_KEY = "outbox.v1";
+
+export function loadOutbox() {
+  return JSON.parse(localStorage.getItem(OUTBOX_KEY) || "[]");
+}
+
+export function saveOutbox(entries) {
+  if (entries.length) localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  else localStorage.removeItem(OUTBOX_KEY);
+}
+
+export const createEntry = ({ type, label, path, method, body }) => ({
+  id: crypto.randomUUID(),
+  type,
+  label,
+  path,
+  method,
+  body,
+  createdAt: new Date().toISOString(),
+  state: "pending",
+  error: null,
+});
+
+// fetch rejects with a TypeError when the request never reached the server
+export const isOffline = (err) =>
+  err instanceof TypeError ||
+  (typeof navigator !== "undefined" && navigator.onLine === false);
+
+const FAILURES = {
+  not_found: "The format no longer exists.",
+  voting_closed: "Voting has closed for this format.",
+  duplicate_name: "A format with this name already exists.",
+  invalid_transition: "The format's status changed in the meantime.",
+  invalid_status: "That status is no longer available.",
+  metadata_conflict: "A value is already used by another format.",
+  device_blocked: "This device may no longer vote or submit.",
+  forbidden: "You may no longer manage this board.",
+};
+
+// Message shown for a replayed request the server turned down
+export const describeFailure = (code, status) =>
+  FAILURES[code] || `Turned down by the server (${code || status}).`;
+
+// Lets the service worker wake open pages when connectivity returns, where
+// Background Sync is supported; the `online` event covers the rest
+export function requestSync() {
+  if (typeof navigator === "undefined" || !navigator.serviceWorker) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.sync?.register("outbox"))
+    .catch((err) => console.warn("Background sync unavailable:", err));
+}
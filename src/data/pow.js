@@ -0,0 +1,25 @@
+// Proof of work for GET /api/challenge: the first nonce for which
+// sha256("<challenge>:<nonce>") starts with `bits` zero bits
+const encoder = new TextEncoder();
+
+function leadingZeroBits(bytes) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function solveChallenge(challenge, bits) {
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      encoder.encode(`${challenge}:${nonce}`),
+    );
+    if (leadingZeroBits(new Uint8Array(digest)) >= bits) return String(nonce);
+  }
+}
@@ -0,0 +1,31 @@
+// Client copy of the server's RICE priority (see PRIORITY_EXPR in server.ts):
+// reach × impact × confidence% ÷ effort, with reach defaulting to the votes.
+
+export const PRIORITY_DEFAULTS = { impact: 1, confidence: 50, effort: 1 };
+
+const inputs = (row) => ({
+  reach: row.reach ?? row.votes ?? 0,
+  impact: row.impact ?? PRIORITY_DEFAULTS.impact,
+  confidence: row.confidence ?? PRIORITY_DEFAULTS.confidence,
+  effort: row.effort ?? PRIORITY_DEFAULTS.effort,
+});
+
+// The server's score when it sent one, otherwise computed the same way
+export function priorityScore(row) {
+  if (typeof row.priority === "number") return row.priority;
+  const { reach, impact, confidence, effort } = inputs(row);
+  return Math.round(((reach * impact * confidence) / 100 / effort) * 100) / 100;
+}
+
+// "Reach 12 (votes) × Impact 2 × Confidence 50% (default) ÷ Effort 3 = 4"
+export function priorityBreakdown(row) {
+  const { reach, impact, confidence, effort } = inputs(row);
+  const note = (field) => (row[field] == null ? " (default)" : "");
+  return [
+    `Reach ${reach}${row.reach == null ? " (votes)" : ""}`,
+    `× Impact ${impact}${note("impact")}`,
+    `× Confidence ${confidence}%${note("confidence")}`,
+    `÷ Effort ${effort}${note("effort")}`,
+    `= ${priorityScore(row)}`,
+  ].join(" ");
+}
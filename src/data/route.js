@@ -0,0 +1,46 @@
+import { boardHref } from "./board.js";
+
+// Format pages live under the board's page: /formats/:id on the default
+// board, /boards/:slug/formats/:id on the others
+export function formatFromPath(pathname) {
+  const match = /^(?:\/boards\/[a-z0-9-]+)?\/formats\/([^/]+)\/?$/.exec(
+    pathname,
+  );
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+export const formatHref = (board, id) =>
+  `${boardHref(board)}formats/${encodeURIComponent(id)}`;
+
+// Query string parameter of each filter
+const PARAMS = { query: "q", kind: "kind", status: "status", sort: "sort" };
+
+// Filters given in a query string; absent ones are left out
+export function filtersFromSearch(search) {
+  const params = new URLSearchParams(search);
+  const filters = {};
+  for (const [key, param] of Object.entries(PARAMS)) {
+    if (params.has(param)) filters[key] = params.get(param);
+  }
+  return filters;
+}
+
+// Query string ("" or "?…") for the filters that differ from the defaults;
+// an empty value is kept, e.g. "status=" for every status
+export function filtersToSearch(filters, defaults) {
+  const params = new URLSearchParams();
+  for (const [key, param] of Object.entries(PARAMS)) {
+    if (filters[key] !== defaults[key]) params.set(param, filters[key]);
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Left clicks without modifier keys, which the app follows itself; others
+// (e.g. open in a new tab) are left to the browser
+export const isPlainClick = (event) =>
+  event.button === 0 &&
+  !event.metaKey &&
+  !event.ctrlKey &&
+  !event.shiftKey &&
+  !event.altKey;
@@ -0,0 +1,35 @@
+// Offline counterpart of the server's ranked search (see GET /api/formats):
+// exact, prefix and substring matches on normalized keys, no fuzzy scoring.
+
+const normalize = (text) => text.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const words = (text) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+const rank = (key, term) => {
+  if (key === term) return 1;
+  if (key.startsWith(term)) return 0.9;
+  if (key.includes(term)) return 0.7;
+  return 0;
+};
+
+// Relevance of a row for the query, 0 when it does not match
+export function localRelevance(row, query) {
+  const whole = normalize(query);
+  if (!whole) return 1;
+  const terms = [
+    row.name,
+    ...(row.aliases || []),
+    ...(row.mime_types || []),
+    ...(row.extensions || []),
+  ];
+  const keys = terms.flatMap((t) => [normalize(t), ...words(t)]);
+  const best = (term) => Math.max(0, ...keys.map((k) => rank(k, term)));
+  const queryWords = words(query);
+  const perWord =
+    queryWords.reduce((sum, w) => sum + best(w), 0) / queryWords.length;
+  return Math.max(best(whole), perWord);
+}
@@ -0,0 +1,103 @@
+// Kinds and statuses as served by GET /api/taxonomy. This copy of the
+// built-in taxonomy is used until the API answers, and when offline.
+export const FALLBACK_TAXONOMY = {
+  kinds: [
+    {
+      key: "image",
+      label: "Image",
+      color: "#2f6f9f",
+      voting_open: true,
+      visible: true,
+    },
+    {
+      key: "video",
+      label: "Video",
+      color: "#7a3f9f",
+      voting_open: true,
+      visible: true,
+    },
+    {
+      key: "audio",
+      label: "Audio",
+      color: "#3f7f4f",
+      voting_open: true,
+      visible: true,
+    },
+  ],
+  statuses: [
+    {
+      key: "In Review",
+      label: "In Review",
+      color: "#2f3c96",
+      voting_open: false,
+      visible: false,
+      transitions: ["Requested", "Planned", "Rejected"],
+      initial: true,
+    },
+    {
+      key: "Requested",
+      label: "Requested",
+      color: "#111111",
+      voting_open: true,
+      visible: true,
+      transitions: ["Planned", "Rejected"],
+      initial: false,
+    },
+    {
+      key: "Planned",
+      label: "Planned",
+      color: "#775c1a",
+      voting_open: false,
+      visible: true,
+      transitions: ["Supported", "Requested"],
+      initial: false,
+    },
+    {
+      key: "Supported",
+      label: "Supported",
+      color: "#1f5b3f",
+      voting_open: false,
+      visible: true,
+      transitions: ["Planned"],
+      initial: false,
+    },
+    {
+      key: "Rejected",
+      label: "Rejected",
+      color: "#6b1c1c",
+      voting_open: false,
+      visible: false,
+      transitions: ["In Review", "Requested"],
+      initial: false,
+    },
+  ],
+};
+
+const find = (list, key) => list.find((entry) => entry.key === key);
+
+// Display label of a kind or status; unknown keys show as they are
+export const labelOf = (list, key) => find(list, key)?.label ?? key;
+
+export const colorOf = (list, key) => find(list, key)?.color;
+
+// Badge colours derived from the entry's colour
+export const badgeStyle = (list, key) => {
+  const color = colorOf(list, key);
+  return color
+    ? { color, background: `${color}14`, borderColor: `${color}40` }
+    : undefined;
+};
+
+// Whether anyone (not just admins) sees formats of this kind and status
+export const isPublic = (taxonomy, row) =>
+  find(taxonomy.kinds, row.kind)?.visible !== false &&
+  find(taxonomy.statuses, row.status)?.visible !== false;
+
+// Whether the format currently takes votes
+export const isVotable = (taxonomy, row) =>
+  !!find(taxonomy.kinds, row.kind)?.voting_open &&
+  !!find(taxonomy.statuses, row.status)?.voting_open;
+
+// Status public submissions land in
+export const initialStatus = (taxonomy) =>
+  taxonomy.statuses.find((s) => s.initial)?.key;
@@ -62,6 +62,10 @@ declare module "./App.module.css" {
     readonly gridWrap: string;
     readonly grid: string;
     readonly footer: string;
+    readonly tabs: string;
+    readonly tab: string;
+    readonly tabActive: string;
+    readonly loadMore: string;
     readonly [className: string]: string;
   };
   export default classes;
@@ -10,3 +10,10 @@ root.render(
     <App />
   </StrictMode>,
 );
+
+// Offline support; left out of the dev server so stale bundles never linger
+if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+  navigator.serviceWorker
+    .register(new URL("./sw.js", import.meta.url))
+    .catch((err) => console.error("Service worker registration failed:", err));
+}
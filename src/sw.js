@@ -0,0 +1,81 @@
+// Service worker: keeps the app shell and the last API answers around so the
+// board opens offline, and relays Background Sync to open pages, which replay
+// their outbox (see src/data/outbox.js). Registered in production builds only.
+const CACHE = "format-requests-v1";
+
+// Per-admin, per-request or streaming responses are never cached
+const UNCACHED = /\/(live|admin|audit|moderation|challenge)(\/|\?|$)/;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((k) => k !== CACHE).map((k) => caches.delete(k)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Answers from the network, refreshing the cache; the cached copy (or the
+// app shell, for pages) when offline
+async function networkFirst(request, fallbackKey) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      if (fallbackKey) await cache.put(fallbackKey, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached =
+      (await cache.match(request)) ||
+      (fallbackKey && (await cache.match(fallbackKey)));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Bundles have content hashes in their names, so a cached copy stays valid
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (UNCACHED.test(url.pathname)) return;
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/app-shell"));
+  } else if (url.pathname.startsWith("/api/")) {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== "outbox") return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) =>
+        clients.forEach((client) =>
+          client.postMessage({ type: "outbox-sync" }),
+        ),
+      ),
+  );
+});